@@ -1,247 +1,781 @@
-import React, { useState, useRef } from "react";
-import { LabelData } from "./types";
+import React, { useCallback, useEffect, useMemo, useState, useRef } from "react";
+import { CatalogProduct, ChunkOptions, ColumnMapping, DuplicatePolicy, ImportReportEntry, LabelBatch, LabelData, LabelColumns, LabelLayout, LintIssue, OutputOptions, PrintBridgeSettings, PrintJob, PrinterLanguage, RowValues, SessionState } from "./types";
 import { PasteIcon, DownloadIcon, TrashIcon } from "./components/Icons";
 import LabelCardEditable from "./components/LabelCardEditable";
+import LabelTable from "./components/LabelTable";
 import AddLabelModal from "./components/AddLabelModal";
+import LayoutEditorModal from "./components/LayoutEditorModal";
+import OutputOptionsBar from "./components/OutputOptionsBar";
+import ColumnMappingModal, { MappingSource } from "./components/ColumnMappingModal";
+import FileDropZone from "./components/FileDropZone";
+import ImportReport from "./components/ImportReport";
+import LintReport from "./components/LintReport";
+import PrintQueuePanel from "./components/PrintQueuePanel";
+import ChunkPanel from "./components/ChunkPanel";
+import BatchesModal from "./components/BatchesModal";
+import CatalogModal from "./components/CatalogModal";
+import DuplicatesModal from "./components/DuplicatesModal";
+import ScannerPanel, { ScanResult } from "./components/ScannerPanel";
+import { GENERATORS, getGenerator } from "./generators";
+import { lintLabels } from "./generators/lint";
+import { downloadFile } from "./utils/download";
+import { effectiveColumns, labelValues, layoutColumns } from "./layouts";
+import { parseFingerprintFile } from "./parsers/fingerprint";
+import { parseDelimitedLines } from "./parsers/delimited";
+import { findSavedMapping, saveMapping } from "./parsers/columns";
+import { rowsToLabels, validateRow } from "./parsers/labels";
+import { SPREADSHEET_EXTENSIONS, isSpreadsheetFile, readSpreadsheetFile } from "./parsers/spreadsheet";
+import { readTextFile } from "./utils/files";
+import { DEFAULT_OUTPUT_OPTIONS, renderOutput } from "./utils/output";
+import { prepareValues } from "./utils/encoding";
+import { todayIso } from "./utils/dates";
+import { advanceSerials, loadSerialCounters, recordSerials, reusesSerials, saveSerialCounters } from "./utils/serial";
+import { DuplicateGroup, applyDuplicatePolicy, duplicateKey, findDuplicates } from "./utils/duplicates";
+import { loadSetting, saveSetting } from "./utils/settings";
+import { DEFAULT_CHUNK_OPTIONS, chunkFileName, chunksZipName, loadPrintedChunks, savePrintedChunks, splitLabels } from "./utils/chunks";
+import { createZip } from "./utils/zip";
+import { DEFAULT_PRINT_BRIDGE, PRINT_BRIDGE_KEY, cancelPrintJob, retryPrintJob, submitPrintJob } from "./utils/printBridge";
+import { catalogIndex, catalogKey, loadCatalog, rowsToCatalog, saveCatalog, upsertProducts } from "./catalog";
+import { createBatch, loadBatches, loadSession, saveBatches, saveSession, sortBatches } from "./batches/storage";
+import { loadLayouts, loadSelectedLayoutId, saveLayouts, saveSelectedLayoutId } from "./layouts/storage";
+import { SetOptions, Updater, useUndoable } from "./hooks/useUndoable";
+import { usePrintBridge } from "./hooks/usePrintBridge";
+import { Button, Snackbar } from "@mui/material";
 import AddIcon from "@mui/icons-material/Add";
 
-/**
- * Removes invisible characters (like zero-width spaces) from a string.
- * This helps clean up data pasted from rich text sources like Word or Google Docs.
- * @param input The string to sanitize.
- * @returns The sanitized string.
- */
-const sanitizeString = (input: string): string => {
-  if (!input) return "";
-  // This regex targets zero-width space, zero-width non-joiner, zero-width joiner, and byte order mark.
-  return input.replace(/[\u200B-\u200D\uFEFF]/g, "");
-};
+const OUTPUT_OPTIONS_KEY = "etiquetas.outputOptions";
+const DUPLICATE_POLICY_KEY = "etiquetas.duplicatePolicy";
+const CHUNK_OPTIONS_KEY = "etiquetas.chunkOptions";
+const DEFAULT_DUPLICATE_POLICY: DuplicatePolicy = { action: "merge", description: "existing" };
 
-/**
- * Splits a description into two lines for the label printer.
- * It tries to split at the last space before the maxLength to keep words intact.
- * The maxLength is set to 25 to align with the printer's label format definition (d0,25).
- * @param description The full product description.
- * @param maxLength The maximum length of the first line (default: 25).
- * @returns An array containing the first and second lines.
- */
-const splitDescription = (
-  description: string,
-  maxLength: number = 25
-): [string, string] => {
-  const trimmedDesc = description.trim();
-  if (trimmedDesc.length <= maxLength) {
-    return [trimmedDesc, ""];
-  }
-
-  // Find the last space at or before maxLength to avoid splitting words.
-  let splitPos = trimmedDesc.lastIndexOf(" ", maxLength);
-
-  // If no space is found, or it's at the very beginning, we have to split the word.
-  if (splitPos <= 0) {
-    splitPos = maxLength;
-  }
-
-  const line1 = trimmedDesc.substring(0, splitPos).trim();
-  const line2 = trimmedDesc.substring(splitPos).trim();
-
-  return [line1, line2];
-};
+/** Etiquetas con códigos repetidos a la espera de que se elija qué hacer. */
+interface PendingDuplicates {
+  mode: "add" | "consolidate";
+  incoming: LabelData[];
+  groups: DuplicateGroup[];
+}
 
 const App: React.FC = () => {
-  const [labels, setLabels] = useState<LabelData[]>([]);
+  const [batches, setBatches] = useState<LabelBatch[]>(loadBatches);
+  const [session] = useState(() => loadSession(batches));
+  // La lista y el lote al que pertenece van juntos en el historial: deshacer
+  // "Limpiar Todo" la devuelve unida a su lote.
+  const {
+    state: workList, set: setWorkList, rewrite: rewriteWorkList, reset: resetWorkList, undo, redo, canUndo, canRedo,
+  } = useUndoable<SessionState>(session);
+  const { labels, batchId } = workList;
+  const setLabels = useCallback((updater: Updater<LabelData[]>, options?: SetOptions) => {
+    setWorkList(current => {
+      const next = typeof updater === "function" ? updater(current.labels) : updater;
+      return next === current.labels ? current : { ...current, labels: next };
+    }, options);
+  }, [setWorkList]);
+  const [undoToast, setUndoToast] = useState<string | null>(null);
+  // Aviso de que el navegador no dejó guardar algo (almacenamiento lleno).
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+  const [view, setView] = useState<"cards" | "table">("cards");
+  const [lintIssues, setLintIssues] = useState<LintIssue[]>([]);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [scannerOpen, setScannerOpen] = useState(false);
+  const [batchesOpen, setBatchesOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [processing, setProcessing] = useState(false);
   const [addModalOpen, setAddModalOpen] = useState(false);
+  const [columns, setColumns] = useState<LabelColumns>(3);
+  const [printer, setPrinter] = useState<PrinterLanguage>("fingerprint");
+  const [layouts, setLayouts] = useState<LabelLayout[]>(loadLayouts);
+  const [layoutId, setLayoutId] = useState<string>(loadSelectedLayoutId);
+  const [layoutEditorOpen, setLayoutEditorOpen] = useState(false);
+  const [mappingSource, setMappingSource] = useState<MappingSource | null>(null);
+  const [mappingPurpose, setMappingPurpose] = useState<"labels" | "catalog">("labels");
+  const [importReport, setImportReport] = useState<ImportReportEntry[]>([]);
+  const [importMapping, setImportMapping] = useState<ColumnMapping | null>(null);
+  const [catalog, setCatalog] = useState<CatalogProduct[]>(loadCatalog);
+  const [catalogOpen, setCatalogOpen] = useState(false);
+  const [pendingDuplicates, setPendingDuplicates] = useState<PendingDuplicates | null>(null);
+  const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicatePolicy>(
+    () => loadSetting(DUPLICATE_POLICY_KEY, DEFAULT_DUPLICATE_POLICY)
+  );
+  const [outputOptions, setOutputOptions] = useState<OutputOptions>(
+    () => loadSetting(OUTPUT_OPTIONS_KEY, DEFAULT_OUTPUT_OPTIONS)
+  );
+  const [printBridge, setPrintBridge] = useState<PrintBridgeSettings>(
+    () => loadSetting(PRINT_BRIDGE_KEY, DEFAULT_PRINT_BRIDGE)
+  );
+  const bridge = usePrintBridge(printBridge.url);
+  const [chunkOptions, setChunkOptions] = useState<ChunkOptions>(
+    () => loadSetting(CHUNK_OPTIONS_KEY, DEFAULT_CHUNK_OPTIONS)
+  );
+  const [resumeFromId, setResumeFromId] = useState<string | null>(null);
+  const [printedChunks, setPrintedChunks] = useState<string[]>(loadPrintedChunks);
+  // Trabajos del puente que corresponden a una parte, para marcarla impresa al terminar.
+  const [chunkJobs, setChunkJobs] = useState<Record<string, string>>({});
+  const activeLayout = layouts.find(l => l.id === layoutId) ?? layouts[0];
+  // Si el producto desde el que se reanuda ya no está en la lista, se toma desde el principio.
+  const resumeIndex = labels.findIndex(l => l.id === resumeFromId);
+  const chunks = useMemo(
+    () => splitLabels(resumeIndex > 0 ? labels.slice(resumeIndex) : labels, chunkOptions, effectiveColumns(activeLayout, columns)),
+    [labels, resumeIndex, chunkOptions, activeLayout, columns]
+  );
+  const currentBatch = batches.find(b => b.id === batchId);
+
   const pasteAreaRef = useRef<HTMLTextAreaElement>(null);
 
+  // Si el almacenamiento del navegador está lleno se avisa y se sigue
+  // trabajando; los datos siguen en pantalla aunque no sobrevivan a una recarga.
+  const reportSave = (saved: boolean, what: string) => {
+    if (!saved) setStorageWarning(`No se pudo guardar ${what}: el almacenamiento del navegador está lleno.`);
+  };
+
+  // Autoguardado: la lista de trabajo sobrevive a una recarga, y si hay un
+  // lote abierto cada cambio se guarda también en él.
+  useEffect(() => {
+    reportSave(saveSession({ labels, batchId }), "la lista de trabajo");
+    if (batchId) {
+      setBatches(list => sortBatches(list.map(b =>
+        b.id === batchId && b.labels !== labels ? { ...b, labels, updatedAt: Date.now() } : b
+      )));
+    }
+  }, [labels, batchId]);
+
+  useEffect(() => {
+    reportSave(saveBatches(batches), "los lotes");
+  }, [batches]);
+
+  useEffect(() => {
+    reportSave(saveCatalog(catalog), "el catálogo");
+  }, [catalog]);
+
+  useEffect(() => {
+    reportSave(savePrintedChunks(printedChunks), "las partes impresas");
+  }, [printedChunks]);
+
+  // Una parte enviada por el puente queda marcada como impresa cuando la
+  // impresora recibió el trabajo completo.
+  useEffect(() => {
+    const done = bridge.jobs.filter(job => job.status === "done" && chunkJobs[job.id]);
+    if (done.length === 0) return;
+    const keys = done.map(job => chunkJobs[job.id]);
+    setPrintedChunks(current => [...current.filter(key => !keys.includes(key)), ...keys]);
+    setChunkJobs(map => {
+      const next = { ...map };
+      done.forEach(job => delete next[job.id]);
+      return next;
+    });
+  }, [bridge.jobs, chunkJobs]);
+
+  // Si el puente se reinicia vuelve a numerar los trabajos: sin conexión se
+  // olvidan los envíos en curso antes que marcar una parte por error.
+  useEffect(() => {
+    if (!bridge.connected) setChunkJobs({});
+  }, [bridge.connected]);
+
+  // Ctrl+Z / Ctrl+Y (o Ctrl+Mayús+Z) fuera de los campos de texto, que
+  // conservan su propio deshacer.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === "y" || (key === "z" && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  const handleUndo = () => {
+    undo();
+    setUndoToast(null);
+  };
+
   // UX: Limpiar mensajes al cambiar datos
   const handleInputChange = () => {
     setError(null);
     setSuccess(null);
   };
 
-  const handleProcessData = () => {
-    setError(null);
-    setSuccess(null);
-    if (!pasteAreaRef.current?.value) return;
+  /**
+   * Agrega etiquetas a la lista. Si alguno de sus códigos ya está (o viene
+   * repetido) se pregunta si combinarlas, dejarlas separadas o reemplazar.
+   */
+  const addLabels = (incoming: LabelData[]) => {
+    const groups = findDuplicates(labels, incoming);
+    if (groups.length === 0) {
+      setLabels(currentLabels => [...currentLabels, ...incoming]);
+      return;
+    }
+    setPendingDuplicates({ mode: "add", incoming, groups });
+  };
 
-    const text = pasteAreaRef.current.value.trim();
-    if (!text) return;
+  const handleConsolidate = () => {
+    const groups = findDuplicates([], labels);
+    if (groups.length === 0) {
+      setSuccess("No hay códigos repetidos en la lista.");
+      return;
+    }
+    setPendingDuplicates({ mode: "consolidate", incoming: labels, groups });
+  };
+
+  const handleApplyDuplicates = (policy: DuplicatePolicy) => {
+    if (!pendingDuplicates) return;
+    const { mode, incoming } = pendingDuplicates;
+    // Se recuerda la elección para la próxima vez, sin las descripciones por código.
+    const remembered = { action: policy.action, description: policy.description };
+    setDuplicatePolicy(remembered);
+    saveSetting(DUPLICATE_POLICY_KEY, remembered);
+    setPendingDuplicates(null);
+    if (mode === "consolidate") {
+      const consolidated = applyDuplicatePolicy([], incoming, policy);
+      setLabels(consolidated);
+      setUndoToast(`Lista consolidada: ${incoming.length - consolidated.length} etiquetas repetidas combinadas.`);
+      return;
+    }
+    setLabels(currentLabels => applyDuplicatePolicy(currentLabels, incoming, policy));
+    if (policy.action !== "separate") {
+      setUndoToast(policy.action === "merge" ? "Etiquetas repetidas combinadas." : "Etiquetas repetidas reemplazadas.");
+    }
+  };
+
+  /**
+   * Añade las filas ya asignadas a columnas a la lista de etiquetas. Las filas
+   * rechazadas o ajustadas quedan en el informe de importación con su línea
+   * de origen, y las descripciones pegadas actualizan el catálogo.
+   */
+  const importRows = (rows: string[][], mapping: ColumnMapping, lines?: number[]) => {
+    const { labels: newLabels, report } = rowsToLabels(rows, mapping, activeLayout, catalogIndex(catalog), "label", lines);
+    setImportReport(report);
+    setImportMapping(mapping);
+    if (mapping.columns.description !== null) {
+      setCatalog(current => upsertProducts(current, newLabels));
+    }
+    const rejected = report.filter(entry => entry.severity === "error").length;
 
-    const rows = text.split("\n").filter((row) => row.trim() !== "");
-    if (rows.length < 2) {
+    if (newLabels.length > 0) {
+      addLabels(newLabels);
+      if (pasteAreaRef.current) {
+        pasteAreaRef.current.value = "";
+      }
+      setSuccess(
+        rejected > 0
+          ? `Se añadieron ${newLabels.length} productos; ${rejected} filas fueron rechazadas (ver informe).`
+          : "Datos procesados correctamente."
+      );
+    } else {
       setError(
-        "Error: Se necesitan al menos una fila de encabezado y una fila de datos."
+        "No se encontraron datos válidos para procesar. Verifique que las filas de datos tengan valores."
       );
-      return;
     }
+  };
 
-    const headerRow = rows[0];
-    const headers = headerRow.split("\t").map((h) => h.trim());
+  // Reimporta una fila rechazada después de corregirla en el informe.
+  const handleRetryRow = (entry: ImportReportEntry, values: RowValues) => {
+    if (!importMapping) return;
+    const { label, errors, warnings } = validateRow(values, importMapping, activeLayout, catalogIndex(catalog));
+    if (!label) {
+      setImportReport(report =>
+        report.map(e => e.id === entry.id ? { ...e, values, reasons: [...errors, ...warnings] } : e)
+      );
+      return;
+    }
+    const id = `label-${Date.now()}-fix-${entry.line}`;
+    addLabels([{ id, ...label }]);
+    if (values.description.trim()) {
+      setCatalog(current => upsertProducts(current, [label]));
+    }
+    setImportReport(report =>
+      warnings.length > 0
+        ? report.map(e => e.id === entry.id ? { ...e, severity: "warning", values, reasons: warnings, labelId: id } : e)
+        : report.filter(e => e.id !== entry.id)
+    );
+    setSuccess(`Fila ${entry.line} añadida a la lista.`);
+  };
 
-    // Define the exact headers we are looking for
-    const CODE_HEADER = "Número de artículo";
-    const DESC_HEADER = "Descripción del artículo";
-    const QTY_HEADER = "Cantidad de Etiquetas";
+  /**
+   * Procesa la tabla pegada. Si ya se asignaron columnas para esos mismos
+   * encabezados se reutiliza esa asignación; si no, se abre el asistente.
+   */
+  const handleProcessData = () => {
+    setError(null);
+    setSuccess(null);
+    if (!pasteAreaRef.current?.value) return;
 
-    const codeIndex = headers.indexOf(CODE_HEADER);
-    const descIndex = headers.indexOf(DESC_HEADER);
-    const qtyIndex = headers.indexOf(QTY_HEADER);
+    // Sin recortar el texto, para que las líneas del informe sean las del área de pegado.
+    const text = pasteAreaRef.current.value;
+    if (!text.trim()) return;
 
-    // Validate that all required headers were found
-    if (codeIndex === -1) {
-      setError(`Error: No se encontró la columna requerida "${CODE_HEADER}".`);
+    const { rows, lines } = parseDelimitedLines(text);
+    const savedMapping = findSavedMapping(rows);
+    if (savedMapping) {
+      importRows(rows, savedMapping, lines);
       return;
     }
-    if (descIndex === -1) {
-      setError(`Error: No se encontró la columna requerida "${DESC_HEADER}".`);
+    setMappingPurpose("labels");
+    setMappingSource({ kind: "text", text });
+  };
+
+  const handleConfirmMapping = (rows: string[][], mapping: ColumnMapping, lines: number[]) => {
+    setMappingSource(null);
+    if (mappingPurpose === "catalog") {
+      importCatalogRows(rows, mapping);
       return;
     }
-    if (qtyIndex === -1) {
-      setError(`Error: No se encontró la columna requerida "${QTY_HEADER}".`);
+    saveMapping(rows, mapping);
+    importRows(rows, mapping, lines);
+  };
+
+  const importCatalogRows = (rows: string[][], mapping: ColumnMapping) => {
+    const entries = rowsToCatalog(rows, mapping);
+    if (entries.length === 0) {
+      setError("No se encontraron productos con código y descripción en la planilla.");
       return;
     }
+    setCatalog(current => upsertProducts(current, entries));
+    setSuccess(`Catálogo actualizado con ${entries.length} productos.`);
+  };
 
-    const newLabels: LabelData[] = [];
-    const dataRows = rows.slice(1); // All rows except the header
-
-    dataRows.forEach((rowStr, index) => {
-      const columns = rowStr.split("\t").map((c) => c.trim());
-      if (columns.length > Math.max(codeIndex, descIndex, qtyIndex)) {
-        const code = columns[codeIndex];
-        const description = sanitizeString(columns[descIndex]);
-        const quantityStr = columns[qtyIndex];
-        let quantity = 0;
-        if (code && description) {
-          if (quantityStr && !isNaN(parseInt(quantityStr, 10))) {
-            quantity = parseInt(quantityStr, 10);
-          }
-          newLabels.push({
-            id: `label-${Date.now()}-${index}`,
-            code,
-            description,
-            quantity,
-          });
-        }
+  // La planilla del catálogo siempre pasa por la asignación de columnas.
+  const handleImportCatalogFile = async (file: File) => {
+    setError(null);
+    setSuccess(null);
+    try {
+      const sheets = await readSpreadsheetFile(file);
+      if (!sheets.some(sheet => sheet.rows.length > 0)) {
+        setError(`El archivo "${file.name}" no contiene datos.`);
+        return;
       }
-    });
+      setMappingPurpose("catalog");
+      setMappingSource({ kind: "sheets", fileName: file.name, sheets });
+    } catch {
+      setError(`No se pudo leer el archivo "${file.name}".`);
+    }
+  };
 
-    if (newLabels.length > 0) {
-      setLabels((currentLabels) => [...currentLabels, ...newLabels]);
-      if (pasteAreaRef.current) {
-        pasteAreaRef.current.value = "";
+  /**
+   * Importa un archivo Fingerprint/SAP ya generado y añade sus etiquetas a la
+   * lista para poder editarlas y volver a generarlas. Si no es UTF-8 se lee
+   * con la página de códigos de salida elegida, la misma con que se generó.
+   */
+  const handleImportPrinterFile = async (file: File) => {
+    setError(null);
+    setSuccess(null);
+    setProcessing(true);
+    try {
+      const { labels: imported, skipped } = parseFingerprintFile(await readTextFile(file, outputOptions.encoding));
+      if (imported.length === 0) {
+        setError(`No se encontraron etiquetas en "${file.name}". Verifique que sea un archivo Fingerprint o de SAP.`);
+        return;
       }
-      setSuccess("Datos procesados correctamente.");
-    } else {
-      setError(
-        "No se encontraron datos válidos para procesar. Verifique que las filas de datos tengan valores."
+      addLabels(imported);
+      setSuccess(
+        `Se importaron ${imported.length} productos desde "${file.name}".` +
+          (skipped > 0 ? ` Se omitieron ${skipped} bloques sin código.` : "")
       );
+    } catch {
+      setError(`No se pudo leer el archivo "${file.name}".`);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  /**
+   * Importa una planilla XLSX/CSV/TSV. Con una sola hoja cuyos encabezados ya
+   * tienen asignación se añade directamente; si no, pasa por el asistente.
+   */
+  const handleImportSpreadsheet = async (file: File) => {
+    setError(null);
+    setSuccess(null);
+    setProcessing(true);
+    try {
+      const sheets = await readSpreadsheetFile(file);
+      if (!sheets.some(sheet => sheet.rows.length > 0)) {
+        setError(`El archivo "${file.name}" no contiene datos.`);
+        return;
+      }
+      const savedMapping = sheets.length === 1 ? findSavedMapping(sheets[0].rows) : null;
+      if (savedMapping) {
+        importRows(sheets[0].rows, savedMapping, sheets[0].lines);
+        return;
+      }
+      setMappingPurpose("labels");
+      setMappingSource({ kind: "sheets", fileName: file.name, sheets });
+    } catch {
+      setError(`No se pudo leer el archivo "${file.name}".`);
+    } finally {
+      setProcessing(false);
     }
   };
 
+  // Las planillas pasan por la asignación de columnas; el resto se lee como archivo de impresora.
+  const handleImportFile = (file: File) => {
+    if (isSpreadsheetFile(file)) {
+      handleImportSpreadsheet(file);
+    } else {
+      handleImportPrinterFile(file);
+    }
+  };
 
   const handleRemoveLabel = (id: string) => {
     setLabels((currentLabels) => currentLabels.filter((l) => l.id !== id));
     setSuccess(null);
+    setUndoToast("Etiqueta eliminada.");
+  };
+
+  /**
+   * Lectura del escáner: suma 1 a la etiqueta con ese código o la agrega con
+   * la descripción de la lista o del catálogo. Los códigos sin descripción
+   * conocida no se agregan.
+   */
+  const handleScan = (code: string): ScanResult => {
+    const key = duplicateKey(code);
+    const existing = labels.find(label => duplicateKey(label.code) === key);
+    if (existing) {
+      setLabels(currentLabels => currentLabels.map(l => l.id === existing.id ? { ...l, quantity: l.quantity + 1 } : l));
+      return { kind: "incremented", code: existing.code, description: existing.description, quantity: existing.quantity + 1 };
+    }
+    const product = catalogIndex(catalog).get(catalogKey(code));
+    if (!product) return { kind: "unknown", code };
+    setLabels(currentLabels => [
+      ...currentLabels,
+      { id: `label-scan-${Date.now()}`, code: product.code, description: product.description, quantity: 1 },
+    ]);
+    return { kind: "added", code: product.code, description: product.description, quantity: 1 };
+  };
+
+  const handleResolveUnknown = (code: string, description: string, quantity: number) => {
+    setCatalog(current => upsertProducts(current, [{ code, description }]));
+    addLabels([{ id: `label-scan-${Date.now()}`, code, description, quantity }]);
+  };
+
+  const handleBulkUpdate = (ids: string[], update: (label: LabelData) => Partial<Omit<LabelData, "id">>) => {
+    const selected = new Set(ids);
+    setLabels(currentLabels => currentLabels.map(l => selected.has(l.id) ? { ...l, ...update(l) } : l));
+    setSuccess(null);
   };
 
-  const handleQuantityChange = (id: string, qty: number) => {
-    setLabels((currentLabels) =>
-      currentLabels.map(l => l.id === id ? { ...l, quantity: qty } : l)
+  const handleRemoveLabels = (ids: string[]) => {
+    const selected = new Set(ids);
+    setLabels(currentLabels => currentLabels.filter(l => !selected.has(l.id)));
+    setSuccess(null);
+    setUndoToast(`Se eliminaron ${ids.length} etiquetas.`);
+  };
+
+  const handleUpdateLabel = (id: string, changes: Partial<Omit<LabelData, "id">>) => {
+    // Teclear en un campo cuenta como un solo paso para deshacer.
+    setLabels(
+      (currentLabels) => currentLabels.map(l => l.id === id ? { ...l, ...changes } : l),
+      { coalesce: `${id}:${Object.keys(changes).join(",")}` }
     );
     setSuccess(null);
   };
 
 
-  // Helper para generar el bloque de impresión de etiquetas Honeywell PM42
-  function buildLabelBlock(code: string, line1: string, line2: string, qty: number): string {
-    const STX = "<STX>";
-    const ETX = "<ETX>";
-    const ESC = "<ESC>";
-    const LF  = "<LF>";
-    const US  = "<US>";
-    const ETB = "<ETB>";
-    const CAN = "<CAN>";
-    // Solo BR0, US = qty
+  /**
+   * Valida el programa para la impresora seleccionada. Devuelve null si el
+   * validador encontró errores y la política es bloquear; si no, el generador
+   * y sus opciones para generar el archivo o cada una de sus partes.
+   * El formato Fingerprint mantiene la salida compatible con generate_labels.py.
+   */
+  const validateOutput = (items: LabelData[], blockedAction: string) => {
+    const generator = getGenerator(printer);
+    const options = { layout: activeLayout, columns, encoding: outputOptions.encoding };
+    const issues = lintLabels(generator, items, options, outputOptions);
+    const lintErrors = issues.filter(issue => issue.severity === "error").length;
+    setLintIssues(issues);
+    if (lintErrors > 0 && outputOptions.lintPolicy === "block") {
+      setError(`El archivo tiene ${lintErrors} errores y no se ${blockedAction}. Revise el informe de validación.`);
+      return null;
+    }
+    return { generator, options, issues, lintErrors };
+  };
+
+  /**
+   * Registra la numeración impresa y arma las observaciones del mensaje de
+   * éxito. Se llama sólo cuando el archivo ya salió (descarga o envío).
+   * Con `advance` las etiquetas numeradas pasan a empezar en el número
+   * siguiente; las partes del trabajo no lo usan porque cada parte se
+   * identifica por su numeración y dejaría de figurar como impresa.
+   */
+  const finishOutput = (items: LabelData[], issues: LintIssue[], lintErrors: number, advance: boolean = false) => {
+    // Se guarda el último número impreso de cada prefijo para continuar la
+    // numeración en la próxima salida.
+    const counters = loadSerialCounters();
+    const printed = items.filter(label => label.quantity > 0 && label.code);
+    const serialized = printed.filter(label => label.serial).length;
+    const reused = printed.filter(label => reusesSerials(counters, label)).length;
+    if (serialized > 0) reportSave(saveSerialCounters(recordSerials(counters, printed)), "la numeración impresa");
+    if (serialized > 0 && advance) setLabels(current => advanceSerials(current, printed));
+
+    const skippedZero = items.filter(label => label.quantity <= 0).length;
+    const substituted = items.filter(
+      label => label.quantity > 0 && prepareValues(labelValues(label, activeLayout), outputOptions).substitutions.length > 0
+    ).length;
+    const today = todayIso();
+    const expired = items.filter(label => label.quantity > 0 && label.expiry && label.expiry < today).length;
+
     return (
-      `${STX}${ESC}E1${CAN}${ETX}\r\n` +
-      `${STX}${ESC}F"BR0"${LF}${code}${ETX}\r\n` +
-      `${STX}${ESC}F"TX3"${LF}${line1}${ETX}\r\n` +
-      `${STX}${ESC}F"TX4"${LF}${line2}${ETX}\r\n` +
-      `${STX}${US}${qty}${ETX}\r\n` +
-      `${STX}${ETB}${ETX}\r\n`
+      (skippedZero > 0 ? ` ${skippedZero} productos con cantidad 0 no se incluyeron.` : "") +
+      (substituted > 0 ? ` ${substituted} productos tienen caracteres sustituidos por la página de códigos.` : "") +
+      (expired > 0 ? ` Atención: ${expired} productos tienen fecha de vencimiento pasada.` : "") +
+      (serialized > 0
+        ? ` ${serialized} productos numerados${advance ? "; la próxima salida sigue desde el número siguiente" : ""}.`
+        : "") +
+      (reused > 0 ? ` Atención: ${reused} repiten números ya impresos.` : "") +
+      (issues.length > 0 ? ` El validador encontró ${lintErrors} errores y ${issues.length - lintErrors} avisos.` : "")
     );
-  }
+  };
 
   /**
-   * Genera y descarga el archivo TXT compatible con Honeywell PM42 Fingerprint.
-   * - Solo usa BR0 para el código de barras.
-   * - US = cantidad exacta de etiquetas.
-   * - Un solo bloque por artículo.
+   * Genera y descarga el programa para la impresora seleccionada. Para una
+   * parte del trabajo, `part` da su número en el nombre del archivo.
    */
-  const handleDownloadTxt = () => {
+  const downloadLabels = (items: LabelData[], scope: string = "", part?: { index: number; total: number }) => {
     setProcessing(true);
     setError(null);
     setSuccess(null);
 
-    const STX = "<STX>";
-    const ETX = "<ETX>";
-    const ESC = "<ESC>";
-    const LF  = "<LF>";
-    const SI  = "<SI>";
-
-    // Cabecera fija (idéntica a SAP, pero solo BR0)
-    const header = [
-      `${STX}${SI}g1,420${ETX}`,
-      `${STX}${SI}d5${ETX}`,
-      `${STX}${SI}s50${ETX}`,
-      `${STX}${ESC}P;${ETX}`,
-      `${STX}E1,1;A1,ETIQ2J;${ETX}`,
-      `${STX}L39;D0;${ETX}`,
-      `${STX}B0,BR0;o60,210;f1;c6,0;h50;w1;r0;i1;d0,12${ETX}`,
-      `${STX}H3,TX3;o10,260;f1;c25;h8;w7;d0,25;${ETX}`,
-      `${STX}H4,TX4;o30,260;f1;c25;h8;w7;d0,25;${ETX}`,
-      `${STX}I0;o110,220;f1;c25;h12;w12;${ETX}`,
-      `${STX}R${ETX}`,
-      ""
-    ];
-
-    const blocks: string[] = [];
-    labels.filter(label => label.quantity > 0).forEach((label) => {
-      const [line1, line2] = splitDescription(label.description);
-      blocks.push(buildLabelBlock(label.code, line1, line2, label.quantity));
-    });
+    const output = validateOutput(items, "descargó");
+    if (output) {
+      const { generator, options, issues, lintErrors } = output;
+      const fileName = part ? chunkFileName(generator.fileName, part.index, part.total) : generator.fileName;
+      downloadFile(renderOutput(generator.generate(items, options), outputOptions), fileName);
+      setSuccess(
+        `Archivo ${generator.extension.toUpperCase()}${scope} generado y descargado correctamente.` +
+          finishOutput(items, issues, lintErrors, !part)
+      );
+    }
+    setProcessing(false);
+  };
 
-    // Une cabecera y bloques, separados por CRLF
-    const fileContent = [...header, ...blocks].join("\r\n");
+  // Impresora elegida en el puente; si no hay, explica por qué en el mensaje de error.
+  const printTarget = () => {
+    const target = bridge.printers.find(p => p.id === printBridge.printerId);
+    if (!target) {
+      setError(bridge.connected
+        ? "Elija la impresora de destino en \"Impresión directa\"."
+        : "El puente de impresión no está conectado. Inícielo con \"npm run bridge\".");
+    }
+    return target ?? null;
+  };
 
-    // Descargar como texto plano
-    const blob = new Blob([fileContent], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = "etiquetas_generadas_fingerprint.txt";
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  // La impresora necesita los caracteres de control como bytes, no como los
+  // tokens de texto que se pueden elegir para el archivo.
+  const printerBytes = (program: string) => renderOutput(program, { ...outputOptions, controlChars: "bytes" });
 
+  /**
+   * Genera el programa y lo envía a la impresora elegida por el puente de
+   * impresión. Devuelve el trabajo creado, o null si no se envió. Con
+   * `jobName` se envía una parte del trabajo.
+   */
+  const printLabels = async (items: LabelData[], jobName?: string): Promise<PrintJob | null> => {
+    const target = printTarget();
+    if (!target) return null;
+    setProcessing(true);
+    setError(null);
+    setSuccess(null);
+
+    let job: PrintJob | null = null;
+    const output = validateOutput(items, "envió a la impresora");
+    if (output) {
+      const { generator, options, issues, lintErrors } = output;
+      try {
+        job = await submitPrintJob(
+          printBridge.url, target.id, jobName ?? currentBatch?.name ?? generator.fileName, printerBytes(generator.generate(items, options))
+        );
+        setSuccess(`Trabajo #${job.id} enviado a ${target.name}.` + finishOutput(items, issues, lintErrors, jobName === undefined));
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "No se pudo enviar el trabajo a la impresora.");
+      }
+    }
+    setProcessing(false);
+    return job;
+  };
+
+  const pendingChunks = () =>
+    chunks.map((chunk, index) => ({ chunk, index })).filter(({ chunk }) => !printedChunks.includes(chunk.key));
+
+  const chunkJobName = (index: number) => `${currentBatch?.name ?? "etiquetas"} (parte ${index + 1} de ${chunks.length})`;
+
+  const handleDownloadChunk = (index: number) =>
+    downloadLabels(chunks[index].labels, ` (parte ${index + 1} de ${chunks.length})`, { index, total: chunks.length });
+
+  const handlePrintChunk = async (index: number) => {
+    const chunk = chunks[index];
+    const job = await printLabels(chunk.labels, chunkJobName(index));
+    if (job) setChunkJobs(map => ({ ...map, [job.id]: chunk.key }));
+  };
+
+  // Un ZIP con un archivo por cada parte que no está marcada como impresa.
+  const handleDownloadPendingChunks = () => {
+    const pending = pendingChunks();
+    const items = pending.flatMap(({ chunk }) => chunk.labels);
+    setProcessing(true);
+    setError(null);
+    setSuccess(null);
+
+    const output = validateOutput(items, "descargó");
+    if (output) {
+      const { generator, options, issues, lintErrors } = output;
+      const files = pending.map(({ chunk, index }) => ({
+        name: chunkFileName(generator.fileName, index, chunks.length),
+        data: renderOutput(generator.generate(chunk.labels, options), outputOptions),
+      }));
+      downloadFile(createZip(files), chunksZipName(generator.fileName));
+      setSuccess(`ZIP con ${files.length} partes generado y descargado correctamente.` + finishOutput(items, issues, lintErrors));
+    }
+    setProcessing(false);
+  };
+
+  /**
+   * Envía las partes pendientes como trabajos separados, en orden: el puente
+   * imprime los trabajos de cada impresora de a uno y en orden de llegada.
+   */
+  const handlePrintPendingChunks = async () => {
+    const target = printTarget();
+    if (!target) return;
+    const pending = pendingChunks();
+    const items = pending.flatMap(({ chunk }) => chunk.labels);
+    setProcessing(true);
+    setError(null);
+    setSuccess(null);
+
+    const output = validateOutput(items, "envió a la impresora");
+    if (output) {
+      const { generator, options, issues, lintErrors } = output;
+      const sent: LabelData[] = [];
+      let sentChunks = 0;
+      try {
+        for (const { chunk, index } of pending) {
+          const job = await submitPrintJob(
+            printBridge.url, target.id, chunkJobName(index), printerBytes(generator.generate(chunk.labels, options))
+          );
+          setChunkJobs(map => ({ ...map, [job.id]: chunk.key }));
+          sent.push(...chunk.labels);
+          sentChunks++;
+        }
+        setSuccess(
+          `${pending.length} partes enviadas en orden a ${target.name}. Si una falla, las siguientes esperan hasta reintentarla o cancelarla.` +
+            finishOutput(items, issues, lintErrors)
+        );
+      } catch (e) {
+        // Lo que ya salió cuenta para la numeración aunque el resto no se haya enviado.
+        if (sent.length > 0) finishOutput(sent, issues, lintErrors);
+        const reason = e instanceof Error ? e.message : "No se pudo enviar el trabajo a la impresora.";
+        setError(`${reason} Se enviaron ${sentChunks} de ${pending.length} partes.`);
+      }
+    }
     setProcessing(false);
-    setSuccess("Archivo TXT generado y descargado correctamente.");
   };
 
+  const handleTogglePrintedChunk = (key: string, printed: boolean) =>
+    setPrintedChunks(keys => (printed ? [...keys.filter(k => k !== key), key] : keys.filter(k => k !== key)));
+
+  const handleChunkOptionsChange = (options: ChunkOptions) => {
+    setChunkOptions(options);
+    saveSetting(CHUNK_OPTIONS_KEY, options);
+  };
+
+  const handlePrintBridgeChange = (settings: PrintBridgeSettings) => {
+    setPrintBridge(settings);
+    saveSetting(PRINT_BRIDGE_KEY, settings);
+  };
+
+  const handlePrintJobAction = async (action: typeof retryPrintJob, id: string) => {
+    try {
+      await action(printBridge.url, id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "El puente de impresión no respondió.");
+    }
+  };
+
+  // Lleva a la tarjeta de una etiqueta señalada por el informe de validación.
+  const handleShowLabel = (id: string) => {
+    setView("cards");
+    setHighlightedId(id);
+    setTimeout(() => document.getElementById(`label-card-${id}`)?.scrollIntoView({ behavior: "smooth", block: "center" }), 0);
+  };
+
+  const handleDownloadTxt = () => downloadLabels(labels);
+  const handlePrint = () => printLabels(labels);
+
+  // Exporta sólo las filas elegidas en la vista de tabla, en el orden de la lista.
+  const handleExportSelection = (ids: string[]) => {
+    const selected = new Set(ids);
+    downloadLabels(labels.filter(label => selected.has(label.id)), ` de la selección (${ids.length} productos)`);
+  };
+
+  const handleOutputOptionsChange = (options: OutputOptions) => {
+    setOutputOptions(options);
+    saveSetting(OUTPUT_OPTIONS_KEY, options);
+  };
+
+  const handleLayoutChange = (id: string) => {
+    setLayoutId(id);
+    saveSelectedLayoutId(id);
+  };
+
+  const handleSaveLayouts = (updated: LabelLayout[], selectedId: string) => {
+    setLayouts(updated);
+    reportSave(saveLayouts(updated), "las plantillas");
+    handleLayoutChange(selectedId);
+  };
+
+  const handleSaveBatchAs = (name: string) => {
+    const batch = createBatch(name, labels);
+    setBatches(list => [batch, ...list]);
+    // Deshacer después de guardar sigue guardando en el lote nuevo.
+    rewriteWorkList(w => w.batchId === batchId ? { ...w, batchId: batch.id } : w);
+    setBatchesOpen(false);
+    setSuccess(`Lote "${name}" guardado.`);
+  };
+
+  const handleOpenBatch = (batch: LabelBatch) => {
+    if (!batchId && labels.length > 0 &&
+      !window.confirm("La lista actual no está guardada en ningún lote y se reemplazará. ¿Continuar?")) {
+      return;
+    }
+    // Al cambiar de lote se empieza un historial nuevo: deshacer no debe
+    // escribir la lista anterior dentro del lote abierto.
+    resetWorkList({ labels: batch.labels, batchId: batch.id });
+    setImportReport([]);
+    setBatchesOpen(false);
+    setSuccess(`Lote "${batch.name}" abierto.`);
+  };
+
+  const handleDuplicateBatch = (batch: LabelBatch) => {
+    setBatches(list => sortBatches([...list, createBatch(`${batch.name} (copia)`, batch.labels)]));
+  };
+
+  const handleDeleteBatch = (batch: LabelBatch) => {
+    if (!window.confirm(`¿Eliminar el lote "${batch.name}"?`)) return;
+    setBatches(list => list.filter(b => b.id !== batch.id));
+    // La lista en pantalla se conserva, pero ya no pertenece a ningún lote.
+    rewriteWorkList(w => w.batchId === batch.id ? { ...w, batchId: null } : w);
+  };
+
+  // Limpiar no vacía el lote abierto: la lista nueva empieza sin lote, y
+  // deshacer la devuelve unida al lote.
   const clearAll = () => {
-    setLabels([]);
+    if (labels.length === 0) return;
+    setWorkList({ labels: [], batchId: null });
+    setImportReport([]);
     setError(null);
     setSuccess(null);
+    setUndoToast(`Se quitaron ${labels.length} productos de la lista.`);
   };
 
   const totalLabelsToPrint = labels.reduce(
     (sum, label) => sum + label.quantity,
     0
   );
+  const outputExtension = getGenerator(printer).extension.toUpperCase();
 
   return (
     <>
@@ -255,13 +789,70 @@ const App: React.FC = () => {
           </p>
         </header>
 
+        <div className="mb-3 flex justify-between items-center" style={{ gap: 12 }}>
+          <span className="text-sm" style={{ color: '#49864bff', fontWeight: 600 }}>
+            {currentBatch ? `Lote: ${currentBatch.name}` : "Lista sin lote (se autoguarda en este navegador)"}
+          </span>
+          <div style={{ display: 'flex', gap: 12 }}>
+            <button
+              onClick={handleUndo}
+              disabled={!canUndo}
+              className="inline-flex items-center gap-2 font-semibold shadow-sm"
+              style={{ background: '#fff', color: '#388E3C', borderRadius: 8, padding: '7px 14px', fontSize: 14, border: '1.5px solid #4CAF50', cursor: canUndo ? 'pointer' : 'not-allowed', opacity: canUndo ? 1 : 0.5 }}
+              aria-label="Deshacer (Ctrl+Z)"
+              title="Deshacer (Ctrl+Z)"
+            >
+              Deshacer
+            </button>
+            <button
+              onClick={redo}
+              disabled={!canRedo}
+              className="inline-flex items-center gap-2 font-semibold shadow-sm"
+              style={{ background: '#fff', color: '#388E3C', borderRadius: 8, padding: '7px 14px', fontSize: 14, border: '1.5px solid #4CAF50', cursor: canRedo ? 'pointer' : 'not-allowed', opacity: canRedo ? 1 : 0.5 }}
+              aria-label="Rehacer (Ctrl+Y)"
+              title="Rehacer (Ctrl+Y)"
+            >
+              Rehacer
+            </button>
+            <button
+              onClick={() => setScannerOpen(open => !open)}
+              className="inline-flex items-center gap-2 font-semibold shadow-sm"
+              style={{ background: scannerOpen ? '#388E3C' : '#fff', color: scannerOpen ? '#fff' : '#388E3C', borderRadius: 8, padding: '7px 14px', fontSize: 14, border: '1.5px solid #4CAF50', cursor: 'pointer' }}
+              aria-pressed={scannerOpen}
+              aria-label="Modo escáner"
+            >
+              Modo Escáner
+            </button>
+            <button
+              onClick={() => setBatchesOpen(true)}
+              className="inline-flex items-center gap-2 font-semibold shadow-sm"
+              style={{ background: '#fff', color: '#388E3C', borderRadius: 8, padding: '7px 14px', fontSize: 14, border: '1.5px solid #4CAF50', cursor: 'pointer' }}
+              aria-label="Abrir lotes guardados"
+            >
+              Lotes guardados ({batches.length})
+            </button>
+            <button
+              onClick={() => setCatalogOpen(true)}
+              className="inline-flex items-center gap-2 font-semibold shadow-sm"
+              style={{ background: '#fff', color: '#388E3C', borderRadius: 8, padding: '7px 14px', fontSize: 14, border: '1.5px solid #4CAF50', cursor: 'pointer' }}
+              aria-label="Abrir catálogo de productos"
+            >
+              Catálogo ({catalog.length})
+            </button>
+          </div>
+        </div>
+
+        {scannerOpen && (
+          <ScannerPanel onScan={handleScan} onResolveUnknown={handleResolveUnknown} onClose={() => setScannerOpen(false)} />
+        )}
+
         <div style={{ background: '#fff', border: '2px solid #4CAF50', borderRadius: 16, boxShadow: '0 2px 12px 0 #388E3C22', padding: 32, marginBottom: 32 }}>
           <label
             htmlFor="data-input"
             className="block text-sm font-semibold mb-2"
             style={{ color: '#388E3C', fontSize: 16 }}
           >
-            Pega la tabla completa aquí (con encabezados):
+            Pega la tabla completa aquí (con o sin encabezados, separada por tabulador, punto y coma o coma):
           </label>
           <textarea
             id="data-input"
@@ -316,6 +907,12 @@ const App: React.FC = () => {
               {processing ? "Procesando..." : "Procesar y Añadir a la Lista"}
             </button>
           </div>
+          <FileDropZone
+            accept={[...SPREADSHEET_EXTENSIONS, ".txt", ".prn"]}
+            disabled={processing}
+            onFile={handleImportFile}
+          />
+          <ImportReport entries={importReport} onRetry={handleRetryRow} onDismiss={() => setImportReport([])} />
         </div>
 
         {labels.length > 0 && (
@@ -327,7 +924,45 @@ const App: React.FC = () => {
                   Se encontraron {labels.length} productos para un total de {totalLabelsToPrint} etiquetas.
                 </p>
               </div>
-              <div style={{ display: 'flex', gap: 12 }}>
+              <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+                <select
+                  value={printer}
+                  onChange={e => setPrinter(e.target.value as PrinterLanguage)}
+                  style={{ borderRadius: 8, border: '1.5px solid #4CAF50', padding: '9px 12px', fontSize: 15, background: '#fff', color: '#222', fontWeight: 600 }}
+                  aria-label="Impresora de destino"
+                >
+                  {GENERATORS.map(generator => (
+                    <option key={generator.id} value={generator.id}>{generator.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={activeLayout.id}
+                  onChange={e => handleLayoutChange(e.target.value)}
+                  style={{ borderRadius: 8, border: '1.5px solid #4CAF50', padding: '9px 12px', fontSize: 15, background: '#fff', color: '#222', fontWeight: 600 }}
+                  aria-label="Plantilla de etiqueta"
+                >
+                  {layouts.map(layout => (
+                    <option key={layout.id} value={layout.id}>{layout.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setLayoutEditorOpen(true)}
+                  className="inline-flex items-center gap-2 font-semibold shadow-sm"
+                  style={{ background: '#fff', color: '#388E3C', borderRadius: 8, padding: '9px 14px', fontSize: 15, border: '1.5px solid #4CAF50', cursor: 'pointer' }}
+                  aria-label="Editar plantillas de etiqueta"
+                >
+                  Editar Plantillas
+                </button>
+                <select
+                  value={layoutColumns(activeLayout) === 1 ? 1 : columns}
+                  disabled={layoutColumns(activeLayout) === 1}
+                  onChange={e => setColumns(Number(e.target.value) as LabelColumns)}
+                  style={{ borderRadius: 8, border: '1.5px solid #4CAF50', padding: '9px 12px', fontSize: 15, background: '#fff', color: '#222', fontWeight: 600 }}
+                  aria-label="Etiquetas por fila"
+                >
+                  <option value={3}>3 por fila</option>
+                  <option value={1}>1 por fila</option>
+                </select>
                 <button
                   onClick={handleDownloadTxt}
                   className="inline-flex items-center gap-2 font-semibold shadow-sm"
@@ -344,11 +979,37 @@ const App: React.FC = () => {
                     cursor: labels.length === 0 || processing ? 'not-allowed' : 'pointer',
                     opacity: labels.length === 0 || processing ? 0.7 : 1,
                   }}
-                  aria-label="Generar y descargar archivo TXT para impresora"
+                  aria-label={`Generar y descargar archivo ${outputExtension} para impresora`}
                   disabled={labels.length === 0 || processing}
                 >
                   <DownloadIcon className="h-5 w-5" />
-                  {processing ? "Generando..." : `Generar y Descargar TXT (${totalLabelsToPrint})`}
+                  {processing ? "Generando..." : `Generar y Descargar ${outputExtension} (${totalLabelsToPrint})`}
+                </button>
+                <button
+                  onClick={handlePrint}
+                  className="inline-flex items-center gap-2 font-semibold shadow-sm"
+                  style={{
+                    background: '#fff',
+                    color: '#388E3C',
+                    borderRadius: 8,
+                    padding: '9px 14px',
+                    fontSize: 15,
+                    border: '1.5px solid #4CAF50',
+                    cursor: labels.length === 0 || processing ? 'not-allowed' : 'pointer',
+                    opacity: labels.length === 0 || processing ? 0.7 : 1,
+                  }}
+                  aria-label="Enviar las etiquetas a la impresora por el puente de impresión"
+                  disabled={labels.length === 0 || processing}
+                >
+                  Imprimir
+                </button>
+                <button
+                  onClick={handleConsolidate}
+                  className="inline-flex items-center gap-2 font-semibold shadow-sm"
+                  style={{ background: '#fff', color: '#388E3C', borderRadius: 8, padding: '9px 14px', fontSize: 15, border: '1.5px solid #4CAF50', cursor: 'pointer' }}
+                  aria-label="Combinar códigos repetidos de la lista"
+                >
+                  Consolidar Lista
                 </button>
                 <button
                   onClick={clearAll}
@@ -372,17 +1033,88 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            {/* Vista previa tipo etiqueta impresa, editable */}
-            <div style={{ display: "flex", flexWrap: "wrap", justifyContent: "center" }}>
-              {labels.map(label => (
-                <LabelCardEditable
-                  key={label.id}
-                  label={label}
-                  onDelete={() => handleRemoveLabel(label.id)}
-                  onQuantityChange={handleQuantityChange}
-                />
+            <OutputOptionsBar options={outputOptions} onChange={handleOutputOptionsChange} />
+            <PrintQueuePanel
+              settings={printBridge}
+              onSettingsChange={handlePrintBridgeChange}
+              connected={bridge.connected}
+              printers={bridge.printers}
+              jobs={bridge.jobs}
+              onRetry={id => handlePrintJobAction(retryPrintJob, id)}
+              onCancel={id => handlePrintJobAction(cancelPrintJob, id)}
+            />
+            <ChunkPanel
+              options={chunkOptions}
+              onOptionsChange={handleChunkOptionsChange}
+              labels={labels}
+              resumeFromId={resumeFromId}
+              onResumeFromChange={setResumeFromId}
+              chunks={chunks}
+              printed={new Set(printedChunks)}
+              onTogglePrinted={handleTogglePrintedChunk}
+              onDownloadChunk={handleDownloadChunk}
+              onPrintChunk={handlePrintChunk}
+              onDownloadPending={handleDownloadPendingChunks}
+              onPrintPending={handlePrintPendingChunks}
+              processing={processing}
+            />
+            <LintReport
+              issues={lintIssues}
+              labels={labels}
+              onShowLabel={handleShowLabel}
+              onDismiss={() => {
+                setLintIssues([]);
+                setHighlightedId(null);
+              }}
+            />
+
+            <div className="mb-4 flex justify-end" style={{ gap: 8 }}>
+              {(["cards", "table"] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setView(mode)}
+                  className="font-semibold"
+                  style={{
+                    background: view === mode ? '#388E3C' : '#fff',
+                    color: view === mode ? '#fff' : '#388E3C',
+                    borderRadius: 8,
+                    padding: '6px 14px',
+                    fontSize: 14,
+                    border: '1.5px solid #4CAF50',
+                    cursor: 'pointer',
+                  }}
+                  aria-pressed={view === mode}
+                >
+                  {mode === "cards" ? "Tarjetas" : "Tabla"}
+                </button>
               ))}
             </div>
+
+            {view === "table" ? (
+              <LabelTable
+                labels={labels}
+                layout={activeLayout}
+                onUpdate={handleUpdateLabel}
+                onBulkUpdate={handleBulkUpdate}
+                onDelete={handleRemoveLabels}
+                onExport={handleExportSelection}
+              />
+            ) : (
+              /* Vista previa tipo etiqueta impresa, editable */
+              <div style={{ display: "flex", flexWrap: "wrap", justifyContent: "center" }}>
+                {labels.map(label => (
+                  <LabelCardEditable
+                    key={label.id}
+                    label={label}
+                    layout={activeLayout}
+                    outputOptions={outputOptions}
+                    onDelete={() => handleRemoveLabel(label.id)}
+                    onUpdate={handleUpdateLabel}
+                    highlighted={label.id === highlightedId}
+                  />
+                ))}
+              </div>
+            )}
           </>
         )}
 
@@ -415,10 +1147,10 @@ const App: React.FC = () => {
       </main>
       <AddLabelModal
         open={addModalOpen}
+        catalog={catalog}
         onClose={() => setAddModalOpen(false)}
         onAdd={(data) => {
-          setLabels(currentLabels => [
-            ...currentLabels,
+          addLabels([
             {
               id: `label-manual-${Date.now()}`,
               code: data.code,
@@ -429,6 +1161,60 @@ const App: React.FC = () => {
           setSuccess(null);
         }}
       />
+      <ColumnMappingModal
+        open={mappingSource !== null}
+        source={mappingSource ?? { kind: "text", text: "" }}
+        purpose={mappingPurpose}
+        onClose={() => setMappingSource(null)}
+        onConfirm={handleConfirmMapping}
+      />
+      <LayoutEditorModal
+        open={layoutEditorOpen}
+        layouts={layouts}
+        selectedId={activeLayout.id}
+        onClose={() => setLayoutEditorOpen(false)}
+        onSave={handleSaveLayouts}
+      />
+      <Snackbar
+        open={storageWarning !== null}
+        anchorOrigin={{ vertical: "top", horizontal: "center" }}
+        onClose={(_, reason) => { if (reason !== "clickaway") setStorageWarning(null); }}
+        message={storageWarning}
+        action={<Button color="warning" size="small" onClick={() => setStorageWarning(null)}>Cerrar</Button>}
+      />
+      <Snackbar
+        open={undoToast !== null}
+        autoHideDuration={8000}
+        onClose={(_, reason) => { if (reason !== "clickaway") setUndoToast(null); }}
+        message={undoToast}
+        action={<Button color="success" size="small" onClick={handleUndo}>Deshacer</Button>}
+      />
+      <DuplicatesModal
+        open={pendingDuplicates !== null}
+        mode={pendingDuplicates?.mode ?? "add"}
+        groups={pendingDuplicates?.groups ?? []}
+        initialPolicy={duplicatePolicy}
+        onCancel={() => setPendingDuplicates(null)}
+        onApply={handleApplyDuplicates}
+      />
+      <CatalogModal
+        open={catalogOpen}
+        products={catalog}
+        onClose={() => setCatalogOpen(false)}
+        onChange={setCatalog}
+        onImportFile={handleImportCatalogFile}
+      />
+      <BatchesModal
+        open={batchesOpen}
+        batches={batches}
+        currentId={batchId}
+        currentCount={labels.length}
+        onClose={() => setBatchesOpen(false)}
+        onSaveAs={handleSaveBatchAs}
+        onOpen={handleOpenBatch}
+        onDuplicate={handleDuplicateBatch}
+        onDelete={handleDeleteBatch}
+      />
     </>
   );
 };
@@ -0,0 +1,55 @@
+import { LabelBatch, LabelData, SessionState } from "../types";
+import { writeStorage } from "../utils/settings";
+
+const BATCHES_KEY = "etiquetas.batches";
+const SESSION_KEY = "etiquetas.session";
+
+/** Carga los lotes guardados, del más reciente al más antiguo. */
+export function loadBatches(): LabelBatch[] {
+  try {
+    const raw = localStorage.getItem(BATCHES_KEY);
+    if (!raw) return [];
+    const saved = JSON.parse(raw) as LabelBatch[];
+    return Array.isArray(saved) ? sortBatches(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveBatches(batches: LabelBatch[]): boolean {
+  return writeStorage(BATCHES_KEY, JSON.stringify(batches));
+}
+
+/**
+ * Recupera la lista de trabajo autoguardada. Si había un lote abierto que ya
+ * no existe, la lista se conserva pero queda sin lote.
+ */
+export function loadSession(batches: LabelBatch[]): SessionState {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    if (!raw) return { labels: [], batchId: null };
+    const saved = JSON.parse(raw) as Partial<SessionState>;
+    const labels = Array.isArray(saved.labels) ? saved.labels : [];
+    const batch = batches.find(b => b.id === saved.batchId);
+    return batch ? { labels: batch.labels, batchId: batch.id } : { labels, batchId: null };
+  } catch {
+    return { labels: [], batchId: null };
+  }
+}
+
+export function saveSession(session: SessionState): boolean {
+  return writeStorage(SESSION_KEY, JSON.stringify(session));
+}
+
+export function sortBatches(batches: LabelBatch[]): LabelBatch[] {
+  return [...batches].sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function createBatch(name: string, labels: LabelData[]): LabelBatch {
+  return { id: `batch-${Date.now()}`, name, labels, updatedAt: Date.now() };
+}
+
+/** Cantidad de productos y total de etiquetas de un lote. */
+export function batchTotals(labels: LabelData[]): { products: number; total: number } {
+  return { products: labels.length, total: labels.reduce((sum, label) => sum + label.quantity, 0) };
+}
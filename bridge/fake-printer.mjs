@@ -0,0 +1,107 @@
+// @ts-check
+/**
+ * Impresora de prueba para usar el puente sin impresoras reales: escucha por
+ * TCP raw y por LPR, muestra cada trabajo recibido y lo guarda en
+ * bridge/received/. Con --fail N rechaza los primeros N trabajos, para probar
+ * los reintentos.
+ *
+ *   npm run fake-printer -- [--raw 9101] [--lpr 5515] [--fail 1]
+ */
+import net from "node:net";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+/**
+ * @param {string} name
+ * @param {number} fallback
+ */
+function option(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? Number(process.argv[index + 1]) : fallback;
+}
+
+const rawPort = option("raw", 9101);
+const lprPort = option("lpr", 5515);
+let failures = option("fail", 0);
+const outDir = fileURLToPath(new URL("./received/", import.meta.url));
+mkdirSync(outDir, { recursive: true });
+let received = 0;
+
+/**
+ * Guarda el trabajo y muestra su comienzo con los caracteres de control visibles.
+ * @param {string} via
+ * @param {Buffer} data
+ */
+function store(via, data) {
+  const file = `${outDir}${String(++received).padStart(4, "0")}-${via}.prn`;
+  writeFileSync(file, data);
+  const preview = data.toString("latin1", 0, 160).replace(/[\x00-\x1f]/g, (c) => `<${c.charCodeAt(0).toString(16).padStart(2, "0")}>`);
+  console.log(`[${via}] ${data.length} bytes → ${file}\n  ${preview}${data.length > 160 ? "…" : ""}`);
+}
+
+/** Decide si este trabajo se rechaza por --fail. */
+function shouldFail() {
+  if (failures <= 0) return false;
+  failures--;
+  return true;
+}
+
+net
+  .createServer((socket) => {
+    if (shouldFail()) {
+      console.log("[raw] trabajo rechazado (--fail)");
+      socket.resetAndDestroy();
+      return;
+    }
+    /** @type {Buffer[]} */
+    const chunks = [];
+    socket.on("data", (chunk) => chunks.push(chunk));
+    socket.on("end", () => {
+      store("raw", Buffer.concat(chunks));
+      socket.end();
+    });
+    socket.on("error", () => socket.destroy());
+  })
+  .listen(rawPort, "127.0.0.1", () => console.log(`Impresora de prueba raw en 127.0.0.1:${rawPort}`));
+
+// LPR mínimo: acepta "recibir trabajo" y sus subcomandos de archivo de control
+// y de datos, confirmando cada paso con un byte 0.
+net
+  .createServer((socket) => {
+    const reject = shouldFail();
+    let buffer = Buffer.alloc(0);
+    /** @type {{ kind: number; size: number } | null} */
+    let pending = null;
+    let started = false;
+    socket.on("data", (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (;;) {
+        if (pending) {
+          if (buffer.length < pending.size + 1) return;
+          if (pending.kind === 3) store("lpr", buffer.subarray(0, pending.size));
+          buffer = buffer.subarray(pending.size + 1);
+          pending = null;
+          socket.write(Buffer.from([0]));
+          continue;
+        }
+        const end = buffer.indexOf(0x0a);
+        if (end < 0) return;
+        const command = buffer[0];
+        const args = buffer.toString("latin1", 1, end).split(" ");
+        buffer = buffer.subarray(end + 1);
+        if (!started) {
+          started = true;
+          if (reject) console.log("[lpr] trabajo rechazado (--fail)");
+          socket.write(Buffer.from([command === 2 && !reject ? 0 : 1]));
+          if (reject) socket.end();
+        } else if (command === 2 || command === 3) {
+          pending = { kind: command, size: Number(args[0]) };
+          socket.write(Buffer.from([0]));
+        } else {
+          socket.write(Buffer.from([1]));
+        }
+      }
+    });
+    socket.on("error", () => socket.destroy());
+  })
+  .listen(lprPort, "127.0.0.1", () => console.log(`Impresora de prueba LPR en 127.0.0.1:${lprPort}`));
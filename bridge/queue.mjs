@@ -0,0 +1,179 @@
+// @ts-check
+import { EventEmitter } from "node:events";
+import { sendToPrinter } from "./transports.mjs";
+
+/** @typedef {import("./transports.mjs").PrinterConfig} PrinterConfig */
+
+/**
+ * @typedef {"queued" | "sending" | "done" | "failed" | "cancelled"} JobStatus
+ *
+ * @typedef {object} PrintJob
+ * @property {string} id
+ * @property {string} printerId
+ * @property {string} name
+ * @property {number} bytes
+ * @property {JobStatus} status
+ * @property {number} attempts
+ * @property {string} [error]
+ * @property {number} createdAt
+ * @property {number} updatedAt
+ */
+
+/**
+ * Trabajos terminados o cancelados que se conservan para consultarlos. Los
+ * fallidos no se descartan porque se pueden reintentar, pero hay a lo sumo
+ * uno por impresora: la cola se detiene en él.
+ */
+const HISTORY_LIMIT = 100;
+
+/**
+ * Cola de impresión: los trabajos de cada impresora se envían de a uno, en
+ * orden de llegada. Si uno falla, los siguientes de esa impresora esperan
+ * hasta que se reintente (y vuelve a salir antes que ellos) o se cancele, para
+ * que las partes de un trabajo no se impriman salteadas. Emite "job" con cada
+ * cambio de estado.
+ */
+export class JobQueue extends EventEmitter {
+  /** @param {PrinterConfig[]} printers */
+  constructor(printers) {
+    super();
+    this.printers = printers;
+    /** @type {Map<string, PrintJob>} */
+    this.jobs = new Map();
+    /** @type {Map<string, Buffer>} */
+    this.data = new Map();
+    /** @type {Map<string, AbortController>} */
+    this.sending = new Map();
+    this.nextId = 1;
+  }
+
+  /** @returns {PrintJob[]} */
+  list() {
+    return [...this.jobs.values()];
+  }
+
+  /** @param {string} id */
+  get(id) {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Agrega un trabajo a la cola de la impresora.
+   * @param {string} printerId
+   * @param {string} name
+   * @param {Buffer} data
+   * @returns {PrintJob}
+   */
+  submit(printerId, name, data) {
+    if (!this.printers.some((printer) => printer.id === printerId)) {
+      throw new Error(`No hay ninguna impresora "${printerId}" configurada.`);
+    }
+    if (data.length === 0) throw new Error("El trabajo está vacío.");
+    const now = Date.now();
+    /** @type {PrintJob} */
+    const job = {
+      id: String(this.nextId++),
+      printerId,
+      name,
+      bytes: data.length,
+      status: "queued",
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+    this.data.set(job.id, data);
+    this.emit("job", job);
+    this.process(printerId);
+    return job;
+  }
+
+  /**
+   * Vuelve a poner en cola un trabajo fallido.
+   * @param {string} id
+   * @returns {PrintJob}
+   */
+  retry(id) {
+    const job = this.require(id);
+    if (job.status !== "failed") {
+      throw new Error("Sólo se pueden reintentar trabajos fallidos.");
+    }
+    this.update(job, { status: "queued", error: undefined });
+    this.process(job.printerId);
+    return job;
+  }
+
+  /**
+   * Cancela un trabajo en cola o corta el envío en curso. Cancelar uno
+   * fallido libera los trabajos que esperaban detrás de él.
+   * @param {string} id
+   * @returns {PrintJob}
+   */
+  cancel(id) {
+    const job = this.require(id);
+    if (job.status === "queued" || job.status === "failed") {
+      this.update(job, { status: "cancelled" });
+      this.process(job.printerId);
+    } else if (job.status === "sending") {
+      this.sending.get(id)?.abort();
+    } else {
+      throw new Error("El trabajo ya terminó.");
+    }
+    return job;
+  }
+
+  /** @param {string} id */
+  require(id) {
+    const job = this.jobs.get(id);
+    if (!job) throw new Error(`No existe el trabajo ${id}.`);
+    return job;
+  }
+
+  /**
+   * Los datos de un trabajo terminado o cancelado se liberan en el momento:
+   * pueden ocupar hasta 20 MB cada uno (MAX_BODY del servidor).
+   * @param {PrintJob} job
+   * @param {Partial<PrintJob>} changes
+   */
+  update(job, changes) {
+    Object.assign(job, changes, { updatedAt: Date.now() });
+    if (job.status === "done" || job.status === "cancelled") {
+      this.data.delete(job.id);
+      this.prune();
+    }
+    this.emit("job", job);
+  }
+
+  /**
+   * Envía el siguiente trabajo en cola de la impresora, si no está ocupada ni
+   * detenida por un trabajo anterior que falló. Los trabajos se recorren en
+   * orden de llegada, así que uno reintentado sale antes que los posteriores.
+   * @param {string} printerId
+   */
+  async process(printerId) {
+    const busy = this.list().some((job) => job.printerId === printerId && job.status === "sending");
+    const job = this.list().find((j) => j.printerId === printerId && (j.status === "queued" || j.status === "failed"));
+    const printer = this.printers.find((p) => p.id === printerId);
+    if (busy || !job || job.status === "failed" || !printer) return;
+
+    const controller = new AbortController();
+    this.sending.set(job.id, controller);
+    this.update(job, { status: "sending", attempts: job.attempts + 1 });
+    try {
+      await sendToPrinter(printer, /** @type {Buffer} */ (this.data.get(job.id)), job.name, controller.signal);
+      this.update(job, { status: "done" });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.update(job, controller.signal.aborted ? { status: "cancelled" } : { status: "failed", error: message });
+    } finally {
+      this.sending.delete(job.id);
+    }
+    this.process(printerId);
+  }
+
+  // Descarta los trabajos terminados o cancelados más antiguos; los pendientes nunca.
+  prune() {
+    const finished = this.list().filter((job) => job.status === "done" || job.status === "cancelled");
+    finished.slice(0, Math.max(0, finished.length - HISTORY_LIMIT)).forEach((job) => this.jobs.delete(job.id));
+  }
+}
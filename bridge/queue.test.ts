@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const sendToPrinter = vi.fn();
+vi.mock("./transports.mjs", () => ({ sendToPrinter: (...args: unknown[]) => sendToPrinter(...args) }));
+
+const { JobQueue } = await import("./queue.mjs");
+
+const PRINTERS = [{ id: "p1", name: "Prueba", host: "127.0.0.1", protocol: "raw" as const }];
+// Deja terminar los envíos pendientes de la cola.
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("JobQueue", () => {
+  let sent: string[];
+
+  beforeEach(() => {
+    sent = [];
+    sendToPrinter.mockReset();
+    sendToPrinter.mockImplementation(async (_printer, _data, name: string) => {
+      sent.push(name);
+    });
+  });
+
+  const submitAll = (queue: InstanceType<typeof JobQueue>) =>
+    ["parte1", "parte2", "parte3"].map(name => queue.submit("p1", name, Buffer.from(name)));
+
+  it("envía los trabajos en orden de llegada", async () => {
+    const queue = new JobQueue(PRINTERS);
+    submitAll(queue);
+    await settle();
+    expect(sent).toEqual(["parte1", "parte2", "parte3"]);
+  });
+
+  it("detiene los siguientes si uno falla y el reintento sale primero", async () => {
+    sendToPrinter.mockImplementationOnce(async () => {
+      throw new Error("sin papel");
+    });
+    const queue = new JobQueue(PRINTERS);
+    const [first, second, third] = submitAll(queue);
+    await settle();
+    expect(first.status).toBe("failed");
+    expect([second.status, third.status]).toEqual(["queued", "queued"]);
+    expect(sent).toEqual([]);
+
+    queue.retry(first.id);
+    await settle();
+    expect(sent).toEqual(["parte1", "parte2", "parte3"]);
+  });
+
+  it("cancelar el fallido libera los que esperaban", async () => {
+    sendToPrinter.mockImplementationOnce(async () => {
+      throw new Error("sin papel");
+    });
+    const queue = new JobQueue(PRINTERS);
+    const [first] = submitAll(queue);
+    await settle();
+    queue.cancel(first.id);
+    await settle();
+    expect(first.status).toBe("cancelled");
+    expect(sent).toEqual(["parte2", "parte3"]);
+  });
+
+  it("libera los datos de los trabajos terminados o cancelados", async () => {
+    sendToPrinter.mockImplementationOnce(async () => {
+      throw new Error("sin papel");
+    });
+    const queue = new JobQueue(PRINTERS);
+    const [first, second, third] = submitAll(queue);
+    await settle();
+    queue.cancel(third.id);
+    expect(queue.data.has(first.id)).toBe(true);
+    expect(queue.data.has(third.id)).toBe(false);
+    queue.retry(first.id);
+    await settle();
+    expect([first.status, second.status]).toEqual(["done", "done"]);
+    expect(queue.data.size).toBe(0);
+    expect(() => queue.retry(third.id)).toThrow();
+  });
+
+  it("conserva una cantidad limitada de trabajos terminados o cancelados", async () => {
+    sendToPrinter.mockImplementation(() => new Promise(() => {}));
+    const queue = new JobQueue(PRINTERS);
+    const jobs = Array.from({ length: 150 }, (_, index) => queue.submit("p1", `parte${index}`, Buffer.from("x")));
+    jobs.slice(1).forEach(job => queue.cancel(job.id));
+    expect(queue.list().length).toBe(101);
+    expect(queue.get(jobs[1].id)).toBeUndefined();
+    expect(queue.get(jobs[149].id)?.status).toBe("cancelled");
+  });
+});
@@ -0,0 +1,204 @@
+// @ts-check
+/**
+ * Puente de impresión: recibe trabajos de la aplicación web por HTTP o
+ * WebSocket y los envía a las impresoras configuradas por TCP raw (9100) o
+ * LPR. Se inicia con `npm run bridge`; la configuración se lee de
+ * bridge/printers.json o del archivo indicado con --config.
+ *
+ * HTTP:
+ *   GET  /printers              impresoras configuradas
+ *   GET  /jobs                  trabajos y su estado
+ *   POST /jobs                  { printerId, name, data (base64) }
+ *   POST /jobs/:id/retry        reintenta un trabajo fallido
+ *   POST /jobs/:id/cancel       cancela un trabajo en cola, en envío o fallido
+ * WebSocket (/ws): al conectar envía { type: "snapshot", printers, jobs } y
+ * luego { type: "job", job } con cada cambio. Acepta los mensajes
+ * { type: "submit" | "retry" | "cancel", ... } con los mismos datos.
+ *
+ * Sólo atiende a la aplicación: las peticiones y conexiones que traen un
+ * Origin fuera de `allowedOrigins` reciben 403, para que otra página abierta
+ * en el navegador no pueda mandar trabajos a las impresoras. Las que no traen
+ * Origin (curl, scripts del propio equipo) se aceptan.
+ */
+import http from "node:http";
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { JobQueue } from "./queue.mjs";
+import { acceptWebSocket } from "./websocket.mjs";
+
+/** @typedef {import("./transports.mjs").PrinterConfig} PrinterConfig */
+/** @typedef {import("./websocket.mjs").WebSocketConnection} WebSocketConnection */
+
+/**
+ * @typedef {object} BridgeConfig
+ * @property {string} [host] Interfaz en la que escucha; por defecto sólo este equipo.
+ * @property {number} [port]
+ * @property {string[]} [allowedOrigins] Orígenes de la aplicación; por defecto los de `npm run dev` y `npm run preview`.
+ * @property {PrinterConfig[]} printers
+ */
+
+/** Tamaño máximo de un trabajo recibido por HTTP o de un mensaje por WebSocket. */
+const MAX_BODY = 20 * 1024 * 1024;
+
+/** Orígenes del servidor de Vite (dev y preview) en este equipo. */
+const DEFAULT_ORIGINS = [3000, 5173, 4173].flatMap((port) => [`http://localhost:${port}`, `http://127.0.0.1:${port}`]);
+
+const configArg = process.argv.indexOf("--config");
+const configPath = configArg >= 0 ? process.argv[configArg + 1] : fileURLToPath(new URL("./printers.json", import.meta.url));
+/** @type {BridgeConfig} */
+const config = JSON.parse(readFileSync(configPath, "utf8"));
+const queue = new JobQueue(config.printers);
+const allowedOrigins = new Set(config.allowedOrigins ?? DEFAULT_ORIGINS);
+
+/**
+ * Origin permitido de la petición, o null si no trae Origin.
+ * @param {http.IncomingMessage} request
+ * @returns {string | null | false} false si el origen no está permitido.
+ */
+function requestOrigin(request) {
+  const origin = request.headers.origin;
+  if (!origin) return null;
+  return allowedOrigins.has(origin) ? origin : false;
+}
+
+/** Datos públicos de las impresoras, para elegir a cuál enviar. */
+const printerList = () =>
+  config.printers.map(({ id, name, host, port, protocol }) => ({ id, name, host, port, protocol }));
+
+/**
+ * Valida un trabajo recibido y lo pone en cola.
+ * @param {any} body
+ */
+function submit(body) {
+  if (typeof body?.printerId !== "string" || typeof body?.data !== "string") {
+    throw new Error("El trabajo necesita printerId y data (base64).");
+  }
+  const name = typeof body.name === "string" && body.name ? body.name : "etiquetas";
+  return queue.submit(body.printerId, name, Buffer.from(body.data, "base64"));
+}
+
+/**
+ * @param {http.ServerResponse} response
+ * @param {number} status
+ * @param {unknown} body
+ * @param {string | null} origin Origen permitido al que se le responde.
+ */
+function sendJson(response, status, body, origin) {
+  response.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    ...(origin ? { "Access-Control-Allow-Origin": origin, Vary: "Origin" } : {}),
+  });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * @param {http.IncomingMessage} request
+ * @returns {Promise<any>}
+ */
+function readJson(request) {
+  return new Promise((resolve, reject) => {
+    /** @type {Buffer[]} */
+    const chunks = [];
+    let size = 0;
+    request.on("data", (/** @type {Buffer} */ chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY) {
+        reject(new Error("El trabajo es demasiado grande."));
+        request.destroy();
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    request.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}"));
+      } catch {
+        reject(new Error("El cuerpo no es JSON válido."));
+      }
+    });
+    request.on("error", reject);
+  });
+}
+
+const server = http.createServer(async (request, response) => {
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const origin = requestOrigin(request);
+  if (origin === false) {
+    sendJson(response, 403, { error: "Origen no permitido." }, null);
+    return;
+  }
+  if (request.method === "OPTIONS") {
+    response.writeHead(204, {
+      ...(origin ? { "Access-Control-Allow-Origin": origin, Vary: "Origin" } : {}),
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type",
+    });
+    response.end();
+    return;
+  }
+  try {
+    const action = url.pathname.match(/^\/jobs\/([^/]+)\/(retry|cancel)$/);
+    if (request.method === "GET" && url.pathname === "/printers") {
+      sendJson(response, 200, { printers: printerList() }, origin);
+    } else if (request.method === "GET" && url.pathname === "/jobs") {
+      sendJson(response, 200, { jobs: queue.list() }, origin);
+    } else if (request.method === "POST" && url.pathname === "/jobs") {
+      sendJson(response, 201, { job: submit(await readJson(request)) }, origin);
+    } else if (request.method === "POST" && action) {
+      const [, id, verb] = action;
+      sendJson(response, 200, { job: verb === "retry" ? queue.retry(id) : queue.cancel(id) }, origin);
+    } else {
+      sendJson(response, 404, { error: "Ruta desconocida." }, origin);
+    }
+  } catch (error) {
+    sendJson(response, 400, { error: error instanceof Error ? error.message : String(error) }, origin);
+  }
+});
+
+/** @type {Set<WebSocketConnection>} */
+const clients = new Set();
+
+server.on("upgrade", (request, socket) => {
+  if (new URL(request.url ?? "/", "http://localhost").pathname !== "/ws") {
+    socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+    return;
+  }
+  if (requestOrigin(request) === false) {
+    socket.end("HTTP/1.1 403 Forbidden\r\n\r\n");
+    return;
+  }
+  const connection = acceptWebSocket(request, socket, (message) => {
+    let body;
+    try {
+      body = JSON.parse(message);
+      if (body.type === "submit") submit(body);
+      else if (body.type === "retry") queue.retry(String(body.id));
+      else if (body.type === "cancel") queue.cancel(String(body.id));
+      else throw new Error(`Mensaje desconocido: ${body.type}.`);
+    } catch (error) {
+      connection?.send(JSON.stringify({
+        type: "error",
+        requestId: body?.requestId,
+        message: error instanceof Error ? error.message : String(error),
+      }));
+    }
+  }, MAX_BODY);
+  if (!connection) return;
+  clients.add(connection);
+  socket.on("close", () => clients.delete(connection));
+  connection.send(JSON.stringify({ type: "snapshot", printers: printerList(), jobs: queue.list() }));
+});
+
+queue.on("job", (job) => {
+  const message = JSON.stringify({ type: "job", job });
+  clients.forEach((client) => client.send(message));
+  const printer = config.printers.find((p) => p.id === job.printerId)?.name ?? job.printerId;
+  console.log(`[${new Date().toLocaleTimeString()}] #${job.id} ${job.name} → ${printer}: ${job.status}${job.error ? ` (${job.error})` : ""}`);
+});
+
+const host = config.host ?? "127.0.0.1";
+const port = config.port ?? 9110;
+server.listen(port, host, () => {
+  console.log(`Puente de impresión en http://${host}:${port} (${config.printers.length} impresoras)`);
+  config.printers.forEach((p) => console.log(`  ${p.id}: ${p.name} — ${p.protocol} ${p.host}:${p.port ?? (p.protocol === "lpr" ? 515 : 9100)}`));
+});
@@ -0,0 +1,137 @@
+// @ts-check
+import net from "node:net";
+import os from "node:os";
+
+/**
+ * @typedef {object} PrinterConfig
+ * @property {string} id
+ * @property {string} name
+ * @property {string} host
+ * @property {number} [port] Puerto TCP; por defecto 9100 (raw) o 515 (LPR).
+ * @property {"raw" | "lpr"} protocol
+ * @property {string} [queue] Cola LPR; por defecto "lp".
+ */
+
+/** Tiempo máximo sin actividad en la conexión con la impresora. */
+const TIMEOUT_MS = 15000;
+
+/**
+ * Abre una conexión TCP que se cierra sola por inactividad o al cancelar.
+ * @param {string} host
+ * @param {number} port
+ * @param {AbortSignal} signal
+ * @returns {Promise<net.Socket>}
+ */
+function connect(host, port, signal) {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(new Error("Trabajo cancelado."));
+    const socket = net.connect({ host, port });
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error(`La impresora ${host}:${port} no responde.`)));
+    signal.addEventListener("abort", () => socket.destroy(new Error("Trabajo cancelado.")), { once: true });
+    socket.once("connect", () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+/**
+ * Envía los bytes tal cual al puerto raw (9100, JetDirect) y espera a que la
+ * impresora cierre o acepte el cierre de la conexión.
+ * @param {PrinterConfig} printer
+ * @param {Buffer} data
+ * @param {AbortSignal} signal
+ * @returns {Promise<void>}
+ */
+export async function sendRaw(printer, data, signal) {
+  const socket = await connect(printer.host, printer.port ?? 9100, signal);
+  await new Promise((resolve, reject) => {
+    socket.once("error", reject);
+    socket.once("close", (hadError) => (hadError ? undefined : resolve(undefined)));
+    socket.end(data);
+  });
+}
+
+/**
+ * Lee el byte de confirmación de LPR: 0 es aceptado, cualquier otro valor un rechazo.
+ * @param {net.Socket} socket
+ * @param {string} step
+ * @returns {Promise<void>}
+ */
+function readAck(socket, step) {
+  return new Promise((resolve, reject) => {
+    const onData = (/** @type {Buffer} */ chunk) => {
+      cleanup();
+      if (chunk[0] === 0) resolve();
+      else reject(new Error(`La cola LPR rechazó ${step} (código ${chunk[0]}).`));
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error(`La impresora cerró la conexión durante ${step}.`));
+    };
+    const cleanup = () => {
+      socket.off("data", onData);
+      socket.off("close", onClose);
+    };
+    socket.on("data", onData);
+    socket.on("close", onClose);
+  });
+}
+
+let lprJobNumber = 0;
+
+/** Largo máximo de las líneas J y N del archivo de control (RFC 1179, 7.2 y 7.4). */
+const LPR_NAME_LIMIT = 99;
+
+/**
+ * Nombre del trabajo apto para el archivo de control: sin caracteres de
+ * control (un salto de línea agregaría comandos) y con el largo permitido.
+ * @param {string} jobName
+ */
+export const lprJobName = (jobName) =>
+  jobName.replace(/[\x00-\x1f\x7f]/g, " ").trim().slice(0, LPR_NAME_LIMIT) || "etiquetas";
+
+/**
+ * Envía un trabajo por LPR (RFC 1179): "recibir trabajo", el archivo de
+ * control y el de datos, cada paso confirmado por la impresora. El archivo
+ * se imprime con "l" (sin filtrar) para no alterar los caracteres de control.
+ * @param {PrinterConfig} printer
+ * @param {Buffer} data
+ * @param {string} jobName
+ * @param {AbortSignal} signal
+ * @returns {Promise<void>}
+ */
+export async function sendLpr(printer, data, jobName, signal) {
+  const socket = await connect(printer.host, printer.port ?? 515, signal);
+  try {
+    const host = os.hostname().replace(/[^A-Za-z0-9.-]/g, "").slice(0, 31) || "puente";
+    const number = String(lprJobNumber++ % 1000).padStart(3, "0");
+    const dataFile = `dfA${number}${host}`;
+    const name = lprJobName(jobName);
+    const control = Buffer.from(
+      [`H${host}`, "Petiquetas", `J${name}`, `l${dataFile}`, `U${dataFile}`, `N${name}`, ""].join("\n"),
+      "latin1"
+    );
+    socket.write(`\x02${printer.queue ?? "lp"}\n`);
+    await readAck(socket, "el trabajo");
+    socket.write(`\x02${control.length} cfA${number}${host}\n`);
+    await readAck(socket, "el archivo de control");
+    socket.write(Buffer.concat([control, Buffer.from([0])]));
+    await readAck(socket, "el archivo de control");
+    socket.write(`\x03${data.length} ${dataFile}\n`);
+    await readAck(socket, "el archivo de datos");
+    socket.write(Buffer.concat([data, Buffer.from([0])]));
+    await readAck(socket, "el archivo de datos");
+  } finally {
+    socket.end();
+  }
+}
+
+/**
+ * Envía los bytes a la impresora con su protocolo.
+ * @param {PrinterConfig} printer
+ * @param {Buffer} data
+ * @param {string} jobName
+ * @param {AbortSignal} signal
+ * @returns {Promise<void>}
+ */
+export const sendToPrinter = (printer, data, jobName, signal) =>
+  printer.protocol === "lpr" ? sendLpr(printer, data, jobName, signal) : sendRaw(printer, data, signal);
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { lprJobName } from "./transports.mjs";
+
+describe("lprJobName", () => {
+  it("quita los saltos de línea que agregarían comandos al archivo de control", () => {
+    expect(lprJobName("parte 1\nldfA001otro\r\nUdfA001otro")).toBe("parte 1 ldfA001otro  UdfA001otro");
+  });
+
+  it("limita el largo y no deja el nombre vacío", () => {
+    expect(lprJobName("x".repeat(200))).toHaveLength(99);
+    expect(lprJobName("\t\n")).toBe("etiquetas");
+  });
+});
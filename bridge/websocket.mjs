@@ -0,0 +1,149 @@
+// @ts-check
+import { createHash } from "node:crypto";
+
+/** @typedef {import("node:stream").Duplex} Duplex */
+/** @typedef {import("node:http").IncomingMessage} IncomingMessage */
+
+const GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/** Código de cierre para un mensaje demasiado grande (RFC 6455, 7.4.1). */
+const CLOSE_TOO_BIG = 1009;
+
+/**
+ * Conexión WebSocket mínima (RFC 6455) para mensajes de texto JSON: sin
+ * extensiones ni mensajes fragmentados, que el navegador no usa para
+ * mensajes de este tamaño.
+ */
+export class WebSocketConnection {
+  /**
+   * @param {Duplex} socket
+   * @param {(message: string) => void} onMessage
+   * @param {number} maxPayload Largo máximo de una trama recibida.
+   */
+  constructor(socket, onMessage, maxPayload) {
+    this.socket = socket;
+    this.onMessage = onMessage;
+    this.maxPayload = maxPayload;
+    this.buffer = Buffer.alloc(0);
+    this.open = true;
+    socket.on("data", (chunk) => this.receive(chunk));
+    socket.on("close", () => (this.open = false));
+    socket.on("error", () => socket.destroy());
+  }
+
+  /** @param {string} text */
+  send(text) {
+    if (this.open) this.socket.write(frame(0x1, Buffer.from(text, "utf8")));
+  }
+
+  /**
+   * Junta los datos recibidos y procesa cada trama completa. Una trama que
+   * declara más de maxPayload bytes cierra la conexión antes de guardarla.
+   * @param {Buffer} chunk
+   */
+  receive(chunk) {
+    if (!this.open) return;
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      const declared = payloadLength(this.buffer);
+      if (declared !== null && declared > this.maxPayload) {
+        const code = Buffer.alloc(2);
+        code.writeUInt16BE(CLOSE_TOO_BIG);
+        this.open = false;
+        this.buffer = Buffer.alloc(0);
+        this.socket.end(frame(0x8, code));
+        return;
+      }
+      const parsed = parseFrame(this.buffer);
+      if (!parsed) return;
+      this.buffer = this.buffer.subarray(parsed.length);
+      if (parsed.opcode === 0x1) this.onMessage(parsed.payload.toString("utf8"));
+      else if (parsed.opcode === 0x9) this.socket.write(frame(0xa, parsed.payload));
+      else if (parsed.opcode === 0x8) {
+        this.open = false;
+        this.socket.end(frame(0x8, Buffer.alloc(0)));
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Trama del servidor al cliente: sin máscara y con el largo en 7, 16 o 64 bits.
+ * @param {number} opcode
+ * @param {Buffer} payload
+ */
+function frame(opcode, payload) {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Largo de los datos que declara la cabecera de la trama; null si la
+ * cabecera todavía no llegó completa.
+ * @param {Buffer} buffer
+ * @returns {number | null}
+ */
+function payloadLength(buffer) {
+  if (buffer.length < 2) return null;
+  const length = buffer[1] & 0x7f;
+  if (length === 126) return buffer.length < 4 ? null : buffer.readUInt16BE(2);
+  if (length === 127) return buffer.length < 10 ? null : Number(buffer.readBigUInt64BE(2));
+  return length;
+}
+
+/**
+ * Lee una trama completa del cliente (siempre enmascarada); null si faltan bytes.
+ * @param {Buffer} buffer
+ * @returns {{ opcode: number; payload: Buffer; length: number } | null}
+ */
+function parseFrame(buffer) {
+  if (buffer.length < 2) return null;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  const length = payloadLength(buffer);
+  if (length === null) return null;
+  const marker = buffer[1] & 0x7f;
+  let offset = marker === 126 ? 4 : marker === 127 ? 10 : 2;
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+  }
+  return { opcode, payload, length: offset + length };
+}
+
+/**
+ * Completa el saludo de una petición "Upgrade: websocket". Devuelve null si
+ * la petición no es un WebSocket válido (y responde 400).
+ * @param {IncomingMessage} request
+ * @param {Duplex} socket
+ * @param {(message: string) => void} onMessage
+ * @param {number} maxPayload Largo máximo de un mensaje recibido.
+ */
+export function acceptWebSocket(request, socket, onMessage, maxPayload) {
+  const key = request.headers["sec-websocket-key"];
+  if (request.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return null;
+  }
+  const accept = createHash("sha1").update(key + GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  return new WebSocketConnection(socket, onMessage, maxPayload);
+}
@@ -0,0 +1,60 @@
+import { EventEmitter } from "node:events";
+import { Duplex } from "node:stream";
+import { describe, expect, it } from "vitest";
+import { WebSocketConnection } from "./websocket.mjs";
+
+// Socket de prueba que guarda lo que el servidor escribe.
+class FakeSocket extends EventEmitter {
+  written: Buffer[] = [];
+  ended = false;
+  write(data: Buffer) {
+    this.written.push(data);
+    return true;
+  }
+  end(data?: Buffer) {
+    if (data) this.written.push(data);
+    this.ended = true;
+    return this;
+  }
+  destroy() {
+    return this;
+  }
+}
+
+// Cabecera de una trama de texto enmascarada del cliente, con el largo en 64 bits.
+const header = (length: number) => {
+  const buffer = Buffer.alloc(14);
+  buffer[0] = 0x81;
+  buffer[1] = 0x80 | 127;
+  buffer.writeBigUInt64BE(BigInt(length), 2);
+  return buffer;
+};
+
+const connect = (maxPayload: number) => {
+  const socket = new FakeSocket();
+  const messages: string[] = [];
+  const connection = new WebSocketConnection(socket as unknown as Duplex, message => messages.push(message), maxPayload);
+  return { socket, messages, connection };
+};
+
+describe("WebSocketConnection", () => {
+  it("recibe un mensaje que llega en varias partes", () => {
+    const { socket, messages } = connect(100);
+    const frame = Buffer.concat([header(4), Buffer.from("hola")]);
+    socket.emit("data", frame.subarray(0, 9));
+    socket.emit("data", frame.subarray(9));
+    expect(messages).toEqual(["hola"]);
+  });
+
+  it("cierra con 1009 una trama más larga que el máximo sin esperar sus datos", () => {
+    const { socket, messages, connection } = connect(100);
+    socket.emit("data", header(101));
+    expect(socket.ended).toBe(true);
+    const close = socket.written.at(-1)!;
+    expect(close[0]).toBe(0x88);
+    expect(close.readUInt16BE(2)).toBe(1009);
+    socket.emit("data", Buffer.alloc(101));
+    expect(connection.buffer.length).toBe(0);
+    expect(messages).toEqual([]);
+  });
+});
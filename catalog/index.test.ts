@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { CatalogProduct } from "../types";
+import { DEFAULT_LAYOUTS } from "../layouts";
+import { emptyColumns } from "../parsers/columns";
+import { rowsToLabels } from "../parsers/labels";
+import { catalogIndex, rowsToCatalog, searchCatalog, upsertProducts } from ".";
+
+const PRODUCTS: CatalogProduct[] = [
+  { code: "A1", description: "Caño PVC 1/2", updatedAt: 1 },
+  { code: "B2", description: "Codo PVC 90", updatedAt: 1 },
+  { code: "A10", description: "Tornillos", updatedAt: 1 },
+];
+
+describe("upsertProducts", () => {
+  it("devuelve la misma lista si nada cambió", () => {
+    expect(upsertProducts(PRODUCTS, [{ code: " a1 ", description: "Caño PVC 1/2" }])).toBe(PRODUCTS);
+  });
+
+  it("actualiza por código sin mayúsculas y agrega los nuevos", () => {
+    const products = upsertProducts(PRODUCTS, [{ code: "a1", description: "Caño PVC 3/4" }, { code: "C3", description: "Tuercas" }]);
+    expect(products.map(p => [p.code, p.description])).toEqual([
+      ["A1", "Caño PVC 3/4"], ["B2", "Codo PVC 90"], ["A10", "Tornillos"], ["C3", "Tuercas"],
+    ]);
+  });
+});
+
+describe("rowsToCatalog", () => {
+  it("guarda las columnas sin asignar como campos adicionales", () => {
+    const rows = [["Código", "Descripción", "Rubro"], ["A1", "Caño  PVC", "Sanitarios"], ["", "Sin código", ""]];
+    const mapping = { hasHeader: true, columns: { ...emptyColumns(), code: 0, description: 1 } };
+    expect(rowsToCatalog(rows, mapping)).toEqual([{ code: "A1", description: "Caño PVC", fields: { Rubro: "Sanitarios" } }]);
+  });
+});
+
+describe("searchCatalog", () => {
+  it("busca primero por código y después por palabras, sin acentos", () => {
+    expect(searchCatalog(PRODUCTS, "a1", 10).map(p => p.code)).toEqual(["A1", "A10"]);
+    expect(searchCatalog(PRODUCTS, "cano pvc", 10).map(p => p.code)).toEqual(["A1"]);
+  });
+});
+
+describe("pegado sólo con códigos", () => {
+  it("toma la descripción del catálogo y rechaza los códigos desconocidos", () => {
+    const rows = [["a1", "2"], ["Z9", "1"]];
+    const mapping = { hasHeader: false, columns: { ...emptyColumns(), code: 0, quantity: 1 } };
+    const { labels, report } = rowsToLabels(rows, mapping, DEFAULT_LAYOUTS[0], catalogIndex(PRODUCTS));
+    expect(labels.map(label => [label.code, label.description, label.quantity])).toEqual([["a1", "Caño PVC 1/2", 2]]);
+    expect(report).toContainEqual(expect.objectContaining({ line: 2, severity: "error" }));
+  });
+});
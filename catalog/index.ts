@@ -0,0 +1,97 @@
+import { CatalogProduct, ColumnMapping } from "../types";
+import { removeDiacritics, sanitizeString } from "../utils/text";
+import { writeStorage } from "../utils/settings";
+
+const CATALOG_KEY = "etiquetas.catalog";
+
+export function loadCatalog(): CatalogProduct[] {
+  try {
+    const raw = localStorage.getItem(CATALOG_KEY);
+    const saved = raw ? (JSON.parse(raw) as CatalogProduct[]) : [];
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCatalog(products: CatalogProduct[]): boolean {
+  return writeStorage(CATALOG_KEY, JSON.stringify(products));
+}
+
+/** Clave de búsqueda por código: sin espacios y en mayúsculas. */
+export const catalogKey = (code: string): string => code.trim().toUpperCase();
+
+export function catalogIndex(products: CatalogProduct[]): Map<string, CatalogProduct> {
+  return new Map(products.map(product => [catalogKey(product.code), product]));
+}
+
+/** Producto nuevo o actualizado: sólo código y descripción son obligatorios. */
+export type CatalogEntry = Pick<CatalogProduct, "code" | "description" | "fields">;
+
+/**
+ * Agrega o actualiza productos por código. Si nada cambió devuelve la misma
+ * lista, para no volver a guardar el catálogo en cada pegado.
+ */
+export function upsertProducts(products: CatalogProduct[], entries: CatalogEntry[]): CatalogProduct[] {
+  const index = catalogIndex(products);
+  const now = Date.now();
+  let changed = false;
+  entries.forEach(({ code, description, fields }) => {
+    const key = catalogKey(code);
+    if (!key || !description.trim()) return;
+    const current = index.get(key);
+    const mergedFields = fields || current?.fields ? { ...current?.fields, ...fields } : undefined;
+    if (current && current.description === description &&
+      JSON.stringify(current.fields ?? {}) === JSON.stringify(mergedFields ?? {})) {
+      return;
+    }
+    index.set(key, { code: current?.code ?? code.trim(), description, fields: mergedFields, updatedAt: now });
+    changed = true;
+  });
+  return changed ? [...index.values()] : products;
+}
+
+/**
+ * Convierte las filas de una planilla en productos. Las columnas no asignadas
+ * se guardan como campos adicionales cuando la tabla tiene encabezado.
+ */
+export function rowsToCatalog(rows: string[][], mapping: ColumnMapping): CatalogEntry[] {
+  const { code: codeIndex, description: descIndex } = mapping.columns;
+  if (codeIndex === null || descIndex === null) return [];
+  const headers = mapping.hasHeader ? rows[0] ?? [] : [];
+  const extra = headers
+    .map((header, index) => ({ header: header.trim(), index }))
+    .filter(({ header, index }) => header && index !== codeIndex && index !== descIndex);
+
+  return (mapping.hasHeader ? rows.slice(1) : rows)
+    .map(columns => {
+      const fields = Object.fromEntries(
+        extra.filter(({ index }) => columns[index]?.trim()).map(({ header, index }) => [header, columns[index].trim()])
+      );
+      return {
+        code: (columns[codeIndex] ?? "").trim(),
+        description: sanitizeString(columns[descIndex] ?? "").replace(/\s+/g, " ").trim(),
+        fields: Object.keys(fields).length > 0 ? fields : undefined,
+      };
+    })
+    .filter(entry => entry.code && entry.description);
+}
+
+const searchText = (text: string) => removeDiacritics(text).toLowerCase();
+
+/**
+ * Busca por código (prefijo) o por palabras de la descripción, sin importar
+ * acentos ni mayúsculas. Primero los que coinciden por código.
+ */
+export function searchCatalog(products: CatalogProduct[], query: string, limit: number): CatalogProduct[] {
+  const words = searchText(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return products.slice(0, limit);
+  const key = catalogKey(query);
+  const byCode = products.filter(p => catalogKey(p.code).startsWith(key));
+  const byDescription = products.filter(p => {
+    if (catalogKey(p.code).startsWith(key)) return false;
+    const description = searchText(p.description);
+    return words.every(word => description.includes(word));
+  });
+  return [...byCode, ...byDescription].slice(0, limit);
+}
@@ -1,9 +1,12 @@
 import React, { useState } from "react";
-import { Modal, Box, Typography, TextField, Button, IconButton } from "@mui/material";
+import { Modal, Box, Typography, TextField, Button, IconButton, Autocomplete } from "@mui/material";
 import CloseIcon from "@mui/icons-material/Close";
+import { CatalogProduct } from "../types";
+import { searchCatalog } from "../catalog";
 
 interface Props {
   open: boolean;
+  catalog: CatalogProduct[];
   onClose: () => void;
   onAdd: (data: { code: string; description: string; quantity: number }) => void;
 }
@@ -20,12 +23,24 @@ const style = {
   p: 4,
 };
 
-const AddLabelModal: React.FC<Props> = ({ open, onClose, onAdd }) => {
+const SUGGESTIONS = 20;
+
+/**
+ * Alta manual de una etiqueta. Código y descripción se autocompletan desde el
+ * catálogo: elegir un producto en cualquiera de los dos completa el otro.
+ */
+const AddLabelModal: React.FC<Props> = ({ open, catalog, onClose, onAdd }) => {
   const [code, setCode] = useState("");
   const [description, setDescription] = useState("");
   const [quantity, setQuantity] = useState<number>(1);
   const [error, setError] = useState<string>("");
 
+  const selectProduct = (product: CatalogProduct | string | null) => {
+    if (!product || typeof product === "string") return;
+    setCode(product.code);
+    setDescription(product.description);
+  };
+
   const handleAdd = () => {
     if (!code.trim() || !description.trim()) {
       setError("Código y descripción son obligatorios.");
@@ -52,19 +67,37 @@ const AddLabelModal: React.FC<Props> = ({ open, onClose, onAdd }) => {
             <CloseIcon />
           </IconButton>
         </Box>
-        <TextField
-          label="Código"
-          fullWidth
-          value={code}
-          onChange={e => setCode(e.target.value)}
-          sx={{ mb: 2 }}
+        <Autocomplete
+          freeSolo
+          options={catalog}
+          filterOptions={(options, state) => searchCatalog(options, state.inputValue, SUGGESTIONS)}
+          getOptionLabel={option => typeof option === "string" ? option : option.code}
+          renderOption={(props, option) => (
+            <li {...props} key={option.code}>
+              <b style={{ fontFamily: 'monospace', marginRight: 8 }}>{option.code}</b> {option.description}
+            </li>
+          )}
+          value={null}
+          inputValue={code}
+          onInputChange={(_, value, reason) => { if (reason !== "reset") setCode(value); }}
+          onChange={(_, value) => selectProduct(value)}
+          renderInput={params => <TextField {...params} label="Código" fullWidth sx={{ mb: 2 }} />}
         />
-        <TextField
-          label="Descripción"
-          fullWidth
-          value={description}
-          onChange={e => setDescription(e.target.value)}
-          sx={{ mb: 2 }}
+        <Autocomplete
+          freeSolo
+          options={catalog}
+          filterOptions={(options, state) => searchCatalog(options, state.inputValue, SUGGESTIONS)}
+          getOptionLabel={option => typeof option === "string" ? option : option.description}
+          renderOption={(props, option) => (
+            <li {...props} key={option.code}>
+              {option.description} <span style={{ color: '#888', marginLeft: 8 }}>{option.code}</span>
+            </li>
+          )}
+          value={null}
+          inputValue={description}
+          onInputChange={(_, value, reason) => { if (reason !== "reset") setDescription(value); }}
+          onChange={(_, value) => selectProduct(value)}
+          renderInput={params => <TextField {...params} label="Descripción" fullWidth sx={{ mb: 2 }} />}
         />
         <TextField
           label="Cantidad"
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from "react";
+import {
+  Modal, Box, Typography, TextField, Button, IconButton,
+  Table, TableHead, TableBody, TableRow, TableCell,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import DeleteIcon from "@mui/icons-material/Delete";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import { LabelBatch } from "../types";
+import { batchTotals } from "../batches/storage";
+
+interface Props {
+  open: boolean;
+  batches: LabelBatch[];
+  currentId: string | null;
+  /** Productos en la lista de trabajo; sin productos no se puede guardar. */
+  currentCount: number;
+  onClose: () => void;
+  onSaveAs: (name: string) => void;
+  onOpen: (batch: LabelBatch) => void;
+  onDuplicate: (batch: LabelBatch) => void;
+  onDelete: (batch: LabelBatch) => void;
+}
+
+const style = {
+  position: 'absolute' as const,
+  top: '50%',
+  left: '50%',
+  transform: 'translate(-50%, -50%)',
+  width: 'min(820px, 95vw)',
+  maxHeight: '90vh',
+  overflowY: 'auto' as const,
+  bgcolor: 'background.paper',
+  borderRadius: 3,
+  boxShadow: 24,
+  p: 4,
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString("es-AR", { dateStyle: "short", timeStyle: "short" });
+
+/** Lotes guardados: guardar la lista actual con nombre, abrir, duplicar y eliminar. */
+const BatchesModal: React.FC<Props> = ({
+  open, batches, currentId, currentCount, onClose, onSaveAs, onOpen, onDuplicate, onDelete,
+}) => {
+  const [name, setName] = useState("");
+
+  useEffect(() => {
+    if (open) setName(`Lote ${new Date().toLocaleDateString("es-AR", { day: "2-digit", month: "2-digit" })}`);
+  }, [open]);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSaveAs(name.trim());
+  };
+
+  return (
+    <Modal open={open} onClose={onClose}>
+      <Box sx={style}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+          <Typography variant="h6" fontWeight={700} color="#388E3C">Lotes guardados</Typography>
+          <IconButton aria-label="Cerrar" onClick={onClose}><CloseIcon /></IconButton>
+        </Box>
+
+        <Box display="flex" gap={2} alignItems="center" mb={3}>
+          <TextField
+            label="Nombre del lote"
+            size="small"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => { if (e.key === "Enter") handleSave(); }}
+            sx={{ flex: 1 }}
+          />
+          <Button variant="contained" color="success" onClick={handleSave} disabled={currentCount === 0 || !name.trim()}>
+            Guardar lista actual
+          </Button>
+        </Box>
+
+        {batches.length === 0 ? (
+          <Typography color="text.secondary">Todavía no hay lotes guardados.</Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Nombre</TableCell>
+                <TableCell align="right">Productos</TableCell>
+                <TableCell align="right">Etiquetas</TableCell>
+                <TableCell>Modificado</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {batches.map(batch => {
+                const { products, total } = batchTotals(batch.labels);
+                const isCurrent = batch.id === currentId;
+                return (
+                  <TableRow key={batch.id} selected={isCurrent}>
+                    <TableCell sx={{ fontWeight: isCurrent ? 700 : 400 }}>
+                      {batch.name}{isCurrent && " (abierto)"}
+                    </TableCell>
+                    <TableCell align="right">{products}</TableCell>
+                    <TableCell align="right">{total}</TableCell>
+                    <TableCell>{formatDate(batch.updatedAt)}</TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <Button size="small" onClick={() => onOpen(batch)} disabled={isCurrent}>Abrir</Button>
+                      <IconButton aria-label={`Duplicar ${batch.name}`} size="small" onClick={() => onDuplicate(batch)}>
+                        <ContentCopyIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton aria-label={`Eliminar ${batch.name}`} size="small" onClick={() => onDelete(batch)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </Box>
+    </Modal>
+  );
+};
+
+export default BatchesModal;
@@ -0,0 +1,150 @@
+import React, { useState } from "react";
+import {
+  Modal, Box, Typography, TextField, Button, IconButton,
+  Table, TableHead, TableBody, TableRow, TableCell,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import DeleteIcon from "@mui/icons-material/Delete";
+import { CatalogProduct } from "../types";
+import { catalogKey, searchCatalog, upsertProducts } from "../catalog";
+import { SPREADSHEET_EXTENSIONS } from "../parsers/spreadsheet";
+import FileDropZone from "./FileDropZone";
+
+interface Props {
+  open: boolean;
+  products: CatalogProduct[];
+  onClose: () => void;
+  onChange: (products: CatalogProduct[]) => void;
+  /** Planilla CSV/XLSX a importar; pasa por la asignación de columnas. */
+  onImportFile: (file: File) => void;
+}
+
+const style = {
+  position: 'absolute' as const,
+  top: '50%',
+  left: '50%',
+  transform: 'translate(-50%, -50%)',
+  width: 'min(900px, 95vw)',
+  maxHeight: '90vh',
+  overflowY: 'auto' as const,
+  bgcolor: 'background.paper',
+  borderRadius: 3,
+  boxShadow: 24,
+  p: 4,
+};
+
+// Con catálogos de miles de productos sólo se muestran los primeros resultados.
+const MAX_ROWS = 100;
+
+/** Catálogo local de productos: importar, buscar, agregar, editar y eliminar. */
+const CatalogModal: React.FC<Props> = ({ open, products, onClose, onChange, onImportFile }) => {
+  const [query, setQuery] = useState("");
+  const [newCode, setNewCode] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+
+  const matches = searchCatalog(products, query, MAX_ROWS + 1);
+
+  const handleAdd = () => {
+    if (!newCode.trim() || !newDescription.trim()) return;
+    onChange(upsertProducts(products, [{ code: newCode, description: newDescription.trim() }]));
+    setNewCode("");
+    setNewDescription("");
+  };
+
+  const handleDescriptionChange = (product: CatalogProduct, description: string) => {
+    if (!description.trim() || description === product.description) return;
+    onChange(upsertProducts(products, [{ code: product.code, description: description.trim() }]));
+  };
+
+  const handleDelete = (product: CatalogProduct) => {
+    const key = catalogKey(product.code);
+    onChange(products.filter(p => catalogKey(p.code) !== key));
+  };
+
+  return (
+    <Modal open={open} onClose={onClose}>
+      <Box sx={style}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+          <Typography variant="h6" fontWeight={700} color="#388E3C">
+            Catálogo de productos ({products.length})
+          </Typography>
+          <IconButton aria-label="Cerrar" onClick={onClose}><CloseIcon /></IconButton>
+        </Box>
+
+        <FileDropZone accept={SPREADSHEET_EXTENSIONS} onFile={onImportFile} />
+
+        <Box display="flex" gap={2} alignItems="center" mt={3} mb={2}>
+          <TextField label="Código" size="small" value={newCode} onChange={e => setNewCode(e.target.value)} sx={{ width: 160 }} />
+          <TextField
+            label="Descripción"
+            size="small"
+            value={newDescription}
+            onChange={e => setNewDescription(e.target.value)}
+            onKeyDown={e => { if (e.key === "Enter") handleAdd(); }}
+            sx={{ flex: 1 }}
+          />
+          <Button variant="contained" color="success" onClick={handleAdd} disabled={!newCode.trim() || !newDescription.trim()}>
+            Agregar
+          </Button>
+        </Box>
+
+        <TextField
+          label="Buscar por código o descripción"
+          size="small"
+          fullWidth
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          sx={{ mb: 1 }}
+        />
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Código</TableCell>
+              <TableCell>Descripción</TableCell>
+              <TableCell>Otros datos</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {matches.slice(0, MAX_ROWS).map(product => (
+              <TableRow key={product.code}>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{product.code}</TableCell>
+                <TableCell>
+                  {/* Se guarda al salir del campo para no reescribir el catálogo en cada tecla. */}
+                  <TextField
+                    key={`${product.code}-${product.updatedAt}`}
+                    size="small"
+                    variant="standard"
+                    fullWidth
+                    defaultValue={product.description}
+                    onBlur={e => handleDescriptionChange(product, e.target.value)}
+                  />
+                </TableCell>
+                <TableCell sx={{ fontSize: 12, color: '#666' }}>
+                  {Object.entries(product.fields ?? {}).map(([name, value]) => `${name}: ${value}`).join(" · ")}
+                </TableCell>
+                <TableCell align="right">
+                  <IconButton aria-label={`Eliminar ${product.code}`} size="small" onClick={() => handleDelete(product)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {matches.length > MAX_ROWS && (
+          <Typography variant="caption" sx={{ color: '#666' }}>
+            Se muestran los primeros {MAX_ROWS} resultados; refine la búsqueda para ver otros.
+          </Typography>
+        )}
+        {products.length === 0 && (
+          <Typography color="text.secondary" sx={{ mt: 2 }}>
+            El catálogo está vacío. Importe una planilla o procese un pegado con descripciones.
+          </Typography>
+        )}
+      </Box>
+    </Modal>
+  );
+};
+
+export default CatalogModal;
@@ -0,0 +1,145 @@
+import React from "react";
+import { Box, Button, Checkbox, FormControlLabel, MenuItem, TextField, Typography } from "@mui/material";
+import { ChunkField, ChunkMode, ChunkOptions, LabelData } from "../types";
+import { CHUNK_FIELDS, CHUNK_FIELD_LABELS, CHUNK_MODE_LABELS, OutputChunk } from "../utils/chunks";
+
+interface ChunkPanelProps {
+  options: ChunkOptions;
+  onOptionsChange: (options: ChunkOptions) => void;
+  /** Lista completa, para elegir desde qué producto se reanuda. */
+  labels: LabelData[];
+  resumeFromId: string | null;
+  onResumeFromChange: (id: string | null) => void;
+  chunks: OutputChunk[];
+  printed: Set<string>;
+  onTogglePrinted: (key: string, printed: boolean) => void;
+  onDownloadChunk: (index: number) => void;
+  onPrintChunk: (index: number) => void;
+  onDownloadPending: () => void;
+  onPrintPending: () => void;
+  processing: boolean;
+}
+
+/**
+ * Trabajo dividido en partes para poder retomar la impresión: cada parte se
+ * descarga o se envía por separado y se marca como impresa. También permite
+ * volver a generar sólo desde un producto en adelante.
+ */
+const ChunkPanel: React.FC<ChunkPanelProps> = ({
+  options, onOptionsChange, labels, resumeFromId, onResumeFromChange, chunks, printed,
+  onTogglePrinted, onDownloadChunk, onPrintChunk, onDownloadPending, onPrintPending, processing,
+}) => {
+  const resumeIndex = labels.findIndex(label => label.id === resumeFromId);
+  const active = options.mode !== "none" || resumeIndex >= 0;
+  const pending = chunks.filter(chunk => !printed.has(chunk.key));
+  const pendingLabels = pending.reduce((sum, chunk) => sum + chunk.labelCount, 0);
+
+  return (
+    <Box sx={{ mb: 3, p: 2, borderRadius: 2, border: '1.5px solid #A5D6A7', background: '#fff' }}>
+      <Box display="flex" gap={2} alignItems="center" flexWrap="wrap">
+        <Typography fontWeight={700} color="#388E3C">Dividir el trabajo</Typography>
+        <TextField
+          select
+          size="small"
+          label="Partes"
+          value={options.mode}
+          onChange={e => onOptionsChange({ ...options, mode: e.target.value as ChunkMode })}
+          sx={{ minWidth: 200 }}
+        >
+          {(Object.keys(CHUNK_MODE_LABELS) as ChunkMode[]).map(mode => (
+            <MenuItem key={mode} value={mode}>{CHUNK_MODE_LABELS[mode]}</MenuItem>
+          ))}
+        </TextField>
+        {(options.mode === "labels" || options.mode === "products") && (
+          <TextField
+            type="number"
+            size="small"
+            label={options.mode === "labels" ? "Etiquetas por parte" : "Productos por parte"}
+            value={options.size}
+            inputProps={{ min: 1 }}
+            onChange={e => {
+              const size = parseInt(e.target.value, 10);
+              if (!isNaN(size) && size > 0) onOptionsChange({ ...options, size });
+            }}
+            sx={{ width: 170 }}
+          />
+        )}
+        {options.mode === "field" && (
+          <TextField
+            select
+            size="small"
+            label="Columna"
+            value={options.field}
+            onChange={e => onOptionsChange({ ...options, field: e.target.value as ChunkField })}
+            sx={{ minWidth: 200 }}
+          >
+            {CHUNK_FIELDS.map(field => <MenuItem key={field} value={field}>{CHUNK_FIELD_LABELS[field]}</MenuItem>)}
+          </TextField>
+        )}
+        <TextField
+          select
+          size="small"
+          label="Desde el producto"
+          value={resumeIndex >= 0 ? resumeFromId : ""}
+          onChange={e => onResumeFromChange(e.target.value || null)}
+          sx={{ minWidth: 260, maxWidth: 360 }}
+        >
+          <MenuItem value="">Desde el principio</MenuItem>
+          {labels.map((label, index) => (
+            <MenuItem key={label.id} value={label.id}>
+              {index + 1}. {label.code} · {label.description}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Box>
+      {active && (
+        <Box mt={1.5}>
+          {resumeIndex > 0 && (
+            <Typography sx={{ fontSize: 13, color: '#E65100', fontWeight: 600, mb: 1 }}>
+              Se omiten los {resumeIndex} productos anteriores a {labels[resumeIndex].code}.
+            </Typography>
+          )}
+          {chunks.map((chunk, index) => {
+            const done = printed.has(chunk.key);
+            const first = chunk.labels[0];
+            const last = chunk.labels[chunk.labels.length - 1];
+            return (
+              <Box key={chunk.key} display="flex" gap={1.5} alignItems="center" sx={{ fontSize: 14, py: 0.5, borderTop: '1px solid #eee' }}>
+                <FormControlLabel
+                  control={<Checkbox size="small" color="success" checked={done} onChange={e => onTogglePrinted(chunk.key, e.target.checked)} />}
+                  label="Impresa"
+                  sx={{ mr: 0, minWidth: 100, '& .MuiFormControlLabel-label': { fontSize: 13 } }}
+                />
+                <Box sx={{ flex: 1, color: done ? '#888' : '#222' }}>
+                  <b>Parte {index + 1}</b> · {chunk.title} · {chunk.labels.length} productos, {chunk.labelCount} etiquetas
+                  <Box sx={{ fontSize: 12, color: '#888' }}>
+                    {first.code}{last !== first ? ` … ${last.code}` : ""}
+                  </Box>
+                </Box>
+                <Button size="small" variant="outlined" color="success" disabled={processing} onClick={() => onDownloadChunk(index)}>
+                  Descargar
+                </Button>
+                <Button size="small" color="success" disabled={processing} onClick={() => onPrintChunk(index)}>
+                  Imprimir
+                </Button>
+              </Box>
+            );
+          })}
+          <Box display="flex" gap={1.5} alignItems="center" justifyContent="flex-end" flexWrap="wrap" mt={1}>
+            <Typography sx={{ fontSize: 14, color: '#388E3C', fontWeight: 600 }}>
+              Pendientes: {pending.length} de {chunks.length} partes, {pendingLabels} etiquetas
+            </Typography>
+            <Button size="small" variant="contained" color="success" disabled={processing || pending.length === 0} onClick={onDownloadPending}>
+              Descargar ZIP
+            </Button>
+            <Button size="small" variant="outlined" color="success" disabled={processing || pending.length === 0} onClick={onPrintPending}>
+              Enviar en orden
+            </Button>
+          </Box>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ChunkPanel;
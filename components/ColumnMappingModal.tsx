@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Modal, Box, Typography, TextField, Button, IconButton, MenuItem, Checkbox, FormControlLabel,
+  Table, TableHead, TableBody, TableRow, TableCell,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import { ColumnMapping, Delimiter, MappedField, QuantityRule, QuantityRuleKind } from "../types";
+import { COUNT_FIELDS, EXTRA_FIELDS, FIELD_LABELS, PRICE_FIELDS, TRACE_FIELDS, emptyColumns, guessMapping } from "../parsers/columns";
+import { SourceRows, detectDelimiter, parseDelimitedLines } from "../parsers/delimited";
+import { SheetData } from "../parsers/spreadsheet";
+import { DEFAULT_QUANTITY_RULE, QUANTITY_RULE_LABELS, RULE_FIELDS, quantityRuleIssues } from "../utils/quantity";
+
+/** Origen de los datos: texto pegado (se elige el separador) u hojas de un archivo. */
+export type MappingSource =
+  | { kind: "text"; text: string }
+  | { kind: "sheets"; fileName: string; sheets: SheetData[] };
+
+interface Props {
+  open: boolean;
+  source: MappingSource;
+  /** Etiquetas (código obligatorio) o catálogo (código y descripción, sin cantidad). */
+  purpose?: "labels" | "catalog";
+  onClose: () => void;
+  /** `lines` es la línea de origen de cada fila, para el informe de importación. */
+  onConfirm: (rows: string[][], mapping: ColumnMapping, lines: number[]) => void;
+}
+
+const style = {
+  position: 'absolute' as const,
+  top: '50%',
+  left: '50%',
+  transform: 'translate(-50%, -50%)',
+  width: 'min(960px, 95vw)',
+  maxHeight: '90vh',
+  overflowY: 'auto' as const,
+  bgcolor: 'background.paper',
+  borderRadius: 3,
+  boxShadow: 24,
+  p: 4,
+};
+
+const DELIMITER_LABELS: Record<Delimiter, string> = { "\t": "Tabulador", ";": "Punto y coma", ",": "Coma" };
+const FIELD_COLORS: Record<MappedField, string> = {
+  code: "#C8E6C9",
+  description: "#FFF9C4",
+  quantity: "#BBDEFB",
+  price: "#F8BBD0",
+  unit: "#E1BEE7",
+  unitPrice: "#D1C4E9",
+  promoPrice: "#FFCCBC",
+  promoUntil: "#FFE0B2",
+  gtin: "#B2DFDB",
+  lot: "#B2EBF2",
+  expiry: "#FFCDD2",
+  units: "#DCEDC8",
+  packSize: "#F0F4C3",
+  pallets: "#D7CCC8",
+  boxes: "#CFD8DC",
+  group: "#F5F5F5",
+};
+const PREVIEW_ROWS = 5;
+
+// Columnas de precio, trazabilidad, cálculo de cantidad y agrupación: nunca obligatorias y sin uso en el catálogo.
+const OPTIONAL_FIELDS: MappedField[] = [...PRICE_FIELDS, ...TRACE_FIELDS, ...COUNT_FIELDS, ...EXTRA_FIELDS];
+
+// Límite de la regla a partir del texto del campo: vacío lo quita.
+const parseLimit = (text: string): number | undefined => {
+  const value = parseInt(text, 10);
+  return isNaN(value) || value < 0 ? undefined : value;
+};
+const isOptionalField = (field: MappedField) => OPTIONAL_FIELDS.includes(field);
+
+/**
+ * Paso de asignación de columnas: muestra las primeras filas pegadas o de la
+ * hoja elegida, propone
+ * qué columna es el código, la descripción y la cantidad, y deja corregirlo.
+ * Para etiquetas la descripción es opcional: sin ella se toma del catálogo,
+ * las de precio, unidad y oferta alimentan la plantilla de precio y las de
+ * GTIN, lote y vencimiento el código GS1-128. La regla de cantidad calcula
+ * las etiquetas a partir de unidades y bultos o de pallets y cajas.
+ */
+const ColumnMappingModal: React.FC<Props> = ({ open, source, purpose = "labels", onClose, onConfirm }) => {
+  const isCatalog = purpose === "catalog";
+  const fields = (Object.keys(FIELD_LABELS) as MappedField[]).filter(
+    field => !isCatalog || (field !== "quantity" && !isOptionalField(field))
+  );
+  const [delimiter, setDelimiter] = useState<Delimiter>("\t");
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping>({ hasHeader: true, columns: emptyColumns() });
+
+  const sourceRowsFor = (sourceDelimiter: Delimiter, sheet: number): SourceRows =>
+    source.kind === "text" ? parseDelimitedLines(source.text, sourceDelimiter) : source.sheets[sheet] ?? { rows: [], lines: [] };
+  const rowsFor = (sourceDelimiter: Delimiter, sheet: number): string[][] => sourceRowsFor(sourceDelimiter, sheet).rows;
+
+  const { rows, lines } = useMemo(() => sourceRowsFor(delimiter, sheetIndex), [source, delimiter, sheetIndex]);
+  const width = Math.max(0, ...rows.slice(0, 50).map(row => row.length));
+
+  useEffect(() => {
+    if (!open) return;
+    const detected = source.kind === "text" ? detectDelimiter(source.text) : "\t";
+    // Primera hoja con datos: los libros suelen traer hojas vacías o de portada.
+    const firstSheet = source.kind === "sheets" ? Math.max(0, source.sheets.findIndex(sheet => sheet.rows.length > 0)) : 0;
+    setDelimiter(detected);
+    setSheetIndex(firstSheet);
+    setMapping(guessMapping(rowsFor(detected, firstSheet)));
+  }, [open, source]);
+
+  const handleDelimiterChange = (value: Delimiter) => {
+    setDelimiter(value);
+    setMapping(guessMapping(rowsFor(value, sheetIndex)));
+  };
+
+  const handleSheetChange = (index: number) => {
+    setSheetIndex(index);
+    setMapping(guessMapping(rowsFor(delimiter, index)));
+  };
+
+  const setColumn = (field: MappedField, value: string) => {
+    setMapping(current => ({ ...current, columns: { ...current.columns, [field]: value === "" ? null : Number(value) } }));
+  };
+
+  const columnName = (index: number) =>
+    mapping.hasHeader && rows[0]?.[index] ? rows[0][index] : `Columna ${index + 1}`;
+
+  const fieldOfColumn = (index: number) =>
+    fields.find(field => mapping.columns[field] === index);
+
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows;
+  const canConfirm = mapping.columns.code !== null && (!isCatalog || mapping.columns.description !== null) && dataRows.length > 0;
+
+  const rule = mapping.quantityRule ?? DEFAULT_QUANTITY_RULE;
+  const setRule = (changes: Partial<QuantityRule>) => {
+    setMapping(current => ({ ...current, quantityRule: { ...(current.quantityRule ?? DEFAULT_QUANTITY_RULE), ...changes } }));
+  };
+  // Pallets y cajas se calculan con cualquiera de las dos; unidades y bultos necesitan ambas.
+  const unassigned = RULE_FIELDS[rule.kind].filter(field => mapping.columns[field] === null);
+  const missingColumns = rule.kind === "palletsBoxes" ? unassigned.length === 2 : unassigned.length > 0;
+  const ruleWarnings = [...quantityRuleIssues(rule)];
+  if (missingColumns) {
+    const names = rule.kind === "palletsBoxes" ? "la columna Pallets o Cajas" : unassigned.map(field => FIELD_LABELS[field]).join(" y ");
+    ruleWarnings.push(`Asigne ${names} para calcular la cantidad.`);
+  }
+
+  const optionalLabel = (field: MappedField) =>
+    field === "quantity" || isOptionalField(field) ? " (opcional)" : field === "description" && !isCatalog ? " (opcional: catálogo)" : "";
+  const emptyOption = (field: MappedField) =>
+    field === "quantity" ? (rule.kind === "column" ? "Sin columna (1 etiqueta)" : "Sin columna (se calcula)")
+      : field === "description" && !isCatalog ? "Sin columna (del catálogo)"
+      : isOptionalField(field) ? "Sin columna"
+      : "Sin asignar";
+
+  return (
+    <Modal open={open} onClose={onClose}>
+      <Box sx={style}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+          <Typography variant="h6" fontWeight={700}>{isCatalog ? "Importar Catálogo" : "Asignar Columnas"}</Typography>
+          <IconButton onClick={onClose}>
+            <CloseIcon />
+          </IconButton>
+        </Box>
+        <Box display="flex" gap={2} alignItems="center" flexWrap="wrap" mb={2}>
+          {source.kind === "text" ? (
+            <TextField select size="small" label="Separador" value={delimiter} onChange={e => handleDelimiterChange(e.target.value as Delimiter)} sx={{ minWidth: 150 }}>
+              {(Object.keys(DELIMITER_LABELS) as Delimiter[]).map(d => <MenuItem key={d} value={d}>{DELIMITER_LABELS[d]}</MenuItem>)}
+            </TextField>
+          ) : (
+            <TextField select size="small" label={`Hoja de ${source.fileName}`} value={sheetIndex} onChange={e => handleSheetChange(Number(e.target.value))} sx={{ minWidth: 220 }}>
+              {source.sheets.map((sheet, i) => <MenuItem key={i} value={i}>{sheet.name} ({sheet.rows.length} filas)</MenuItem>)}
+            </TextField>
+          )}
+          <FormControlLabel
+            control={<Checkbox color="success" checked={mapping.hasHeader} onChange={e => setMapping({ ...mapping, hasHeader: e.target.checked })} />}
+            label="La primera fila es encabezado"
+          />
+        </Box>
+        <Box display="flex" gap={2} flexWrap="wrap" mb={3}>
+          {fields.map(field => (
+            <TextField
+              key={field}
+              select
+              size="small"
+              label={FIELD_LABELS[field] + optionalLabel(field)}
+              value={mapping.columns[field] ?? ""}
+              onChange={e => setColumn(field, e.target.value)}
+              sx={{ minWidth: 220, '& .MuiInputBase-root': { background: FIELD_COLORS[field] } }}
+            >
+              <MenuItem value="">{emptyOption(field)}</MenuItem>
+              {Array.from({ length: width }, (_, i) => <MenuItem key={i} value={i}>{columnName(i)}</MenuItem>)}
+            </TextField>
+          ))}
+        </Box>
+        {!isCatalog && (
+          <Box mb={3}>
+            <Box display="flex" gap={2} alignItems="center" flexWrap="wrap">
+              <TextField
+                select
+                size="small"
+                label="Cantidad de etiquetas"
+                value={rule.kind}
+                onChange={e => setRule({ kind: e.target.value as QuantityRuleKind })}
+                sx={{ minWidth: 280 }}
+              >
+                {(Object.keys(QUANTITY_RULE_LABELS) as QuantityRuleKind[]).map(kind => (
+                  <MenuItem key={kind} value={kind}>{QUANTITY_RULE_LABELS[kind]}</MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                label="Mínimo"
+                type="number"
+                size="small"
+                value={rule.min ?? ""}
+                inputProps={{ min: 0 }}
+                onChange={e => setRule({ min: parseLimit(e.target.value) })}
+                sx={{ width: 110 }}
+              />
+              <TextField
+                label="Máximo"
+                type="number"
+                size="small"
+                value={rule.max ?? ""}
+                inputProps={{ min: 0 }}
+                onChange={e => setRule({ max: parseLimit(e.target.value) })}
+                sx={{ width: 110 }}
+              />
+            </Box>
+            {ruleWarnings.map(warning => (
+              <Typography key={warning} variant="caption" component="div" sx={{ color: '#d32f2f', mt: 0.5 }}>{warning}</Typography>
+            ))}
+          </Box>
+        )}
+        <Box sx={{ overflowX: 'auto', mb: 3 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                {Array.from({ length: width }, (_, i) => {
+                  const field = fieldOfColumn(i);
+                  return (
+                    <TableCell key={i} sx={{ fontWeight: 700, background: field ? FIELD_COLORS[field] : undefined, whiteSpace: 'nowrap' }}>
+                      {columnName(i)}{field && ` → ${FIELD_LABELS[field]}`}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {dataRows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                <TableRow key={r}>
+                  {Array.from({ length: width }, (_, i) => (
+                    <TableCell key={i} sx={{ background: fieldOfColumn(i) ? FIELD_COLORS[fieldOfColumn(i)!] + '66' : undefined, whiteSpace: 'pre-wrap' }}>
+                      {row[i] ?? ""}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {dataRows.length > PREVIEW_ROWS && (
+            <Typography variant="caption" sx={{ color: '#666' }}>… y {dataRows.length - PREVIEW_ROWS} filas más.</Typography>
+          )}
+        </Box>
+        {!canConfirm && (
+          <Typography color="error" sx={{ mb: 2 }}>
+            {isCatalog ? "Asigne las columnas de código y descripción." : "Asigne al menos la columna de código."}
+          </Typography>
+        )}
+        <Box display="flex" justifyContent="flex-end" gap={2}>
+          <Button variant="outlined" color="inherit" onClick={onClose}>Cancelar</Button>
+          <Button variant="contained" color="success" disabled={!canConfirm} onClick={() => onConfirm(rows, mapping, lines)}>
+            Importar {dataRows.length} filas
+          </Button>
+        </Box>
+      </Box>
+    </Modal>
+  );
+};
+
+export default ColumnMappingModal;
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from "react";
+import {
+  Modal, Box, Typography, Button, MenuItem, TextField, Radio, RadioGroup, FormControlLabel,
+  Table, TableHead, TableBody, TableRow, TableCell,
+} from "@mui/material";
+import { DuplicateAction, DuplicatePolicy } from "../types";
+import { DuplicateGroup, applyDuplicatePolicy } from "../utils/duplicates";
+
+interface Props {
+  open: boolean;
+  /** "add" al agregar etiquetas a la lista; "consolidate" para la lista entera. */
+  mode: "add" | "consolidate";
+  groups: DuplicateGroup[];
+  initialPolicy: DuplicatePolicy;
+  onCancel: () => void;
+  onApply: (policy: DuplicatePolicy) => void;
+}
+
+const style = {
+  position: 'absolute' as const,
+  top: '50%',
+  left: '50%',
+  transform: 'translate(-50%, -50%)',
+  width: 'min(900px, 95vw)',
+  maxHeight: '90vh',
+  overflowY: 'auto' as const,
+  bgcolor: 'background.paper',
+  borderRadius: 3,
+  boxShadow: 24,
+  p: 4,
+};
+
+const ACTION_LABELS: Record<DuplicateAction, string> = {
+  merge: "Combinar (sumar cantidades)",
+  separate: "Mantener separadas",
+  replace: "Reemplazar (quedan los datos nuevos)",
+};
+
+/**
+ * Resolución de códigos repetidos: acción y descripción ganadora para todos,
+ * con la posibilidad de elegir la descripción código por código.
+ */
+const DuplicatesModal: React.FC<Props> = ({ open, mode, groups, initialPolicy, onCancel, onApply }) => {
+  const [policy, setPolicy] = useState<DuplicatePolicy>(initialPolicy);
+  const consolidating = mode === "consolidate";
+
+  useEffect(() => {
+    if (open) setPolicy({ ...initialPolicy, action: consolidating && initialPolicy.action === "separate" ? "merge" : initialPolicy.action, overrides: {} });
+  }, [open, initialPolicy, consolidating]);
+
+  const actions: DuplicateAction[] = consolidating ? ["merge", "replace"] : ["merge", "separate", "replace"];
+  const descriptionLabels = consolidating
+    ? { existing: "La primera que aparece", incoming: "La última que aparece" }
+    : { existing: "La que ya está en la lista", incoming: "La nueva" };
+
+  const defaultDescription = (group: DuplicateGroup) => {
+    const all = [...group.existing, ...group.incoming];
+    return (policy.description === "existing" ? all[0] : all[all.length - 1]).description;
+  };
+
+  const setOverride = (key: string, description: string) =>
+    setPolicy(current => ({ ...current, overrides: { ...current.overrides, [key]: description } }));
+
+  return (
+    <Modal open={open} onClose={consolidating ? onCancel : undefined}>
+      <Box sx={style}>
+        <Typography variant="h6" fontWeight={700} mb={1}>
+          {consolidating ? "Consolidar lista" : "Códigos repetidos"}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          {consolidating
+            ? `${groups.length} códigos aparecen más de una vez en la lista.`
+            : `${groups.length} de los códigos que se agregan ya están en la lista o vienen repetidos.`}
+        </Typography>
+
+        <Box display="flex" gap={6} flexWrap="wrap" mb={2}>
+          <Box>
+            <Typography fontWeight={600}>Acción</Typography>
+            <RadioGroup value={policy.action} onChange={e => setPolicy({ ...policy, action: e.target.value as DuplicateAction })}>
+              {actions.map(action => (
+                <FormControlLabel key={action} value={action} control={<Radio color="success" size="small" />} label={ACTION_LABELS[action]} />
+              ))}
+            </RadioGroup>
+          </Box>
+          {policy.action !== "separate" && (
+            <Box>
+              <Typography fontWeight={600}>Si la descripción difiere, gana</Typography>
+              <RadioGroup
+                value={policy.description}
+                onChange={e => setPolicy({ ...policy, description: e.target.value as DuplicatePolicy["description"], overrides: {} })}
+              >
+                <FormControlLabel value="existing" control={<Radio color="success" size="small" />} label={descriptionLabels.existing} />
+                <FormControlLabel value="incoming" control={<Radio color="success" size="small" />} label={descriptionLabels.incoming} />
+              </RadioGroup>
+            </Box>
+          )}
+        </Box>
+
+        <Table size="small" sx={{ mb: 3 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell>Código</TableCell>
+              <TableCell>Cantidades</TableCell>
+              <TableCell>Descripción</TableCell>
+              <TableCell>Resultado</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {groups.map(group => {
+              const conflict = group.descriptions.length > 1;
+              const result = applyDuplicatePolicy(group.existing, group.incoming, policy);
+              return (
+                <TableRow key={group.key} sx={{ background: conflict ? '#FFF8E1' : undefined }}>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{group.code}</TableCell>
+                  <TableCell>
+                    {group.existing.map(l => l.quantity).join(" + ")}
+                    {group.existing.length > 0 && " ← "}
+                    {group.incoming.map(l => l.quantity).join(" + ")}
+                  </TableCell>
+                  <TableCell>
+                    {conflict && policy.action !== "separate" ? (
+                      <TextField
+                        select
+                        size="small"
+                        variant="standard"
+                        value={policy.overrides?.[group.key] ?? defaultDescription(group)}
+                        onChange={e => setOverride(group.key, e.target.value)}
+                        sx={{ minWidth: 260 }}
+                      >
+                        {group.descriptions.map(d => <MenuItem key={d} value={d}>{d}</MenuItem>)}
+                      </TextField>
+                    ) : (
+                      group.descriptions.join(" / ")
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {policy.action === "separate"
+                      ? `${result.length} etiquetas separadas`
+                      : result.map(l => l.quantity).join(" / ")}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <Box display="flex" justifyContent="flex-end" gap={2}>
+          {consolidating && <Button variant="outlined" color="inherit" onClick={onCancel}>Cancelar</Button>}
+          <Button variant="contained" color="success" onClick={() => onApply(policy)}>
+            {consolidating ? "Consolidar" : "Aplicar"}
+          </Button>
+        </Box>
+      </Box>
+    </Modal>
+  );
+};
+
+export default DuplicatesModal;
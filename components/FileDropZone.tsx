@@ -0,0 +1,75 @@
+import React, { useRef, useState } from "react";
+import { UploadIcon } from "./Icons";
+
+interface FileDropZoneProps {
+  /** Extensiones aceptadas por el selector de archivos, con punto. */
+  accept: string[];
+  disabled?: boolean;
+  onFile: (file: File) => void;
+}
+
+/**
+ * Zona para soltar un archivo o hacer clic y elegirlo. Sólo entrega el primer
+ * archivo; la validación del tipo la hace quien lo recibe.
+ */
+const FileDropZone: React.FC<FileDropZoneProps> = ({ accept, disabled, onFile }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file && !disabled) onFile(file);
+  };
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      aria-label="Importar archivo"
+      aria-disabled={disabled}
+      onClick={() => !disabled && inputRef.current?.click()}
+      onKeyDown={e => {
+        if ((e.key === "Enter" || e.key === " ") && !disabled) inputRef.current?.click();
+      }}
+      onDragOver={e => {
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      style={{
+        border: `2px dashed ${dragging ? '#388E3C' : '#A5D6A7'}`,
+        background: dragging ? '#E8F5E9' : '#FAFFF7',
+        borderRadius: 8,
+        padding: 20,
+        marginTop: 16,
+        textAlign: 'center',
+        color: '#388E3C',
+        fontWeight: 600,
+        cursor: disabled ? 'not-allowed' : 'pointer',
+        opacity: disabled ? 0.7 : 1,
+        transition: 'background 0.2s, border-color 0.2s',
+      }}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept.join(",")}
+        style={{ display: 'none' }}
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) onFile(file);
+          e.target.value = "";
+        }}
+      />
+      <UploadIcon className="h-6 w-6" />
+      <div style={{ marginTop: 6 }}>
+        Arrastra aquí un archivo ({accept.join(", ")}) o haz clic para elegirlo
+      </div>
+    </div>
+  );
+};
+
+export default FileDropZone;
@@ -0,0 +1,100 @@
+import React, { useState } from "react";
+import { Box, Typography, TextField, Button, IconButton, Table, TableHead, TableBody, TableRow, TableCell } from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import { ImportReportEntry, RowValues } from "../types";
+
+interface ImportReportProps {
+  entries: ImportReportEntry[];
+  /** Reintenta una fila rechazada con los valores corregidos. */
+  onRetry: (entry: ImportReportEntry, values: RowValues) => void;
+  onDismiss: () => void;
+}
+
+// Fila rechazada con sus valores editables.
+const RejectedRow: React.FC<{ entry: ImportReportEntry; onRetry: ImportReportProps["onRetry"] }> = ({ entry, onRetry }) => {
+  const [values, setValues] = useState<RowValues>(entry.values);
+  const input = (key: keyof RowValues, width: number) => (
+    <TextField
+      size="small"
+      variant="standard"
+      value={values[key]}
+      onChange={e => setValues({ ...values, [key]: e.target.value })}
+      sx={{ width }}
+    />
+  );
+  return (
+    <>
+      <TableCell>{input("code", 110)}</TableCell>
+      <TableCell>{input("description", 260)}</TableCell>
+      <TableCell>{input("quantity", 60)}</TableCell>
+      <TableCell>
+        <Button size="small" variant="outlined" color="success" onClick={() => onRetry(entry, values)}>
+          Reimportar
+        </Button>
+      </TableCell>
+    </>
+  );
+};
+
+/**
+ * Informe de la última importación: cada fila rechazada o ajustada con su
+ * número de fila y el motivo. Las rechazadas se pueden corregir y reimportar.
+ */
+const ImportReport: React.FC<ImportReportProps> = ({ entries, onRetry, onDismiss }) => {
+  if (entries.length === 0) return null;
+  const rejected = entries.filter(e => e.severity === "error").length;
+  const adjusted = entries.length - rejected;
+
+  return (
+    <Box sx={{ mt: 3, border: '1.5px solid #FFB74D', borderRadius: 2, background: '#FFF8E1', p: 2 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography fontWeight={700} sx={{ color: '#E65100' }}>
+          Informe de importación: {rejected} filas rechazadas, {adjusted} con avisos
+        </Typography>
+        <IconButton aria-label="Cerrar informe" size="small" onClick={onDismiss}>
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Box>
+      <Box sx={{ maxHeight: 320, overflowY: 'auto' }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell>Fila</TableCell>
+              <TableCell>Estado</TableCell>
+              <TableCell>Motivo</TableCell>
+              <TableCell>Código</TableCell>
+              <TableCell>Descripción</TableCell>
+              <TableCell>Cant.</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {entries.map(entry => (
+              <TableRow key={entry.id}>
+                <TableCell>{entry.line}</TableCell>
+                <TableCell sx={{ color: entry.severity === "error" ? '#d32f2f' : '#E65100', fontWeight: 700 }}>
+                  {entry.severity === "error" ? "Rechazada" : "Añadida con aviso"}
+                </TableCell>
+                <TableCell sx={{ fontSize: 13 }}>
+                  {entry.reasons.map(reason => <div key={reason}>{reason}</div>)}
+                </TableCell>
+                {entry.severity === "error" ? (
+                  <RejectedRow entry={entry} onRetry={onRetry} />
+                ) : (
+                  <>
+                    <TableCell>{entry.values.code}</TableCell>
+                    <TableCell>{entry.values.description}</TableCell>
+                    <TableCell>{entry.values.quantity}</TableCell>
+                    <TableCell />
+                  </>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Box>
+    </Box>
+  );
+};
+
+export default ImportReport;
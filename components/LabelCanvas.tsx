@@ -0,0 +1,131 @@
+import React from "react";
+import { FieldDirection, FieldValues, LabelLayout, LayoutField } from "../types";
+import { encodeBarcode } from "../utils/barcode";
+import { HUMAN_READABLE_HEIGHT, fieldIssues, fieldSize, fieldTransform, textMetrics } from "../layouts/geometry";
+
+interface LabelCanvasProps {
+  layout: LabelLayout;
+  values: FieldValues;
+  /** Ancho máximo en píxeles de pantalla; el dibujo conserva la proporción en puntos. */
+  maxWidth?: number;
+}
+
+/**
+ * Giro de la vista para que el texto se lea horizontal: se deshace la
+ * dirección del campo de la línea 1.
+ */
+function viewTransform(direction: FieldDirection, width: number, height: number): string {
+  switch (direction) {
+    case 0:
+      return "";
+    case 1:
+      return `translate(${height} 0) rotate(90)`;
+    case 2:
+      return `translate(${width} ${height}) rotate(180)`;
+    case 3:
+      return `translate(0 ${width}) rotate(270)`;
+  }
+}
+
+const BarcodeField: React.FC<{ field: LayoutField; value: string }> = ({ field, value }) => {
+  const modules = encodeBarcode(value, field.barcodeType ?? "code128");
+  if (!modules) {
+    return <rect width={field.height * 2} height={field.height} fill="#FFEBEE" stroke="#d32f2f" strokeDasharray="4 2" />;
+  }
+  const bars: React.ReactNode[] = [];
+  for (let i = 0; i < modules.length; i++) {
+    if (modules[i] !== "1") continue;
+    let run = 1;
+    while (modules[i + run] === "1") run++;
+    bars.push(<rect key={i} x={i * field.width} width={run * field.width} height={field.height} fill="#000" />);
+    i += run - 1;
+  }
+  return (
+    <>
+      {bars}
+      {field.humanReadable !== false && (
+        <text
+          x={(modules.length * field.width) / 2}
+          y={field.height + 2}
+          fontSize={HUMAN_READABLE_HEIGHT - 2}
+          fontFamily="monospace"
+          textAnchor="middle"
+          dominantBaseline="hanging"
+        >
+          {value}
+        </text>
+      )}
+    </>
+  );
+};
+
+const TextField: React.FC<{ field: LayoutField; value: string }> = ({ field, value }) => {
+  if (!value) return null;
+  const { height, charWidth } = textMetrics(field);
+  return (
+    <text
+      fontSize={height}
+      fontFamily="monospace"
+      dominantBaseline="hanging"
+      textLength={value.length * charWidth}
+      lengthAdjust="spacingAndGlyphs"
+    >
+      {value}
+    </text>
+  );
+};
+
+/**
+ * Dibuja una etiqueta en SVG con coordenadas en puntos de impresora, a partir
+ * de los mismos campos, orígenes y rotaciones que usa el generador. Los campos
+ * con problemas (recortados o demasiado largos) se remarcan en rojo.
+ */
+const LabelCanvas: React.FC<LabelCanvasProps> = ({ layout, values, maxWidth = 300 }) => {
+  const { width, height } = layout.labelSize;
+  const fields = layout.fields.filter(field => field.column === 0);
+  const readingDirection = fields.find(field => field.source === "line1")?.direction ?? 0;
+  const rotated = readingDirection % 2 === 1;
+  const viewWidth = rotated ? height : width;
+  const viewHeight = rotated ? width : height;
+
+  return (
+    <svg
+      viewBox={`0 0 ${viewWidth} ${viewHeight}`}
+      width="100%"
+      style={{ maxWidth, background: "#fff", border: "1px solid #ccc", borderRadius: 4 }}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={`Vista previa: ${values.code} ${values.line1} ${values.line2}`}
+    >
+      <g transform={viewTransform(readingDirection, width, height)}>
+        {fields.map((field, index) => {
+          const value = field.source ? values[field.source] : "";
+          const hasIssues = fieldIssues(layout, field, value).length > 0;
+          const size = fieldSize(field, value);
+          return (
+            <g key={index} transform={fieldTransform(field)}>
+              {field.kind === "barcode" && <BarcodeField field={field} value={value} />}
+              {field.kind === "text" && <TextField field={field} value={value} />}
+              {field.kind === "image" && (
+                <rect width={size.length} height={size.thickness} fill="none" stroke="#999" strokeDasharray="3 3" />
+              )}
+              {hasIssues && (
+                <rect
+                  x={-2}
+                  y={-2}
+                  width={Math.max(size.length, field.height) + 4}
+                  height={size.thickness + 4}
+                  fill="none"
+                  stroke="#d32f2f"
+                  strokeWidth={2}
+                />
+              )}
+            </g>
+          );
+        })}
+      </g>
+    </svg>
+  );
+};
+
+export default LabelCanvas;
@@ -1,29 +1,101 @@
 
-import React from "react";
-import { Card, CardContent, Typography, Box, IconButton, TextField } from "@mui/material";
+import React, { useState } from "react";
+import { Card, CardContent, Typography, Box, IconButton, TextField, Button, MenuItem } from "@mui/material";
 import DeleteIcon from "@mui/icons-material/Delete";
-import { LabelData } from "../types";
+import { BarcodeType, LabelData, LabelLayout, OutputOptions } from "../types";
+import { descriptionLines, labelValues, layoutForLabel, layoutHasPrices, layoutHasTrace, lineMaxLengths } from "../layouts";
+import { BARCODE_LABELS, barcodeIssues, completeCheckDigit, gtinBarcodeType, inferBarcodeType } from "../utils/barcode";
+import { labelIssues } from "../layouts/geometry";
+import { prepareValues, substitutionWarnings } from "../utils/encoding";
+import { traceWarnings } from "../utils/gs1";
+import { promoWarnings } from "../utils/price";
+import LabelCanvas from "./LabelCanvas";
+import PriceFields from "./PriceFields";
+import QuantityRuleFields from "./QuantityRuleFields";
+import SerialFields from "./SerialFields";
+import TraceFields from "./TraceFields";
 
 interface LabelCardEditableProps {
   label: LabelData;
+  layout: LabelLayout;
+  outputOptions: OutputOptions;
   onDelete: (id: string) => void;
-  onQuantityChange: (id: string, qty: number) => void;
+  onUpdate: (id: string, changes: Partial<Omit<LabelData, "id">>) => void;
+  /** Resalta la tarjeta, p. ej. al llegar desde el informe de validación. */
+  highlighted?: boolean;
 }
 
+const counterColor = (length: number, max: number) => (length > max ? "#d32f2f" : "#388E3C");
 
-const LabelCardEditable: React.FC<LabelCardEditableProps> = ({ label, onDelete, onQuantityChange }) => {
-  const [line1, line2] = label.description.split("\n").length > 1
-    ? [label.description.split("\n")[0], label.description.split("\n").slice(1).join(" ")]
-    : [label.description, ""];
+/**
+ * Tarjeta de una etiqueta con código, descripción y cantidad editables. Las
+ * dos líneas de la descripción también se editan por separado: escribir en
+ * ellas fija un corte manual, que se guarda en la etiqueta. Los precios y
+ * los datos de lote se muestran si la plantilla los imprime o si la
+ * etiqueta ya los tiene.
+ */
+const LabelCardEditable: React.FC<LabelCardEditableProps> = ({ label, layout, outputOptions, onDelete, onUpdate, highlighted = false }) => {
+  // Mientras se edita una línea se muestra lo tecleado tal cual, sin recortar
+  // espacios; el resto de la tarjeta usa el mismo reparto que el generador.
+  const [draftLines, setDraftLines] = useState<[string, string] | null>(null);
+  const [line1, line2] = draftLines ?? descriptionLines(label, layout);
+  const [max1, max2] = lineMaxLengths(layout);
+  // La vista previa muestra el texto ya adaptado a la página de códigos.
+  const { values, substitutions } = prepareValues(labelValues(label, layout), outputOptions);
+  // Vista previa y avisos con la simbología propia de la etiqueta.
+  const printLayout = layoutForLabel(layout, label);
+  const issues = [
+    ...labelIssues(printLayout, values),
+    ...substitutionWarnings(substitutions),
+    ...promoWarnings(label),
+    ...traceWarnings(label),
+  ];
+  const showPrices = layoutHasPrices(layout)
+    || [label.price, label.unitPrice, label.promoPrice].some(value => value !== undefined);
+  const showTrace = layoutHasTrace(layout) || [label.gtin, label.lot, label.expiry].some(value => value !== undefined);
+  // Sin simbología propia se usa la de la plantilla (o GS1-128 si el código
+  // trae AI); un EAN/UPC válido sólo se sugiere.
+  const automatic = inferBarcodeType(label.code)
+    ?? layout.fields.find(field => field.kind === "barcode" && field.source === "code")?.barcodeType;
+  const suggested = label.barcodeType ? undefined : gtinBarcodeType(label.code);
+  const barcodeType = printLayout.fields.find(field => field.kind === "barcode" && field.source === "code")?.barcodeType;
+  const withCheckDigit = barcodeType ? completeCheckDigit(label.code, barcodeType) : null;
+
+  // El código se recorta al salir del campo y no con cada tecla, para poder
+  // escribir un espacio en medio.
+  const handleCodeBlur = () => {
+    const code = label.code.trim();
+    if (code !== label.code) onUpdate(label.id, { code });
+  };
+
+  // Editar la descripción completa vuelve al corte automático.
+  const handleDescriptionChange = (description: string) =>
+    onUpdate(label.id, { description, lineBreak: undefined });
+
+  const handleLineChange = (first: string, second: string) => {
+    setDraftLines([first, second]);
+    const head = first.trim();
+    const tail = second.trim();
+    onUpdate(label.id, {
+      description: tail ? `${head} ${tail}` : head,
+      lineBreak: head.length > 0 ? head.length : undefined,
+    });
+  };
+
+  const lineFieldEvents = {
+    onFocus: () => setDraftLines(descriptionLines(label, layout)),
+    onBlur: () => setDraftLines(null),
+  };
 
   return (
     <Card
+      id={`label-card-${label.id}`}
       sx={{
         width: 340,
         m: 2,
-        boxShadow: 4,
+        boxShadow: highlighted ? 8 : 4,
         borderRadius: 3,
-        border: "2px solid #4CAF50",
+        border: highlighted ? "2px solid #d32f2f" : "2px solid #4CAF50",
         background: "#fff",
         position: "relative",
         transition: "box-shadow 0.2s, border-color 0.2s",
@@ -32,28 +104,94 @@ const LabelCardEditable: React.FC<LabelCardEditableProps> = ({ label, onDelete,
     >
       <CardContent sx={{ p: 3 }}>
         <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
-          <Typography variant="h6" fontWeight={700} sx={{ flex: 1, color: "#222", fontSize: 20, letterSpacing: 0.5 }}>
-            {line1}
-          </Typography>
+          <TextField
+            label="Código"
+            size="small"
+            value={label.code}
+            onChange={e => onUpdate(label.id, { code: e.target.value })}
+            onBlur={handleCodeBlur}
+            sx={{ flex: 1, '& input': { fontFamily: "monospace", fontWeight: 700, letterSpacing: 1 } }}
+          />
           <IconButton aria-label="Eliminar" onClick={() => onDelete(label.id)} size="small" sx={{ ml: 1, color: "#d32f2f" }}>
             <DeleteIcon />
           </IconButton>
         </Box>
-        {line2 && (
-          <Typography variant="subtitle1" sx={{ mb: 1, color: "#444", fontWeight: 500, fontSize: 16 }}>
-            {line2}
-          </Typography>
+        <TextField
+          label="Descripción"
+          size="small"
+          fullWidth
+          value={label.description}
+          onChange={e => handleDescriptionChange(e.target.value)}
+          sx={{ mb: 1.5 }}
+        />
+        <TextField
+          label="Línea 1 (TX3)"
+          size="small"
+          fullWidth
+          value={line1}
+          onChange={e => handleLineChange(e.target.value, line2)}
+          {...lineFieldEvents}
+          helperText={<span style={{ color: counterColor(line1.trim().length, max1) }}>{line1.trim().length}/{max1}</span>}
+          sx={{ mb: 1, '& .MuiFormHelperText-root': { textAlign: "right", mt: 0 } }}
+        />
+        <TextField
+          label="Línea 2 (TX4)"
+          size="small"
+          fullWidth
+          value={line2}
+          onChange={e => handleLineChange(line1, e.target.value)}
+          {...lineFieldEvents}
+          helperText={<span style={{ color: counterColor(line2.trim().length, max2) }}>{line2.trim().length}/{max2}</span>}
+          sx={{ '& .MuiFormHelperText-root': { textAlign: "right", mt: 0 } }}
+        />
+        {label.lineBreak !== undefined && (
+          <Box display="flex" justifyContent="space-between" alignItems="center">
+            <Typography variant="caption" sx={{ color: "#49864b", fontWeight: 600 }}>Corte manual</Typography>
+            <Button size="small" color="success" onClick={() => onUpdate(label.id, { lineBreak: undefined })}>
+              Corte automático
+            </Button>
+          </Box>
         )}
-        <Box display="flex" flexDirection="column" alignItems="center" my={2}>
-          {/* Simulación visual de código de barras */}
-          <Box sx={{ display: 'flex', flexDirection: 'row', gap: 0.5, mb: 1, mt: 1 }}>
-            {Array.from({ length: 13 }).map((_, i) => (
-              <Box key={i} sx={{ width: i % 3 === 0 ? 5 : 2, height: 38, background: '#111', borderRadius: 1, opacity: i % 4 === 0 ? 0.7 : 1 }} />
+        <Box display="flex" alignItems="center" gap={1} mt={1.5}>
+          {/* Las simbologías que no pueden codificar el código no se ofrecen. */}
+          <TextField
+            select
+            size="small"
+            label="Simbología"
+            value={label.barcodeType ?? ""}
+            onChange={e => onUpdate(label.id, { barcodeType: (e.target.value || undefined) as BarcodeType | undefined })}
+            sx={{ flex: 1 }}
+          >
+            <MenuItem value="">Automática{automatic ? ` (${BARCODE_LABELS[automatic]})` : ""}</MenuItem>
+            {(Object.keys(BARCODE_LABELS) as BarcodeType[]).map(type => (
+              <MenuItem key={type} value={type} disabled={barcodeIssues(label.code, type).length > 0 && type !== label.barcodeType}>
+                {BARCODE_LABELS[type]}
+              </MenuItem>
             ))}
-          </Box>
-          <Typography variant="h4" fontFamily="monospace" fontWeight={700} letterSpacing={2} sx={{ color: "#111", fontSize: 28, mb: 1 }}>
-            {label.code}
-          </Typography>
+          </TextField>
+          {suggested && suggested !== automatic && (
+            <Button size="small" color="success" onClick={() => onUpdate(label.id, { barcodeType: suggested })}>
+              Usar {BARCODE_LABELS[suggested]}
+            </Button>
+          )}
+          {withCheckDigit && (
+            <Button size="small" color="success" onClick={() => onUpdate(label.id, { code: withCheckDigit })}>
+              Agregar dígito {withCheckDigit.slice(-1)}
+            </Button>
+          )}
+        </Box>
+        {showPrices && (
+          <PriceFields label={label} currency={layout.currency} onUpdate={changes => onUpdate(label.id, changes)} />
+        )}
+        {showTrace && <TraceFields label={label} onUpdate={changes => onUpdate(label.id, changes)} />}
+        <SerialFields label={label} onUpdate={changes => onUpdate(label.id, changes)} />
+        <Box display="flex" flexDirection="column" alignItems="center" my={2}>
+          <LabelCanvas layout={printLayout} values={values} maxWidth={290} />
+          {issues.map(issue => (
+            <Typography key={issue} variant="caption" sx={{ color: "#d32f2f", fontWeight: 600, textAlign: "center" }}>
+              {issue}
+            </Typography>
+          ))}
         </Box>
         <Box display="flex" alignItems="center" justifyContent="center" gap={1} mt={2}>
           <Typography variant="body2" sx={{ color: "#388E3C", fontWeight: 600 }}>Cantidad:</Typography>
@@ -61,10 +199,11 @@ const LabelCardEditable: React.FC<LabelCardEditableProps> = ({ label, onDelete,
             type="number"
             size="small"
             value={label.quantity}
-            inputProps={{ min: 1, style: { width: 60, textAlign: "center", fontWeight: 700, color: "#222" } }}
+            inputProps={{ min: 0, style: { width: 60, textAlign: "center", fontWeight: 700, color: "#222" } }}
             onChange={e => {
               const val = parseInt((e.target as HTMLInputElement).value, 10);
-              if (!isNaN(val) && val > 0) onQuantityChange(label.id, val);
+              // 0 es válido, igual que en AddLabelModal: el producto queda en la lista sin imprimirse.
+              if (!isNaN(val) && val >= 0) onUpdate(label.id, { quantity: val });
             }}
             sx={{
               '& .MuiInputBase-root': {
@@ -84,6 +223,16 @@ const LabelCardEditable: React.FC<LabelCardEditableProps> = ({ label, onDelete,
             }}
           />
         </Box>
+        <QuantityRuleFields label={label} onUpdate={changes => onUpdate(label.id, changes)} />
+        <TextField
+          label="Proveedor / sección"
+          size="small"
+          fullWidth
+          value={label.group ?? ""}
+          onChange={e => onUpdate(label.id, { group: e.target.value || undefined })}
+          helperText="Para dividir el trabajo en partes por este dato."
+          sx={{ mt: 1.5 }}
+        />
       </CardContent>
     </Card>
   );
@@ -1,5 +1,6 @@
 import React from "react";
 import { LabelData } from "../types";
+import { splitDescription } from "../utils/text";
 
 interface LabelPreviewProps {
   labels: LabelData[];
@@ -21,25 +22,12 @@ const LabelPreview: React.FC<LabelPreviewProps> = ({ labels }) => {
   const ETB = "␗"; // \x17
   const CAN = "␘"; // \x18
 
-  // Utilidad para dividir la descripción
-  const splitDescription = (description: string, maxLength: number = 25): [string, string] => {
-    const trimmedDesc = description.trim();
-    if (trimmedDesc.length <= maxLength) {
-      return [trimmedDesc, ""];
-    }
-    let splitPos = trimmedDesc.lastIndexOf(" ", maxLength);
-    if (splitPos <= 0) splitPos = maxLength;
-    const line1 = trimmedDesc.substring(0, splitPos).trim();
-    const line2 = trimmedDesc.substring(splitPos).trim();
-    return [line1, line2];
-  };
-
   return (
     <div className="mt-10">
       <h3 className="text-lg font-semibold mb-2">Vista previa de bloques Fingerprint</h3>
       <div className="overflow-x-auto bg-slate-50 rounded p-4 border border-slate-200 text-xs font-mono">
         {labels.map((label, idx) => {
-          const [linea1, linea2] = splitDescription(label.description);
+          const [linea1, linea2] = splitDescription(label.description, 25, label.lineBreak);
           return (
             <div key={label.id} className="mb-4">
               <div className="text-slate-500 mb-1">Etiqueta {idx + 1} ({label.code})</div>
@@ -0,0 +1,294 @@
+import React, { useMemo, useState } from "react";
+import {
+  Box, Button, Checkbox, InputBase, MenuItem, TextField, Typography,
+  Table, TableHead, TableBody, TableRow, TableCell, TableSortLabel,
+} from "@mui/material";
+import { LabelData, LabelLayout } from "../types";
+import { descriptionLines, layoutHasPrices, lineMaxLengths } from "../layouts";
+import { labelKey } from "../utils/duplicates";
+import { removeDiacritics } from "../utils/text";
+import { DEFAULT_QUANTITY_RULE, QuantityComputation, computeQuantity } from "../utils/quantity";
+import { PriceInput } from "./PriceFields";
+
+interface LabelTableProps {
+  labels: LabelData[];
+  layout: LabelLayout;
+  onUpdate: (id: string, changes: Partial<Omit<LabelData, "id">>) => void;
+  /** Aplica un cambio a varias etiquetas como un solo paso de historial. */
+  onBulkUpdate: (ids: string[], update: (label: LabelData) => Partial<Omit<LabelData, "id">>) => void;
+  onDelete: (ids: string[]) => void;
+  onExport: (ids: string[]) => void;
+}
+
+type SortColumn = "code" | "description" | "line1" | "line2" | "price" | "quantity";
+type Filter = "all" | "zero" | "overridden" | "overflow" | "duplicates";
+
+const FILTER_LABELS: Record<Filter, string> = {
+  all: "Todas",
+  zero: "Cantidad 0",
+  overridden: "Cantidad corregida a mano",
+  overflow: "Descripción desborda",
+  duplicates: "Códigos repetidos",
+};
+
+interface Row {
+  label: LabelData;
+  line1: string;
+  line2: string;
+  overflow: boolean;
+  duplicate: boolean;
+  /** Cantidad según la regla de la etiqueta; null si no tiene regla o le faltan datos. */
+  computed: QuantityComputation | null;
+}
+
+const searchText = (text: string) => removeDiacritics(text).toLowerCase();
+
+const cellInput = { fontSize: 14, width: '100%', '& input': { py: 0.25 } };
+
+/**
+ * Vista de tabla para listas largas: búsqueda, orden por columna, filtros y
+ * acciones sobre las filas seleccionadas.
+ */
+const LabelTable: React.FC<LabelTableProps> = ({ labels, layout, onUpdate, onBulkUpdate, onDelete, onExport }) => {
+  const [query, setQuery] = useState("");
+  const [filter, setFilter] = useState<Filter>("all");
+  const [sort, setSort] = useState<{ column: SortColumn; direction: "asc" | "desc" } | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkQuantity, setBulkQuantity] = useState("1");
+  const [factor, setFactor] = useState("2");
+  const [max1, max2] = lineMaxLengths(layout);
+  const showPrices = layoutHasPrices(layout);
+
+  const rows = useMemo<Row[]>(() => {
+    const counts = new Map<string, number>();
+    labels.forEach(label => counts.set(labelKey(label), (counts.get(labelKey(label)) ?? 0) + 1));
+    return labels.map(label => {
+      const [line1, line2] = descriptionLines(label, layout);
+      return {
+        label,
+        line1,
+        line2,
+        overflow: line1.length > max1 || line2.length > max2,
+        duplicate: (counts.get(labelKey(label)) ?? 0) > 1,
+        computed: computeQuantity(label.quantityRule ?? DEFAULT_QUANTITY_RULE, label.counts),
+      };
+    });
+  }, [labels, layout, max1, max2]);
+
+  const visible = useMemo(() => {
+    const words = searchText(query).split(/\s+/).filter(Boolean);
+    const filtered = rows.filter(row => {
+      if (filter === "zero" && row.label.quantity !== 0) return false;
+      if (filter === "overridden" && (!row.computed || row.computed.quantity === row.label.quantity)) return false;
+      if (filter === "overflow" && !row.overflow) return false;
+      if (filter === "duplicates" && !row.duplicate) return false;
+      const text = searchText(`${row.label.code} ${row.label.description}`);
+      return words.every(word => text.includes(word));
+    });
+    if (!sort) return filtered;
+    const value = (row: Row): string | number =>
+      sort.column === "quantity" ? row.label.quantity
+        : sort.column === "price" ? row.label.price ?? -1
+        : sort.column === "line1" ? row.line1
+        : sort.column === "line2" ? row.line2
+        : row.label[sort.column];
+    const sign = sort.direction === "asc" ? 1 : -1;
+    return [...filtered].sort((a, b) => {
+      const va = value(a);
+      const vb = value(b);
+      return sign * (typeof va === "number" && typeof vb === "number"
+        ? va - vb
+        : String(va).localeCompare(String(vb), "es", { numeric: true }));
+    });
+  }, [rows, query, filter, sort]);
+
+  // La selección sólo conserva etiquetas que siguen en la lista.
+  const selectedIds = labels.filter(label => selected.has(label.id)).map(label => label.id);
+  const allVisibleSelected = visible.length > 0 && visible.every(row => selected.has(row.label.id));
+
+  const toggle = (id: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleVisible = () => {
+    setSelected(current => {
+      const next = new Set(current);
+      visible.forEach(row => allVisibleSelected ? next.delete(row.label.id) : next.add(row.label.id));
+      return next;
+    });
+  };
+
+  const handleSort = (column: SortColumn) => {
+    setSort(current =>
+      current?.column === column
+        ? current.direction === "asc" ? { column, direction: "desc" } : null
+        : { column, direction: "asc" }
+    );
+  };
+
+  const handleSetQuantity = () => {
+    const quantity = parseInt(bulkQuantity, 10);
+    if (isNaN(quantity) || quantity < 0) return;
+    onBulkUpdate(selectedIds, () => ({ quantity }));
+  };
+
+  const handleMultiply = () => {
+    const value = parseFloat(factor.replace(",", "."));
+    if (isNaN(value) || value < 0) return;
+    onBulkUpdate(selectedIds, label => ({ quantity: Math.round(label.quantity * value) }));
+  };
+
+  const handleDelete = () => {
+    onDelete(selectedIds);
+    setSelected(new Set());
+  };
+
+  const sortHeader = (column: SortColumn, title: string, align: "left" | "right" = "left") => (
+    <TableCell align={align} sortDirection={sort?.column === column ? sort.direction : false}>
+      <TableSortLabel
+        active={sort?.column === column}
+        direction={sort?.column === column ? sort.direction : "asc"}
+        onClick={() => handleSort(column)}
+      >
+        {title}
+      </TableSortLabel>
+    </TableCell>
+  );
+
+  const counter = (text: string, max: number) => (
+    <Typography variant="caption" sx={{ color: text.length > max ? '#d32f2f' : '#888', ml: 0.5 }}>
+      {text.length}/{max}
+    </Typography>
+  );
+
+  return (
+    <Box sx={{ background: '#fff', border: '1.5px solid #4CAF50', borderRadius: 2, p: 2 }}>
+      <Box display="flex" gap={2} flexWrap="wrap" alignItems="center" mb={2}>
+        <TextField
+          size="small"
+          label="Buscar código o descripción"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          sx={{ minWidth: 260, flex: 1 }}
+        />
+        <TextField select size="small" label="Filtro" value={filter} onChange={e => setFilter(e.target.value as Filter)} sx={{ minWidth: 200 }}>
+          {(Object.keys(FILTER_LABELS) as Filter[]).map(f => <MenuItem key={f} value={f}>{FILTER_LABELS[f]}</MenuItem>)}
+        </TextField>
+        <Typography variant="body2" sx={{ color: '#49864b', fontWeight: 600 }}>
+          {visible.length} de {labels.length} productos
+        </Typography>
+      </Box>
+
+      {selectedIds.length > 0 && (
+        <Box display="flex" gap={1.5} flexWrap="wrap" alignItems="center" mb={2} sx={{ background: '#E8F5E9', borderRadius: 2, p: 1.5 }}>
+          <Typography fontWeight={700} sx={{ color: '#388E3C', mr: 1 }}>{selectedIds.length} seleccionadas</Typography>
+          <TextField size="small" type="number" label="Cantidad" value={bulkQuantity} onChange={e => setBulkQuantity(e.target.value)} inputProps={{ min: 0 }} sx={{ width: 100 }} />
+          <Button size="small" variant="outlined" color="success" onClick={handleSetQuantity}>Fijar cantidad</Button>
+          <TextField size="small" label="Factor" value={factor} onChange={e => setFactor(e.target.value)} sx={{ width: 80 }} />
+          <Button size="small" variant="outlined" color="success" onClick={handleMultiply}>Multiplicar</Button>
+          <Button size="small" variant="contained" color="success" onClick={() => onExport(selectedIds)}>Exportar selección</Button>
+          <Button size="small" variant="outlined" color="error" onClick={handleDelete}>Eliminar</Button>
+          <Button size="small" color="inherit" onClick={() => setSelected(new Set())}>Quitar selección</Button>
+        </Box>
+      )}
+
+      <Box sx={{ maxHeight: '70vh', overflowY: 'auto' }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell padding="checkbox">
+                <Checkbox
+                  color="success"
+                  checked={allVisibleSelected}
+                  indeterminate={!allVisibleSelected && visible.some(row => selected.has(row.label.id))}
+                  onChange={toggleVisible}
+                  inputProps={{ "aria-label": "Seleccionar las filas visibles" }}
+                />
+              </TableCell>
+              {sortHeader("code", "Código")}
+              {sortHeader("description", "Descripción")}
+              {sortHeader("line1", "Línea 1")}
+              {sortHeader("line2", "Línea 2")}
+              {showPrices && sortHeader("price", "Precio", "right")}
+              {sortHeader("quantity", "Cantidad", "right")}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {visible.map(({ label, line1, line2, overflow, duplicate, computed }) => (
+              <TableRow key={label.id} hover selected={selected.has(label.id)}>
+                <TableCell padding="checkbox">
+                  <Checkbox color="success" checked={selected.has(label.id)} onChange={() => toggle(label.id)} />
+                </TableCell>
+                <TableCell sx={{ width: 150, background: duplicate ? '#FFF8E1' : undefined }}>
+                  <InputBase
+                    value={label.code}
+                    onChange={e => onUpdate(label.id, { code: e.target.value })}
+                    onBlur={e => {
+                      // Se recorta al salir de la celda para poder escribir espacios en medio.
+                      const code = e.target.value.trim();
+                      if (code !== label.code) onUpdate(label.id, { code });
+                    }}
+                    sx={{ ...cellInput, fontFamily: 'monospace' }}
+                  />
+                </TableCell>
+                <TableCell>
+                  <InputBase
+                    value={label.description}
+                    onChange={e => onUpdate(label.id, { description: e.target.value, lineBreak: undefined })}
+                    sx={cellInput}
+                  />
+                </TableCell>
+                <TableCell sx={{ whiteSpace: 'nowrap', color: overflow ? '#d32f2f' : undefined }}>
+                  {line1}{counter(line1, max1)}
+                </TableCell>
+                <TableCell sx={{ whiteSpace: 'nowrap', color: overflow ? '#d32f2f' : undefined }}>
+                  {line2}{line2 && counter(line2, max2)}
+                </TableCell>
+                {showPrices && (
+                  <TableCell align="right" sx={{ width: 120 }}>
+                    <PriceInput
+                      variant="standard"
+                      value={label.price}
+                      currency={layout.currency}
+                      onChange={price => onUpdate(label.id, { price })}
+                      InputProps={{ disableUnderline: true }}
+                      inputProps={{ style: { textAlign: 'right', fontSize: 14 } }}
+                    />
+                  </TableCell>
+                )}
+                <TableCell align="right" sx={{ width: 90 }}>
+                  <InputBase
+                    type="number"
+                    value={label.quantity}
+                    inputProps={{ min: 0, style: { textAlign: 'right' } }}
+                    onChange={e => {
+                      const quantity = parseInt(e.target.value, 10);
+                      if (!isNaN(quantity) && quantity >= 0) onUpdate(label.id, { quantity });
+                    }}
+                    sx={{ ...cellInput, fontWeight: 700, background: label.quantity === 0 ? '#FFEBEE' : undefined }}
+                  />
+                  {computed && (
+                    <Typography
+                      variant="caption"
+                      component="div"
+                      title={computed.detail}
+                      sx={{ color: computed.quantity === label.quantity ? '#666' : '#E65100', whiteSpace: 'nowrap' }}
+                    >
+                      {computed.quantity === label.quantity ? "calculada" : `calculada: ${computed.quantity}`}
+                    </Typography>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Box>
+    </Box>
+  );
+};
+
+export default LabelTable;
@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from "react";
+import {
+  Modal, Box, Typography, TextField, Button, IconButton, MenuItem,
+  Table, TableHead, TableBody, TableRow, TableCell,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import DeleteIcon from "@mui/icons-material/Delete";
+import { BarcodeType, CurrencyFormat, FieldDirection, LabelLayout, LayoutField, LayoutFieldSource } from "../types";
+import { DEFAULT_LAYOUTS, layoutHasPrices } from "../layouts";
+import { DEFAULT_CURRENCY, formatPrice } from "../utils/price";
+import { BARCODE_LABELS } from "../utils/barcode";
+
+interface Props {
+  open: boolean;
+  layouts: LabelLayout[];
+  selectedId: string;
+  onClose: () => void;
+  onSave: (layouts: LabelLayout[], selectedId: string) => void;
+}
+
+const style = {
+  position: 'absolute' as const,
+  top: '50%',
+  left: '50%',
+  transform: 'translate(-50%, -50%)',
+  width: 'min(1100px, 95vw)',
+  maxHeight: '90vh',
+  overflowY: 'auto' as const,
+  bgcolor: 'background.paper',
+  borderRadius: 3,
+  boxShadow: 24,
+  p: 4,
+};
+
+const KIND_LABELS = { barcode: "Código de barras", text: "Texto", image: "Imagen" };
+const SOURCE_LABELS: Record<LayoutFieldSource, string> = {
+  code: "Código",
+  line1: "Línea 1",
+  line2: "Línea 2",
+  price: "Precio",
+  unitPrice: "Precio por unidad",
+  promoPrice: "Oferta",
+  promoUntil: "Vigencia oferta",
+  gs1: "GS1 (GTIN, vto., lote)",
+  gs1Text: "GS1 legible",
+  lot: "Lote",
+  expiry: "Vencimiento",
+};
+
+const numberCell = { width: 72, '& input': { textAlign: 'right' as const, py: 0.5 } };
+
+/**
+ * Celda numérica de la tabla de campos. Mientras está vacía o no es un
+ * número el campo conserva su valor anterior, que vuelve al salir de ella.
+ */
+const NumberCell: React.FC<{ value: number | undefined; onChange: (value: number) => void }> = ({ value, onChange }) => {
+  const [text, setText] = useState<string | null>(null);
+  return (
+    <TextField
+      type="number"
+      size="small"
+      variant="standard"
+      value={text ?? value ?? ""}
+      onChange={e => {
+        setText(e.target.value);
+        const parsed = parseFloat(e.target.value);
+        if (!isNaN(parsed)) onChange(parsed);
+      }}
+      onBlur={() => setText(null)}
+      sx={numberCell}
+    />
+  );
+};
+
+/**
+ * Editor de plantillas de etiqueta. Trabaja sobre una copia de la lista y sólo
+ * la devuelve al guardar.
+ */
+const LayoutEditorModal: React.FC<Props> = ({ open, layouts, selectedId, onClose, onSave }) => {
+  const [draft, setDraft] = useState<LabelLayout[]>(layouts);
+  const [currentId, setCurrentId] = useState(selectedId);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(layouts);
+      setCurrentId(selectedId);
+    }
+  }, [open, layouts, selectedId]);
+
+  const current = draft.find(l => l.id === currentId) ?? draft[0];
+  if (!current) return null;
+
+  const updateCurrent = (changes: Partial<LabelLayout>) => {
+    setDraft(list => list.map(l => l.id === current.id ? { ...l, ...changes } : l));
+  };
+
+  const currency = current.currency ?? DEFAULT_CURRENCY;
+  const updateCurrency = (changes: Partial<CurrencyFormat>) => updateCurrent({ currency: { ...currency, ...changes } });
+
+  const updateField = (index: number, changes: Partial<LayoutField>) => {
+    updateCurrent({ fields: current.fields.map((f, i) => i === index ? { ...f, ...changes } : f) });
+  };
+
+  const handleDuplicate = () => {
+    const copy: LabelLayout = {
+      ...structuredClone(current),
+      id: `layout-${Date.now()}`,
+      name: `${current.name} (copia)`,
+      builtIn: false,
+    };
+    setDraft(list => [...list, copy]);
+    setCurrentId(copy.id);
+  };
+
+  const handleDelete = () => {
+    const remaining = draft.filter(l => l.id !== current.id);
+    setDraft(remaining);
+    setCurrentId(remaining[0].id);
+  };
+
+  const handleReset = () => {
+    const original = DEFAULT_LAYOUTS.find(l => l.id === current.id);
+    if (original) updateCurrent(structuredClone(original));
+  };
+
+  const handleAddField = () => {
+    const nextNumber = Math.max(0, ...current.fields.filter(f => f.kind !== "image").map(f => f.number)) + 1;
+    updateCurrent({
+      fields: [
+        ...current.fields,
+        {
+          number: nextNumber,
+          name: `TX${nextNumber}`,
+          kind: "text",
+          column: 0,
+          source: "line1",
+          origin: { x: 10, y: 10 },
+          direction: 1,
+          font: 25,
+          height: 8,
+          width: 7,
+          maxLength: 25,
+        },
+      ],
+    });
+  };
+
+  const numberInput = (value: number | undefined, onChange: (value: number) => void) => (
+    <NumberCell value={value} onChange={onChange} />
+  );
+
+  return (
+    <Modal open={open} onClose={onClose}>
+      <Box sx={style}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+          <Typography variant="h6" fontWeight={700}>Plantillas de Etiqueta</Typography>
+          <IconButton onClick={onClose}>
+            <CloseIcon />
+          </IconButton>
+        </Box>
+        <Box display="flex" gap={2} alignItems="center" mb={3} flexWrap="wrap">
+          <TextField
+            select
+            label="Plantilla"
+            size="small"
+            value={current.id}
+            onChange={e => setCurrentId(e.target.value)}
+            sx={{ minWidth: 260 }}
+          >
+            {draft.map(l => <MenuItem key={l.id} value={l.id}>{l.name}</MenuItem>)}
+          </TextField>
+          <Button variant="outlined" color="success" onClick={handleDuplicate}>Duplicar</Button>
+          {current.builtIn
+            ? <Button variant="outlined" color="warning" onClick={handleReset}>Restablecer</Button>
+            : <Button variant="outlined" color="error" onClick={handleDelete} disabled={draft.length < 2}>Eliminar</Button>}
+        </Box>
+        <Box display="flex" gap={2} mb={3} flexWrap="wrap">
+          <TextField label="Nombre" size="small" value={current.name} onChange={e => updateCurrent({ name: e.target.value })} />
+          <TextField label="Formato" size="small" value={current.formatName} onChange={e => updateCurrent({ formatName: e.target.value })} />
+          <TextField label="Opciones de formato" size="small" value={current.formatOptions} onChange={e => updateCurrent({ formatOptions: e.target.value })} />
+          <TextField label="Gap (<SI>g)" size="small" value={current.settings.gap} onChange={e => updateCurrent({ settings: { ...current.settings, gap: e.target.value } })} />
+          <TextField label="Oscuridad" type="number" size="small" value={current.settings.darkness} onChange={e => updateCurrent({ settings: { ...current.settings, darkness: Number(e.target.value) } })} sx={{ width: 110 }} />
+          <TextField label="Velocidad" type="number" size="small" value={current.settings.speed} onChange={e => updateCurrent({ settings: { ...current.settings, speed: Number(e.target.value) } })} sx={{ width: 110 }} />
+          <TextField label="Ancho etiqueta (puntos)" type="number" size="small" value={current.labelSize.width} onChange={e => updateCurrent({ labelSize: { ...current.labelSize, width: Number(e.target.value) } })} sx={{ width: 170 }} />
+          <TextField label="Alto etiqueta (puntos)" type="number" size="small" value={current.labelSize.height} onChange={e => updateCurrent({ labelSize: { ...current.labelSize, height: Number(e.target.value) } })} sx={{ width: 170 }} />
+        </Box>
+        {layoutHasPrices(current) && (
+          <Box display="flex" gap={2} mb={3} flexWrap="wrap" alignItems="center">
+            <Typography variant="subtitle2" sx={{ color: '#388E3C' }}>Moneda</Typography>
+            <TextField label="Símbolo" size="small" value={currency.symbol} onChange={e => updateCurrency({ symbol: e.target.value })} sx={{ width: 90 }} />
+            <TextField label="Sep. miles" size="small" value={currency.thousands} onChange={e => updateCurrency({ thousands: e.target.value })} sx={{ width: 100 }} />
+            <TextField label="Sep. decimal" size="small" value={currency.decimal} onChange={e => updateCurrency({ decimal: e.target.value })} sx={{ width: 110 }} />
+            <TextField label="Decimales" type="number" size="small" value={currency.decimals} inputProps={{ min: 0, max: 4 }} onChange={e => updateCurrency({ decimals: Math.min(4, Math.max(0, Number(e.target.value) || 0)) })} sx={{ width: 100 }} />
+            <Typography variant="body2" sx={{ color: '#666' }}>Ejemplo: {formatPrice(1234.5, currency)}</Typography>
+          </Box>
+        )}
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Campo</TableCell>
+              <TableCell>Nombre</TableCell>
+              <TableCell>Col.</TableCell>
+              <TableCell>Dato</TableCell>
+              <TableCell>X</TableCell>
+              <TableCell>Y</TableCell>
+              <TableCell>Dir.</TableCell>
+              <TableCell>Fuente</TableCell>
+              <TableCell>Alto</TableCell>
+              <TableCell>Ancho</TableCell>
+              <TableCell>Long. máx.</TableCell>
+              <TableCell>Código</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {current.fields.map((field, index) => (
+              <TableRow key={`${field.kind}-${field.number}-${index}`}>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>{KIND_LABELS[field.kind]} {field.number}</TableCell>
+                <TableCell>
+                  {field.kind !== "image" && (
+                    <TextField size="small" variant="standard" value={field.name ?? ""} onChange={e => updateField(index, { name: e.target.value })} sx={{ width: 64 }} />
+                  )}
+                </TableCell>
+                <TableCell>
+                  <TextField select size="small" variant="standard" value={field.column} onChange={e => updateField(index, { column: Number(e.target.value) })}>
+                    {[0, 1, 2].map(c => <MenuItem key={c} value={c}>{c + 1}</MenuItem>)}
+                  </TextField>
+                </TableCell>
+                <TableCell>
+                  {field.kind !== "image" && (
+                    <TextField select size="small" variant="standard" value={field.source ?? "code"} onChange={e => updateField(index, { source: e.target.value as LayoutFieldSource })}>
+                      {Object.entries(SOURCE_LABELS).map(([value, text]) => <MenuItem key={value} value={value}>{text}</MenuItem>)}
+                    </TextField>
+                  )}
+                </TableCell>
+                <TableCell>{numberInput(field.origin.x, x => updateField(index, { origin: { ...field.origin, x } }))}</TableCell>
+                <TableCell>{numberInput(field.origin.y, y => updateField(index, { origin: { ...field.origin, y } }))}</TableCell>
+                <TableCell>
+                  <TextField select size="small" variant="standard" value={field.direction} onChange={e => updateField(index, { direction: Number(e.target.value) as FieldDirection })}>
+                    {[0, 1, 2, 3].map(d => <MenuItem key={d} value={d}>{d * 90}°</MenuItem>)}
+                  </TextField>
+                </TableCell>
+                <TableCell>{field.kind !== "barcode" && numberInput(field.font, font => updateField(index, { font }))}</TableCell>
+                <TableCell>{numberInput(field.height, height => updateField(index, { height }))}</TableCell>
+                <TableCell>{numberInput(field.width, width => updateField(index, { width }))}</TableCell>
+                <TableCell>{field.kind !== "image" && numberInput(field.maxLength, maxLength => updateField(index, { maxLength }))}</TableCell>
+                <TableCell>
+                  {field.kind === "barcode" && (
+                    <TextField select size="small" variant="standard" value={field.barcodeType ?? "code128"} onChange={e => updateField(index, { barcodeType: e.target.value as BarcodeType })}>
+                      {Object.entries(BARCODE_LABELS).map(([value, text]) => <MenuItem key={value} value={value}>{text}</MenuItem>)}
+                    </TextField>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <IconButton aria-label="Eliminar campo" size="small" sx={{ color: "#d32f2f" }} onClick={() => updateCurrent({ fields: current.fields.filter((_, i) => i !== index) })}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <Box display="flex" justifyContent="space-between" mt={3}>
+          <Button variant="outlined" color="success" onClick={handleAddField}>Agregar campo de texto</Button>
+          <Button variant="contained" color="success" onClick={() => { onSave(draft, current.id); onClose(); }}>
+            Guardar Plantillas
+          </Button>
+        </Box>
+      </Box>
+    </Modal>
+  );
+};
+
+export default LayoutEditorModal;
@@ -0,0 +1,74 @@
+import React from "react";
+import { Box, Typography, Button, IconButton, Table, TableHead, TableBody, TableRow, TableCell } from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import { LabelData, LintIssue } from "../types";
+
+interface LintReportProps {
+  issues: LintIssue[];
+  labels: LabelData[];
+  /** Lleva a la etiqueta que generó el bloque con el problema. */
+  onShowLabel: (id: string) => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Informe del validador del último archivo generado: cada error o aviso con
+ * su línea del programa y el producto que lo generó.
+ */
+const LintReport: React.FC<LintReportProps> = ({ issues, labels, onShowLabel, onDismiss }) => {
+  if (issues.length === 0) return null;
+  const errors = issues.filter(issue => issue.severity === "error").length;
+  const byId = new Map(labels.map(label => [label.id, label]));
+
+  return (
+    <Box sx={{ mb: 3, border: `1.5px solid ${errors > 0 ? '#d32f2f' : '#FFB74D'}`, borderRadius: 2, background: errors > 0 ? '#FFEBEE' : '#FFF8E1', p: 2 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography fontWeight={700} sx={{ color: errors > 0 ? '#d32f2f' : '#E65100' }}>
+          Validación del archivo: {errors} errores, {issues.length - errors} avisos
+        </Typography>
+        <IconButton aria-label="Cerrar informe" size="small" onClick={onDismiss}>
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Box>
+      <Box sx={{ maxHeight: 320, overflowY: 'auto' }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell>Línea</TableCell>
+              <TableCell>Tipo</TableCell>
+              <TableCell>Problema</TableCell>
+              <TableCell>Producto</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {issues.map((issue, index) => {
+              const label = issue.labelId ? byId.get(issue.labelId) : undefined;
+              return (
+                <TableRow key={index}>
+                  <TableCell>{issue.line}</TableCell>
+                  <TableCell sx={{ color: issue.severity === "error" ? '#d32f2f' : '#E65100', fontWeight: 700 }}>
+                    {issue.severity === "error" ? "Error" : "Aviso"}
+                  </TableCell>
+                  <TableCell sx={{ fontSize: 13 }}>{issue.message}</TableCell>
+                  <TableCell sx={{ fontSize: 13 }}>
+                    {label ? `${label.code} · ${label.description}` : issue.labelId ? "(ya no está en la lista)" : "Cabecera del formato"}
+                  </TableCell>
+                  <TableCell>
+                    {label && (
+                      <Button size="small" variant="outlined" color="success" onClick={() => onShowLabel(label.id)}>
+                        Ver
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </Box>
+    </Box>
+  );
+};
+
+export default LintReport;
@@ -0,0 +1,88 @@
+import React from "react";
+import { ControlCharMode, LineEnding, LintPolicy, OutputEncoding, OutputOptions } from "../types";
+import { ENCODING_LABELS } from "../utils/encoding";
+
+interface OutputOptionsBarProps {
+  options: OutputOptions;
+  onChange: (options: OutputOptions) => void;
+}
+
+const selectStyle: React.CSSProperties = {
+  borderRadius: 8,
+  border: '1.5px solid #4CAF50',
+  padding: '6px 10px',
+  fontSize: 14,
+  background: '#fff',
+  color: '#222',
+  fontWeight: 600,
+};
+
+const labelStyle: React.CSSProperties = { color: '#388E3C', fontWeight: 600, fontSize: 14, display: 'flex', alignItems: 'center', gap: 6 };
+
+/**
+ * Opciones de escritura del archivo: caracteres de control como texto o bytes,
+ * fin de línea, página de códigos de la impresora, transliteración y si los
+ * errores del validador impiden la descarga.
+ */
+const OutputOptionsBar: React.FC<OutputOptionsBarProps> = ({ options, onChange }) => (
+  <div style={{ display: 'flex', gap: 16, flexWrap: 'wrap', justifyContent: 'flex-end', marginBottom: 16 }}>
+    <label style={labelStyle}>
+      Control:
+      <select
+        value={options.controlChars}
+        onChange={e => onChange({ ...options, controlChars: e.target.value as ControlCharMode })}
+        style={selectStyle}
+      >
+        <option value="tokens">Texto (&lt;STX&gt;)</option>
+        <option value="bytes">Bytes reales (0x02)</option>
+      </select>
+    </label>
+    <label style={labelStyle}>
+      Fin de línea:
+      <select
+        value={options.lineEnding}
+        onChange={e => onChange({ ...options, lineEnding: e.target.value as LineEnding })}
+        style={selectStyle}
+      >
+        <option value="crlf">CRLF (Windows)</option>
+        <option value="lf">LF (Unix)</option>
+        <option value="cr">CR</option>
+      </select>
+    </label>
+    <label style={labelStyle}>
+      Codificación:
+      <select
+        value={options.encoding}
+        onChange={e => onChange({ ...options, encoding: e.target.value as OutputEncoding })}
+        style={selectStyle}
+      >
+        {Object.entries(ENCODING_LABELS).map(([value, text]) => (
+          <option key={value} value={value}>{text}</option>
+        ))}
+      </select>
+    </label>
+    <label style={labelStyle}>
+      <input
+        type="checkbox"
+        checked={options.transliterate}
+        disabled={options.encoding === "utf-8"}
+        onChange={e => onChange({ ...options, transliterate: e.target.checked })}
+        style={{ accentColor: '#388E3C', width: 16, height: 16 }}
+      />
+      Transliterar (Ñ → N)
+    </label>
+    <label style={labelStyle}>
+      Errores de validación:
+      <select
+        value={options.lintPolicy}
+        onChange={e => onChange({ ...options, lintPolicy: e.target.value as LintPolicy })}
+        style={selectStyle}
+      >
+        <option value="block">Bloquean la descarga</option>
+        <option value="warn">Sólo avisan</option>
+      </select>
+    </label>
+  </div>
+);
+
+export default OutputOptionsBar;
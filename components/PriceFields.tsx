@@ -0,0 +1,92 @@
+import React, { useState } from "react";
+import { Box, MenuItem, TextField, TextFieldProps } from "@mui/material";
+import { CurrencyFormat, LabelData, PriceUnit } from "../types";
+import { DEFAULT_CURRENCY, PRICE_UNITS, formatPrice, parsePrice } from "../utils/price";
+
+type PriceInputProps = Omit<TextFieldProps, "value" | "onChange"> & {
+  value: number | undefined;
+  currency?: CurrencyFormat;
+  onChange: (value: number | undefined) => void;
+};
+
+/**
+ * Campo de importe: muestra el precio con el formato de moneda y, mientras
+ * se edita, el texto tal cual. Se guarda al salir del campo; vacío borra el
+ * precio y un texto que no es un número vuelve al valor anterior.
+ */
+export const PriceInput: React.FC<PriceInputProps> = ({ value, currency = DEFAULT_CURRENCY, onChange, ...props }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const invalid = draft !== null && draft.trim() !== "" && (parsePrice(draft) ?? -1) < 0;
+
+  const commit = () => {
+    if (draft === null) return;
+    const text = draft.trim();
+    const parsed = parsePrice(text);
+    if (!text) onChange(undefined);
+    else if (parsed !== null && parsed >= 0) onChange(parsed);
+    setDraft(null);
+  };
+
+  return (
+    <TextField
+      {...props}
+      value={draft ?? (value === undefined ? "" : formatPrice(value, currency))}
+      error={invalid}
+      onFocus={() => setDraft(value === undefined ? "" : formatPrice(value, { ...currency, symbol: "", thousands: "" }))}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+      }}
+    />
+  );
+};
+
+interface PriceFieldsProps {
+  label: LabelData;
+  currency?: CurrencyFormat;
+  onUpdate: (changes: Partial<Omit<LabelData, "id">>) => void;
+}
+
+/** Precio, precio por unidad y oferta de una etiqueta de góndola. */
+const PriceFields: React.FC<PriceFieldsProps> = ({ label, currency, onUpdate }) => (
+  <Box display="grid" gridTemplateColumns="1fr 1fr" gap={1} mt={1.5}>
+    <PriceInput label="Precio" size="small" value={label.price} currency={currency} onChange={price => onUpdate({ price })} />
+    <PriceInput
+      label="Precio de oferta"
+      size="small"
+      value={label.promoPrice}
+      currency={currency}
+      onChange={promoPrice => onUpdate({ promoPrice })}
+    />
+    <PriceInput
+      label="Precio por unidad"
+      size="small"
+      value={label.unitPrice}
+      currency={currency}
+      onChange={unitPrice => onUpdate({ unitPrice })}
+    />
+    <TextField
+      select
+      size="small"
+      label="Unidad"
+      value={label.unit ?? ""}
+      onChange={e => onUpdate({ unit: (e.target.value || undefined) as PriceUnit | undefined })}
+    >
+      <MenuItem value="">Sin unidad</MenuItem>
+      {PRICE_UNITS.map(unit => <MenuItem key={unit} value={unit}>{unit}</MenuItem>)}
+    </TextField>
+    <TextField
+      type="date"
+      size="small"
+      label="Oferta hasta"
+      value={label.promoUntil ?? ""}
+      onChange={e => onUpdate({ promoUntil: e.target.value || undefined })}
+      disabled={label.promoPrice === undefined && !label.promoUntil}
+      InputLabelProps={{ shrink: true }}
+      sx={{ gridColumn: "1 / -1" }}
+    />
+  </Box>
+);
+
+export default PriceFields;
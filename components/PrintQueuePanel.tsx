@@ -0,0 +1,111 @@
+import React from "react";
+import { Box, Button, MenuItem, TextField, Typography } from "@mui/material";
+import { BridgePrinter, PrintBridgeSettings, PrintJob, PrintJobStatus } from "../types";
+import { JOB_STATUS_LABELS } from "../utils/printBridge";
+
+interface PrintQueuePanelProps {
+  settings: PrintBridgeSettings;
+  onSettingsChange: (settings: PrintBridgeSettings) => void;
+  connected: boolean;
+  printers: BridgePrinter[];
+  jobs: PrintJob[];
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+}
+
+const STATUS_COLORS: Record<PrintJobStatus, string> = {
+  queued: '#555',
+  sending: '#E65100',
+  done: '#388E3C',
+  failed: '#d32f2f',
+  cancelled: '#888',
+};
+
+/** Trabajos recientes que se muestran, del más nuevo al más viejo. */
+const VISIBLE_JOBS = 8;
+
+/**
+ * Impresión directa por el puente local (npm run bridge): dirección del
+ * puente, impresora de destino y cola de trabajos con reintento y cancelación.
+ */
+const PrintQueuePanel: React.FC<PrintQueuePanelProps> = ({
+  settings, onSettingsChange, connected, printers, jobs, onRetry, onCancel,
+}) => {
+  const byId = new Map(printers.map(printer => [printer.id, printer]));
+  const recent = [...jobs].sort((a, b) => b.createdAt - a.createdAt).slice(0, VISIBLE_JOBS);
+  // El puente no envía los trabajos que llegaron después de uno fallido de la
+  // misma impresora hasta que ese se reintenta o se cancela.
+  const held = (job: PrintJob) =>
+    job.status === "queued" &&
+    jobs.some(other => other.printerId === job.printerId && other.status === "failed" && Number(other.id) < Number(job.id));
+
+  return (
+    <Box sx={{ mb: 3, p: 2, borderRadius: 2, border: '1.5px solid #A5D6A7', background: '#fff' }}>
+      <Box display="flex" gap={2} alignItems="center" flexWrap="wrap">
+        <Typography fontWeight={700} color="#388E3C">Impresión directa</Typography>
+        <Typography role="status" sx={{ fontSize: 14, fontWeight: 600, color: connected ? '#388E3C' : '#d32f2f' }}>
+          {connected ? "● Puente conectado" : "● Puente sin conexión"}
+        </Typography>
+        <TextField
+          size="small"
+          label="Dirección del puente"
+          value={settings.url}
+          onChange={e => onSettingsChange({ ...settings, url: e.target.value })}
+          sx={{ minWidth: 220 }}
+        />
+        <TextField
+          select
+          size="small"
+          label="Impresora"
+          value={byId.has(settings.printerId) ? settings.printerId : ""}
+          onChange={e => onSettingsChange({ ...settings, printerId: e.target.value })}
+          disabled={printers.length === 0}
+          sx={{ minWidth: 240 }}
+        >
+          {printers.map(printer => (
+            <MenuItem key={printer.id} value={printer.id}>
+              {printer.name} ({printer.protocol === "lpr" ? "LPR" : "raw"} {printer.host})
+            </MenuItem>
+          ))}
+        </TextField>
+      </Box>
+      {!connected && (
+        <Typography sx={{ mt: 1, fontSize: 13, color: '#555' }}>
+          Inicie el puente con <code>npm run bridge</code> en este equipo. Para probar sin impresoras, inicie también <code>npm run fake-printer</code>.
+        </Typography>
+      )}
+      {recent.length > 0 && (
+        <Box mt={1.5}>
+          {recent.map(job => (
+            <Box key={job.id} display="flex" gap={1.5} alignItems="center" sx={{ fontSize: 14, py: 0.5, borderTop: '1px solid #eee' }}>
+              <Box sx={{ minWidth: 40, color: '#888' }}>#{job.id}</Box>
+              <Box sx={{ flex: 1 }}>
+                {job.name} → {byId.get(job.printerId)?.name ?? job.printerId}
+                <Box component="span" sx={{ color: '#888', ml: 1 }}>
+                  {job.bytes} bytes{job.attempts > 1 ? `, ${job.attempts} intentos` : ""}
+                </Box>
+                {job.error && <Box sx={{ color: '#d32f2f', fontSize: 13 }}>{job.error}</Box>}
+              </Box>
+              <Box sx={{ minWidth: 80, fontWeight: 700, color: STATUS_COLORS[job.status] }}>
+                {JOB_STATUS_LABELS[job.status]}
+                {held(job) && <Box sx={{ fontSize: 12, fontWeight: 400, color: '#E65100' }}>Espera al fallido</Box>}
+              </Box>
+              {job.status === "failed" && (
+                <Button size="small" variant="outlined" color="success" onClick={() => onRetry(job.id)}>
+                  Reintentar
+                </Button>
+              )}
+              {(job.status === "queued" || job.status === "sending" || job.status === "failed") && (
+                <Button size="small" color="error" onClick={() => onCancel(job.id)}>
+                  Cancelar
+                </Button>
+              )}
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default PrintQueuePanel;
@@ -0,0 +1,110 @@
+import React from "react";
+import { Box, Button, MenuItem, TextField, Typography } from "@mui/material";
+import { CountField, LabelData, QuantityRule, QuantityRuleKind } from "../types";
+import { FIELD_LABELS } from "../parsers/columns";
+import {
+  DEFAULT_QUANTITY_RULE, QUANTITY_RULE_LABELS, RULE_FIELDS, computeQuantity, missingCounts, quantityRuleIssues,
+} from "../utils/quantity";
+
+interface QuantityRuleFieldsProps {
+  label: LabelData;
+  onUpdate: (changes: Partial<Omit<LabelData, "id">>) => void;
+}
+
+// Entero no negativo de un campo; vacío lo quita y null indica un valor que
+// no se acepta (negativo, con decimales o no numérico).
+const parseCount = (text: string): number | undefined | null => {
+  if (text.trim() === "") return undefined;
+  const value = Number(text);
+  return Number.isInteger(value) && value >= 0 ? value : null;
+};
+
+/**
+ * Regla de cantidad de una etiqueta. Al cambiar la regla o sus datos la
+ * cantidad pasa a ser la calculada; si después se corrige a mano, el
+ * cálculo sigue a la vista y se puede volver a él.
+ */
+const QuantityRuleFields: React.FC<QuantityRuleFieldsProps> = ({ label, onUpdate }) => {
+  const rule = label.quantityRule ?? DEFAULT_QUANTITY_RULE;
+  const counts = label.counts ?? {};
+  const computed = computeQuantity(rule, counts);
+
+  const apply = (nextRule: QuantityRule, nextCounts: Partial<Record<CountField, number>>) => {
+    const result = computeQuantity(nextRule, nextCounts);
+    onUpdate({
+      quantityRule: nextRule.kind === "column" ? undefined : nextRule,
+      counts: nextCounts,
+      ...(result ? { quantity: result.quantity } : {}),
+    });
+  };
+
+  const numberField = (name: string, value: number | undefined, onChange: (value: number | undefined) => void) => (
+    <TextField
+      key={name}
+      label={name}
+      type="number"
+      size="small"
+      value={value ?? ""}
+      inputProps={{ min: 0, step: 1 }}
+      onChange={e => {
+        const parsed = parseCount(e.target.value);
+        if (parsed !== null) onChange(parsed);
+      }}
+    />
+  );
+
+  const missing = missingCounts(rule, counts);
+  const issues = quantityRuleIssues(rule);
+
+  return (
+    <Box mt={1.5}>
+      <TextField
+        select
+        fullWidth
+        size="small"
+        label="Cálculo de la cantidad"
+        value={rule.kind}
+        onChange={e => apply({ ...rule, kind: e.target.value as QuantityRuleKind }, counts)}
+      >
+        {(Object.keys(QUANTITY_RULE_LABELS) as QuantityRuleKind[]).map(kind => (
+          <MenuItem key={kind} value={kind}>{QUANTITY_RULE_LABELS[kind]}</MenuItem>
+        ))}
+      </TextField>
+      {rule.kind !== "column" && (
+        <>
+          <Box display="grid" gridTemplateColumns="1fr 1fr" gap={1} mt={1}>
+            {RULE_FIELDS[rule.kind].map(field =>
+              numberField(FIELD_LABELS[field], counts[field], value => apply(rule, { ...counts, [field]: value }))
+            )}
+            {numberField("Mínimo", rule.min, min => apply({ ...rule, min }, counts))}
+            {numberField("Máximo", rule.max, max => apply({ ...rule, max }, counts))}
+          </Box>
+          {computed ? (
+            <Box display="flex" alignItems="center" justifyContent="space-between" mt={0.5}>
+              <Typography variant="caption" sx={{ color: "#666" }}>Calculada: {computed.detail}</Typography>
+              {computed.quantity !== label.quantity && (
+                <Button size="small" color="success" onClick={() => onUpdate({ quantity: computed.quantity })}>
+                  Usar {computed.quantity}
+                </Button>
+              )}
+            </Box>
+          ) : (
+            <Typography variant="caption" component="div" sx={{ color: "#d32f2f", mt: 0.5 }}>
+              Faltan datos: {missing.map(field => FIELD_LABELS[field]).join(rule.kind === "palletsBoxes" ? " o " : ", ")}.
+            </Typography>
+          )}
+          {computed && computed.quantity !== label.quantity && (
+            <Typography variant="caption" component="div" sx={{ color: "#E65100", fontWeight: 600 }}>
+              Cantidad corregida a mano.
+            </Typography>
+          )}
+          {issues.map(issue => (
+            <Typography key={issue} variant="caption" component="div" sx={{ color: "#d32f2f", fontWeight: 600 }}>{issue}</Typography>
+          ))}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default QuantityRuleFields;
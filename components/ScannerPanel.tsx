@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Box, Button, IconButton, TextField, Typography } from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import { beep } from "../utils/sound";
+
+/** Resultado de un escaneo, para la señal que recibe el operador. */
+export type ScanResult =
+  | { kind: "added" | "incremented"; code: string; description: string; quantity: number }
+  | { kind: "unknown"; code: string };
+
+interface ScannerPanelProps {
+  onScan: (code: string) => ScanResult;
+  /** Agrega un código desconocido con la descripción escrita a mano. */
+  onResolveUnknown: (code: string, description: string, quantity: number) => void;
+  onClose: () => void;
+}
+
+// Un lector USB "teclea" cada carácter en pocos milisegundos; una persona no.
+const BURST_KEY_INTERVAL_MS = 35;
+// Lectores configurados sin Enter: la ráfaga termina tras esta pausa.
+const BURST_END_MS = 120;
+const MIN_BURST_LENGTH = 4;
+
+interface UnknownCode {
+  code: string;
+  count: number;
+  description: string;
+}
+
+/**
+ * Modo escáner: un campo siempre listo que toma cada lectura terminada en
+ * Enter, o cada ráfaga rápida sin terminador, y la pasa a `onScan`.
+ */
+const ScannerPanel: React.FC<ScannerPanelProps> = ({ onScan, onResolveUnknown, onClose }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [buffer, setBuffer] = useState("");
+  const [focused, setFocused] = useState(true);
+  const [last, setLast] = useState<ScanResult | null>(null);
+  const [unknown, setUnknown] = useState<UnknownCode[]>([]);
+  const [scans, setScans] = useState(0);
+  // Tiempos de la ráfaga en curso: si todas las teclas llegaron rápido, es un lector.
+  const burst = useRef({ lastKey: 0, slow: false });
+  const burstTimer = useRef<number | undefined>(undefined);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    return () => window.clearTimeout(burstTimer.current);
+  }, []);
+
+  const submit = (raw: string) => {
+    window.clearTimeout(burstTimer.current);
+    burst.current = { lastKey: 0, slow: false };
+    setBuffer("");
+    const code = raw.trim();
+    if (!code) return;
+    const result = onScan(code);
+    setLast(result);
+    setScans(n => n + 1);
+    if (result.kind === "unknown") {
+      beep(220, 350);
+      setUnknown(list => {
+        const existing = list.find(u => u.code === code);
+        return existing
+          ? list.map(u => u.code === code ? { ...u, count: u.count + 1 } : u)
+          : [...list, { code, count: 1, description: "" }];
+      });
+    } else {
+      beep(1200, 60);
+    }
+  };
+
+  const handleChange = (value: string) => {
+    const now = performance.now();
+    const { lastKey } = burst.current;
+    if (lastKey && now - lastKey > BURST_KEY_INTERVAL_MS) burst.current.slow = true;
+    burst.current.lastKey = now;
+    setBuffer(value);
+    window.clearTimeout(burstTimer.current);
+    burstTimer.current = window.setTimeout(() => {
+      // Sin Enter sólo se acepta una ráfaga de lector, no lo que se teclea a mano.
+      if (!burst.current.slow && value.trim().length >= MIN_BURST_LENGTH) submit(value);
+    }, BURST_END_MS);
+  };
+
+  const resolve = (item: UnknownCode) => {
+    if (!item.description.trim()) return;
+    onResolveUnknown(item.code, item.description.trim(), item.count);
+    setUnknown(list => list.filter(u => u.code !== item.code));
+  };
+
+  const feedbackColor = last?.kind === "unknown" ? '#d32f2f' : '#388E3C';
+
+  return (
+    <Box
+      sx={{ mb: 4, p: 3, borderRadius: 4, border: `2px solid ${focused ? '#388E3C' : '#A5D6A7'}`, background: '#fff' }}
+      onClick={e => {
+        // Un clic fuera de otro campo devuelve el foco al lector.
+        if ((e.target as HTMLElement).tagName !== "INPUT") inputRef.current?.focus();
+      }}
+    >
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Typography variant="h6" fontWeight={700} color="#388E3C">Modo escáner</Typography>
+        <IconButton aria-label="Salir del modo escáner" onClick={onClose}><CloseIcon /></IconButton>
+      </Box>
+      <TextField
+        inputRef={inputRef}
+        fullWidth
+        autoComplete="off"
+        label={focused ? "Escanee un código" : "Haga clic aquí para seguir escaneando"}
+        value={buffer}
+        onChange={e => handleChange(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            submit(buffer);
+          }
+        }}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        inputProps={{ style: { fontFamily: 'monospace', fontSize: 22, letterSpacing: 2 } }}
+      />
+      {last && (
+        <Box
+          key={scans}
+          role="status"
+          sx={{
+            mt: 2,
+            p: 1.5,
+            borderRadius: 2,
+            fontWeight: 700,
+            color: feedbackColor,
+            background: last.kind === "unknown" ? '#FFEBEE' : '#E8F5E9',
+            '@keyframes scanFlash': { from: { opacity: 0.3 }, to: { opacity: 1 } },
+            animation: 'scanFlash 0.3s',
+          }}
+        >
+          {last.kind === "unknown"
+            ? `Código desconocido: ${last.code}. Escriba su descripción abajo.`
+            : `${last.kind === "added" ? "Agregado" : "Sumado"}: ${last.code} — ${last.description} (cantidad ${last.quantity})`}
+        </Box>
+      )}
+      {unknown.length > 0 && (
+        <Box mt={2}>
+          <Typography fontWeight={700} sx={{ color: '#d32f2f', mb: 1 }}>Códigos desconocidos</Typography>
+          {unknown.map(item => (
+            <Box key={item.code} display="flex" gap={1.5} alignItems="center" mb={1}>
+              <Typography sx={{ fontFamily: 'monospace', minWidth: 140 }}>{item.code} ×{item.count}</Typography>
+              <TextField
+                size="small"
+                label="Descripción"
+                value={item.description}
+                onChange={e => setUnknown(list => list.map(u => u.code === item.code ? { ...u, description: e.target.value } : u))}
+                onKeyDown={e => { if (e.key === "Enter") resolve(item); }}
+                sx={{ flex: 1 }}
+              />
+              <Button size="small" variant="contained" color="success" onClick={() => resolve(item)} disabled={!item.description.trim()}>
+                Agregar
+              </Button>
+              <Button size="small" color="inherit" onClick={() => setUnknown(list => list.filter(u => u.code !== item.code))}>
+                Descartar
+              </Button>
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ScannerPanel;
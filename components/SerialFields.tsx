@@ -0,0 +1,110 @@
+import React from "react";
+import { Box, Button, Checkbox, FormControlLabel, MenuItem, TextField, Typography } from "@mui/material";
+import { LabelData, SerialMode, SerialSpec } from "../types";
+import {
+  DEFAULT_SERIAL, formatSerial, loadSerialCounters, nextSerialStart, reusesSerials, serialIssues,
+} from "../utils/serial";
+
+interface SerialFieldsProps {
+  label: LabelData;
+  onUpdate: (changes: Partial<Omit<LabelData, "id">>) => void;
+}
+
+const MODE_LABELS: Record<SerialMode, string> = {
+  blocks: "Un bloque por copia",
+  printer: "Incremento de la impresora (ZPL)",
+};
+
+const integer = (text: string, fallback: number) => {
+  const value = parseInt(text, 10);
+  return isNaN(value) ? fallback : value;
+};
+
+/**
+ * Numeración correlativa de una etiqueta: cada copia lleva su propio número
+ * en lugar del código. Al activarla, o al cambiar el prefijo, el inicio
+ * continúa desde el último número impreso con ese prefijo.
+ */
+const SerialFields: React.FC<SerialFieldsProps> = ({ label, onUpdate }) => {
+  const counters = loadSerialCounters();
+  const spec = label.serial;
+
+  const toggle = (enabled: boolean) => {
+    if (!enabled) {
+      onUpdate({ serial: undefined });
+      return;
+    }
+    const initial = { ...DEFAULT_SERIAL, prefix: `${label.code}-` };
+    onUpdate({ serial: { ...initial, start: nextSerialStart(counters, initial) } });
+  };
+
+  const update = (changes: Partial<SerialSpec>) => {
+    if (!spec) return;
+    const next = { ...spec, ...changes };
+    if (changes.prefix !== undefined) next.start = nextSerialStart(counters, next, DEFAULT_SERIAL.start);
+    onUpdate({ serial: next });
+  };
+
+  const issues = spec ? serialIssues(spec, label.quantity) : [];
+  const last = spec ? counters[spec.prefix] : undefined;
+  const reused = reusesSerials(counters, label);
+
+  return (
+    <Box mt={1.5}>
+      <FormControlLabel
+        control={<Checkbox color="success" size="small" checked={!!spec} onChange={e => toggle(e.target.checked)} />}
+        label={<Typography variant="body2" sx={{ color: "#388E3C", fontWeight: 600 }}>Numerar cada copia</Typography>}
+      />
+      {spec && (
+        <>
+          <Box display="grid" gridTemplateColumns="1fr 1fr 1fr" gap={1} mt={0.5}>
+            <TextField label="Prefijo" size="small" value={spec.prefix} onChange={e => update({ prefix: e.target.value })} sx={{ gridColumn: "span 2" }} />
+            <TextField label="Sufijo" size="small" value={spec.suffix} onChange={e => update({ suffix: e.target.value })} />
+            <TextField label="Inicio" type="number" size="small" value={spec.start} onChange={e => update({ start: integer(e.target.value, spec.start) })} />
+            <TextField label="Paso" type="number" size="small" value={spec.step} onChange={e => update({ step: integer(e.target.value, spec.step) })} />
+            <TextField
+              label="Dígitos"
+              type="number"
+              size="small"
+              value={spec.padding}
+              inputProps={{ min: 0, max: 12 }}
+              onChange={e => update({ padding: Math.min(12, Math.max(0, integer(e.target.value, spec.padding))) })}
+            />
+            <TextField
+              select
+              size="small"
+              label="Numeración"
+              value={spec.mode}
+              onChange={e => update({ mode: e.target.value as SerialMode })}
+              sx={{ gridColumn: "1 / -1" }}
+            >
+              {(Object.keys(MODE_LABELS) as SerialMode[]).map(mode => <MenuItem key={mode} value={mode}>{MODE_LABELS[mode]}</MenuItem>)}
+            </TextField>
+          </Box>
+          {label.quantity > 0 && (
+            <Typography variant="caption" component="div" sx={{ mt: 0.5, fontFamily: "monospace" }}>
+              {formatSerial(spec, 0)}{label.quantity > 1 && ` … ${formatSerial(spec, label.quantity - 1)}`}
+            </Typography>
+          )}
+          {last !== undefined && (
+            <Box display="flex" alignItems="center" justifyContent="space-between">
+              <Typography variant="caption" sx={{ color: reused ? "#d32f2f" : "#666", fontWeight: reused ? 600 : 400 }}>
+                {reused ? "Repite números ya impresos" : "Último impreso"}: {formatSerial({ ...spec, start: last, step: 1 }, 0)}
+              </Typography>
+              {reused && (
+                <Button size="small" color="success" onClick={() => update({ start: nextSerialStart(counters, spec) })}>
+                  Continuar
+                </Button>
+              )}
+            </Box>
+          )}
+          {issues.map(issue => (
+            <Typography key={issue} variant="caption" component="div" sx={{ color: "#d32f2f", fontWeight: 600 }}>{issue}</Typography>
+          ))}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default SerialFields;
@@ -0,0 +1,46 @@
+import React from "react";
+import { Box, TextField } from "@mui/material";
+import { LabelData } from "../types";
+import { labelGtin } from "../utils/gs1";
+
+interface TraceFieldsProps {
+  label: LabelData;
+  onUpdate: (changes: Partial<Omit<LabelData, "id">>) => void;
+}
+
+/**
+ * GTIN, lote y vencimiento de una etiqueta, para el código GS1-128. Sin GTIN
+ * se usa el código si es un EAN/UPC, y se muestra como sugerencia.
+ */
+const TraceFields: React.FC<TraceFieldsProps> = ({ label, onUpdate }) => {
+  const fallback = label.gtin === undefined ? labelGtin(label) : undefined;
+  return (
+    <Box display="grid" gridTemplateColumns="1fr 1fr" gap={1} mt={1.5}>
+      <TextField
+        label="GTIN (01)"
+        size="small"
+        value={label.gtin ?? ""}
+        placeholder={fallback}
+        onChange={e => onUpdate({ gtin: e.target.value.replace(/\s+/g, "") || undefined })}
+        InputLabelProps={fallback ? { shrink: true } : undefined}
+        sx={{ gridColumn: "1 / -1", '& input': { fontFamily: "monospace" } }}
+      />
+      <TextField
+        label="Lote (10)"
+        size="small"
+        value={label.lot ?? ""}
+        onChange={e => onUpdate({ lot: e.target.value.trim() || undefined })}
+      />
+      <TextField
+        type="date"
+        size="small"
+        label="Vencimiento (17)"
+        value={label.expiry ?? ""}
+        onChange={e => onUpdate({ expiry: e.target.value || undefined })}
+        InputLabelProps={{ shrink: true }}
+      />
+    </Box>
+  );
+};
+
+export default TraceFields;
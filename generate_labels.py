@@ -12,21 +12,21 @@ con CR+LF.
 
 Para cada registro:
 
-* Si la cantidad de etiquetas es mayor que 1, se generan dos bloques:
-  - Un bloque “principal” que imprime todas las etiquetas menos una,
+* La cantidad es el total de etiquetas; el rollo tiene tres por fila.
+  - Un bloque “principal” imprime las filas completas (cantidad // 3)
     utilizando tres barcodes (BR0, BR1, BR2) y dos líneas de texto (TX3..TX8).
-  - Un bloque “residual” que imprime una sola etiqueta utilizando un único
-    barcode (BR0) y dos líneas de texto (TX3, TX4).  Esto imita el patrón
-    observado en los archivos de SAP.
-* Si la cantidad es 1 o 0, sólo se genera el bloque principal con el
-  contador correspondiente.
+  - Un bloque “residual” imprime una fila con las etiquetas que sobran
+    (cantidad % 3), sólo con los campos de esas columnas.
+* Si la cantidad es 0 no se genera ningún bloque.
 
 Uso:
     python generate_labels.py input.tsv output.txt
 
 El archivo de entrada debe tener una primera fila con los nombres de las
 columnas; las filas posteriores contienen los datos.  El archivo de
-salida se escribe en modo texto y no incluye BOM.
+salida se escribe en modo texto, sin BOM, con la página de códigos de la
+impresora (OUTPUT_ENCODING).  Los caracteres que no existen en ella se
+reemplazan por su letra base (Ñ → N) o por "?".
 
 Nota: este script genera comandos como cadenas legibles (por ejemplo,
 “<STX>” en lugar del código ASCII 0x02) porque es el formato utilizado
@@ -38,6 +38,7 @@ caracteres binarios.
 import csv
 import os
 import sys
+import unicodedata
 from typing import List, Tuple
 
 # Mapeo de caracteres de control a las etiquetas legibles usadas en los
@@ -54,6 +55,30 @@ CONTROL_CHARS = {
     "SI": "<SI>",
 }
 
+# Página de códigos de la impresora (CP850 es la predeterminada en la PM42).
+OUTPUT_ENCODING = "cp850"
+
+
+def to_printer_text(text: str, encoding: str = OUTPUT_ENCODING) -> str:
+    """Adapta un texto a la página de códigos de la impresora.
+
+    Los caracteres que no se pueden codificar se reemplazan por su forma sin
+    acentos y, si tampoco existe, por "?".
+    """
+    result = []
+    for ch in text:
+        try:
+            ch.encode(encoding)
+            result.append(ch)
+        except UnicodeEncodeError:
+            base = unicodedata.normalize("NFD", ch)[0]
+            try:
+                base.encode(encoding)
+                result.append(base if base != ch else "?")
+            except UnicodeEncodeError:
+                result.append("?")
+    return "".join(result)
+
 
 def split_description(description: str, max_length: int = 25) -> Tuple[str, str]:
     """Divide una descripción en dos líneas sin cortar palabras.
@@ -104,34 +129,21 @@ def build_header() -> List[str]:
     ]
 
 
-def build_main_block(code: str, line1: str, line2: str, qty: int) -> str:
-    """Construye el bloque principal con tres códigos de barra y dos líneas."""
-    cc = CONTROL_CHARS
-    return (
-        f"{cc['STX']}{cc['ESC']}E1{cc['CAN']}{cc['ETX']}\r\n"
-        f"{cc['STX']}{cc['ESC']}F\"BR0\"{cc['LF']}{code}{cc['ETX']}\r\n"
-        f"{cc['STX']}{cc['ESC']}F\"BR1\"{cc['LF']}{code}{cc['ETX']}\r\n"
-        f"{cc['STX']}{cc['ESC']}F\"BR2\"{cc['LF']}{code}{cc['ETX']}\r\n"
-        f"{cc['STX']}{cc['ESC']}F\"TX3\"{cc['LF']}{line1}{cc['ETX']}\r\n"
-        f"{cc['STX']}{cc['ESC']}F\"TX4\"{cc['LF']}{line2}{cc['ETX']}\r\n"
-        f"{cc['STX']}{cc['ESC']}F\"TX5\"{cc['LF']}{line1}{cc['ETX']}\r\n"
-        f"{cc['STX']}{cc['ESC']}F\"TX6\"{cc['LF']}{line2}{cc['ETX']}\r\n"
-        f"{cc['STX']}{cc['ESC']}F\"TX7\"{cc['LF']}{line1}{cc['ETX']}\r\n"
-        f"{cc['STX']}{cc['ESC']}F\"TX8\"{cc['LF']}{line2}{cc['ETX']}\r\n"
-        f"{cc['STX']}{cc['US']}{qty}{cc['ETX']}\r\n"
-        f"{cc['STX']}{cc['ETB']}{cc['ETX']}\r\n"
-    )
+def build_block(code: str, line1: str, line2: str, qty: int, columns: int = 3) -> str:
+    """Construye un bloque de datos con las primeras `columns` columnas.
 
-
-def build_residual_block(code: str, line1: str, line2: str) -> str:
-    """Construye el bloque residual para imprimir una sola etiqueta."""
+    Cada columna lleva su código de barras (BR0..BR2) y sus dos líneas de
+    texto (TX3..TX8); `qty` es la cantidad de filas que se imprimen.
+    """
     cc = CONTROL_CHARS
+    fields = [(f"BR{column}", code) for column in range(columns)]
+    for column in range(columns):
+        fields += [(f"TX{3 + 2 * column}", line1), (f"TX{4 + 2 * column}", line2)]
+    data = "".join(f"{cc['STX']}{cc['ESC']}F\"{name}\"{cc['LF']}{value}{cc['ETX']}\r\n" for name, value in fields)
     return (
         f"{cc['STX']}{cc['ESC']}E1{cc['CAN']}{cc['ETX']}\r\n"
-        f"{cc['STX']}{cc['ESC']}F\"BR0\"{cc['LF']}{code}{cc['ETX']}\r\n"
-        f"{cc['STX']}{cc['ESC']}F\"TX3\"{cc['LF']}{line1}{cc['ETX']}\r\n"
-        f"{cc['STX']}{cc['ESC']}F\"TX4\"{cc['LF']}{line2}{cc['ETX']}\r\n"
-        f"{cc['STX']}{cc['US']}1{cc['ETX']}\r\n"
+        f"{data}"
+        f"{cc['STX']}{cc['US']}{qty}{cc['ETX']}\r\n"
         f"{cc['STX']}{cc['ETB']}{cc['ETX']}\r\n"
     )
 
@@ -150,14 +162,13 @@ def process_rows(rows: List[dict]) -> List[str]:
         if qty <= 0 or not code:
             continue
         line1, line2 = split_description(desc)
-        # Genera bloque principal
-        if qty > 1:
-            output.append(build_main_block(code, line1, line2, qty - 1))
-            # Bloque residual con 1 unidad
-            output.append(build_residual_block(code, line1, line2))
-        else:
-            # Cantidad == 1: imprime un bloque principal con qty=1
-            output.append(build_main_block(code, line1, line2, qty))
+        full_rows, remainder = divmod(qty, 3)
+        # Bloque principal con las filas completas
+        if full_rows > 0:
+            output.append(build_block(code, line1, line2, full_rows))
+        # Bloque residual: una fila con las etiquetas que sobran
+        if remainder > 0:
+            output.append(build_block(code, line1, line2, 1, remainder))
     return output
 
 
@@ -174,9 +185,9 @@ def main(argv: List[str]) -> None:
     blocks = process_rows(rows)
     # Concatena cabecera y bloques
     content = "\r\n".join(header + blocks)
-    # Escribe el archivo sin BOM
-    with open(output_path, "w", encoding="ascii", newline="") as f:
-        f.write(content)
+    # Escribe el archivo sin BOM, en la página de códigos de la impresora
+    with open(output_path, "w", encoding=OUTPUT_ENCODING, newline="") as f:
+        f.write(to_printer_text(content))
     print(f"Archivo generado: {output_path}")
 
 
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { buildEplFile } from "./epl";
+import { DEFAULT_LAYOUTS } from "../layouts";
+import { LabelData } from "../types";
+
+const label: LabelData = { id: "1", code: "ABC123", description: "Caño \"grande\"", quantity: 5 };
+const layout = DEFAULT_LAYOUTS[0];
+
+describe("buildEplFile", () => {
+  it("imprime cada fila del rollo con P", () => {
+    const lines = buildEplFile([label], { layout, columns: 3 }).split("\r\n");
+    expect(lines.filter(line => line === "N")).toHaveLength(2);
+    expect(lines).toContain("P1,1");
+  });
+
+  it("escapa las comillas de los datos", () => {
+    expect(buildEplFile([label], { layout, columns: 1 })).toContain('"Caño \\"grande\\""');
+  });
+
+  it.each([
+    ["cp850", "I8,1,001"],
+    ["windows-1252", "I8,A,001"],
+    ["ascii", "I8,0,001"],
+  ] as const)("con %s indica %s", (encoding, command) => {
+    expect(buildEplFile([label], { layout, columns: 1, encoding }).split("\r\n")).toContain(command);
+  });
+
+  it("sin codificación usa la página 850", () => {
+    expect(buildEplFile([label], { layout, columns: 1 }).split("\r\n")).toContain("I8,1,001");
+  });
+});
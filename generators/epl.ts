@@ -0,0 +1,75 @@
+import { BarcodeType, LabelData, GenerateOptions, LayoutField, OutputEncoding, PrinterGenerator } from "../types";
+import { applySymbology, effectiveColumns, fieldsForColumns } from "../layouts";
+import { PrintRow, fieldValue, printRowCount, rowValues, toPrintRows } from "./rows";
+
+// EPL2 delimita los datos con comillas; la barra y la comilla se escapan con "\".
+const quote = (value: string): string => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+// EPL2 sólo tiene fuentes fijas (1 a 5); se elige la más cercana a la altura del campo.
+const eplFont = (height: number): number => (height <= 8 ? 2 : height <= 12 ? 3 : 4);
+
+// Tipo de código del comando B de EPL2.
+const BARCODE_TYPES: Record<BarcodeType, string> = {
+  code128: "1",
+  code39: "3",
+  ean13: "E30",
+  ean8: "E80",
+  upca: "UA0",
+  gs1128: "1E",
+};
+
+/**
+ * Página de códigos de 8 bits del comando I8 (país 001) para cada
+ * codificación del archivo. EPL2 no tiene UTF-8: se deja Windows-1252 y el
+ * validador lo avisa.
+ */
+export const EPL_CODE_PAGES: Record<OutputEncoding, string> = {
+  cp850: "1",
+  "windows-1252": "A",
+  "iso-8859-1": "A",
+  ascii: "0",
+  "utf-8": "A",
+};
+
+// EPL2 rota en sentido horario; las direcciones de la plantilla, en antihorario.
+const eplRotation = (field: LayoutField): number => (4 - field.direction) % 4;
+
+function buildField(field: LayoutField, value: string): string {
+  const { x, y } = field.origin;
+  if (field.kind === "barcode") {
+    const type = BARCODE_TYPES[field.barcodeType ?? "code128"];
+    const hr = field.humanReadable === false ? "N" : "B";
+    return `B${x},${y},${eplRotation(field)},${type},${field.width},${field.width * 2},${field.height},${hr},${quote(value)}`;
+  }
+  return `A${x},${y},${eplRotation(field)},${eplFont(field.height)},1,1,N,${quote(value)}`;
+}
+
+function buildRow(row: PrintRow, fields: LayoutField[]): string {
+  const lines = ["N"];
+  applySymbology(fields, row.barcodeType)
+    .filter((field) => field.kind !== "image" && field.column < row.filled)
+    .forEach((field) => lines.push(buildField(field, fieldValue(field, rowValues(row, field)))));
+  lines.push(`P${row.copies},1`);
+  return lines.join("\r\n");
+}
+
+/**
+ * Genera un programa EPL2 (Zebra/Eltron): la línea N limpia el buffer y P
+ * imprime cada fila del rollo la cantidad de veces indicada.
+ */
+export function buildEplFile(labels: LabelData[], { layout, columns, encoding = "cp850" }: GenerateOptions): string {
+  const used = effectiveColumns(layout, columns);
+  const fields = fieldsForColumns(layout, used);
+  const header = ["", `S${layout.settings.speed >= 50 ? 4 : 3}`, `D${layout.settings.darkness}`, `I8,${EPL_CODE_PAGES[encoding]},001`];
+  const rows = toPrintRows(labels, layout, used).map((row) => buildRow(row, fields));
+  return [...header, ...rows].join("\r\n") + "\r\n";
+}
+
+export const eplGenerator: PrinterGenerator = {
+  id: "epl",
+  name: "Zebra/Eltron EPL2",
+  extension: "epl",
+  fileName: "etiquetas_generadas_epl.epl",
+  generate: buildEplFile,
+  blockCount: (label, options) => printRowCount(label, options),
+};
@@ -0,0 +1,37 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { buildFingerprintFile } from "./fingerprint";
+import { DEFAULT_LAYOUTS } from "../layouts";
+import { parseDelimited } from "../parsers/delimited";
+import { guessMapping } from "../parsers/columns";
+import { rowsToLabels } from "../parsers/labels";
+import { DEFAULT_OUTPUT_OPTIONS, renderOutput } from "../utils/output";
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+
+// parity.txt es la salida de generate_labels.py para parity.tsv.
+describe("buildFingerprintFile", () => {
+  it("genera los mismos bytes que generate_labels.py", () => {
+    const rows = parseDelimited(fixture("parity.tsv").toString("utf8").trim());
+    const { labels } = rowsToLabels(rows, guessMapping(rows), DEFAULT_LAYOUTS[0]);
+    const program = buildFingerprintFile(labels, { layout: DEFAULT_LAYOUTS[0], columns: 3 });
+    expect(Buffer.from(renderOutput(program, DEFAULT_OUTPUT_OPTIONS))).toEqual(fixture("parity.txt"));
+  });
+});
+
+// Etiquetas que imprime cada bloque: filas (US) por columnas con código.
+const printedLabels = (program: string): number =>
+  program
+    .split("<ETB>")
+    .slice(0, -1)
+    .reduce((sum, block) => sum + Number(block.match(/<US>(\d+)/)![1]) * (block.match(/F"BR\d+"/g) ?? []).length, 0);
+
+describe("buildBlocks", () => {
+  it("imprime tantas etiquetas como la cantidad, con cualquier cantidad de columnas", () => {
+    [1, 2, 3, 4, 10].forEach((quantity) => {
+      const labels = [{ id: "1", code: "12345", description: "Clavos", quantity }];
+      expect(printedLabels(buildFingerprintFile(labels, { layout: DEFAULT_LAYOUTS[0], columns: 3 }))).toBe(quantity);
+      expect(printedLabels(buildFingerprintFile(labels, { layout: DEFAULT_LAYOUTS[0], columns: 1 }))).toBe(quantity);
+    });
+  });
+});
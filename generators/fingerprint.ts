@@ -0,0 +1,153 @@
+import { BarcodeType, FieldValues, LabelData, LabelColumns, GenerateOptions, LabelLayout, LayoutField, PrinterGenerator } from "../types";
+import { effectiveColumns, fieldsForColumns, labelBarcodeType } from "../layouts";
+import { fieldValue, printRowCount, symbologyFormats, toPrintRows } from "./rows";
+
+/**
+ * Tokens de control tal como aparecen en los archivos de ejemplo de SAP.
+ * Se mantienen legibles (por ejemplo "<STX>" en lugar de 0x02), igual que
+ * CONTROL_CHARS en generate_labels.py.
+ */
+export const CONTROL_CHARS = {
+  STX: "<STX>",
+  ETX: "<ETX>",
+  ESC: "<ESC>",
+  LF: "<LF>",
+  US: "<US>",
+  ETB: "<ETB>",
+  CAN: "<CAN>",
+  SI: "<SI>",
+} as const;
+
+/** Código de simbología (parámetro c) de los campos B. */
+export const IPL_SYMBOLOGY: Record<BarcodeType, string> = {
+  code128: "6",
+  code39: "0",
+  upca: "7",
+  ean8: "9",
+  ean13: "10",
+  gs1128: "6",
+};
+
+/** Opción de la simbología (segundo parámetro de c): 1 agrega FNC1 al inicio del Code 128 (UCC/EAN-128). */
+const iplOption = (type: BarcodeType | undefined): number => (type === "gs1128" ? 1 : 0);
+
+/**
+ * Definición de un campo tal como la espera el formato, por ejemplo
+ * `B0,BR0;o60,210;f1;c6,0;h50;w1;r0;i1;d0,12`. Con `withName` en falso se
+ * omite el nombre del campo (IPL con campos numerados).
+ */
+export function serializeField(field: LayoutField, withName: boolean = true): string {
+  const id = withName && field.name ? `${field.number},${field.name}` : `${field.number}`;
+  const position = `o${field.origin.x},${field.origin.y};f${field.direction}`;
+  const size = `h${field.height};w${field.width}`;
+  const data = field.maxLength !== undefined ? `d0,${field.maxLength}` : "";
+  switch (field.kind) {
+    case "barcode": {
+      const symbology = IPL_SYMBOLOGY[field.barcodeType ?? "code128"];
+      const interpretation = field.humanReadable === false ? 0 : 1;
+      const option = iplOption(field.barcodeType);
+      return [`B${id}`, position, `c${symbology},${option}`, size, "r0", `i${interpretation}`, data].filter(Boolean).join(";");
+    }
+    case "text":
+      return `${[`H${id}`, position, `c${field.font ?? 25}`, size, data].filter(Boolean).join(";")};`;
+    case "image":
+      return `${[`I${id}`, position, `c${field.font ?? 25}`, size].join(";")};`;
+  }
+}
+
+// Definición de un formato en modo programa: ESC P, E<n>, opciones, campos y R.
+function buildFormatDefinition(layout: LabelLayout, format: number, fields: LayoutField[]): string[] {
+  const { STX, ETX, ESC } = CONTROL_CHARS;
+  return [
+    `${STX}${ESC}P;${ETX}`,
+    `${STX}E${format},1;A1,${layout.formatName};${ETX}`,
+    `${STX}${layout.formatOptions}${ETX}`,
+    ...fields.map((field) => `${STX}${serializeField(field)}${ETX}`),
+    `${STX}R${ETX}`,
+  ];
+}
+
+/**
+ * Cabecera del formato generada a partir de la plantilla. Con una columna
+ * sólo se definen los campos de la primera columna; con la plantilla
+ * "Estantería" y tres columnas es idéntica a build_header() en Python.
+ * `variants` son los formatos 2, 3, ... para otras simbologías.
+ */
+export function buildHeader(layout: LabelLayout, columns: LabelColumns, variants: LayoutField[][] = []): string[] {
+  const { STX, ETX, SI } = CONTROL_CHARS;
+  return [
+    `${STX}${SI}g${layout.settings.gap}${ETX}`,
+    `${STX}${SI}d${layout.settings.darkness}${ETX}`,
+    `${STX}${SI}s${layout.settings.speed}${ETX}`,
+    ...buildFormatDefinition(layout, 1, fieldsForColumns(layout, columns)),
+    ...variants.flatMap((fields, index) => buildFormatDefinition(layout, index + 2, fields)),
+    "",
+  ];
+}
+
+/**
+ * Bloque de datos: un `ESC F "nombre"` por cada campo con nombre, seguido de
+ * la cantidad (US) y el fin de etiqueta (ETB). `format` elige el formato y
+ * `columnValues` da valores distintos a cada columna.
+ */
+export function buildDataBlock(
+  fields: LayoutField[],
+  values: FieldValues,
+  qty: number,
+  format: number = 1,
+  columnValues?: FieldValues[]
+): string {
+  const { STX, ETX, ESC, LF, US, ETB, CAN } = CONTROL_CHARS;
+  const data = fields
+    .filter((field) => field.name && field.source)
+    .map((field) => `${STX}${ESC}F"${field.name}"${LF}${fieldValue(field, columnValues?.[field.column] ?? values)}${ETX}\r\n`)
+    .join("");
+  return (
+    `${STX}${ESC}E${format}${CAN}${ETX}\r\n` +
+    data +
+    `${STX}${US}${qty}${ETX}\r\n` +
+    `${STX}${ETB}${ETX}\r\n`
+  );
+}
+
+/**
+ * Genera los bloques dinámicos para todas las etiquetas con cantidad > 0. La
+ * cantidad es el total de etiquetas, como en las demás impresoras; aquí se
+ * convierte en filas del rollo (US): un bloque con las filas completas y otro
+ * de una fila con las columnas que sobran. Las etiquetas numeradas llevan un
+ * bloque por fila con el número de cada copia en su columna (Fingerprint no
+ * incrementa por sí mismo).
+ */
+export function buildBlocks(
+  labels: LabelData[],
+  layout: LabelLayout,
+  columns: LabelColumns,
+  formatFor: (type: BarcodeType | undefined) => number = () => 1
+): string[] {
+  return toPrintRows(labels, layout, columns).map((row) =>
+    buildDataBlock(fieldsForColumns(layout, row.filled), row, row.copies, formatFor(row.barcodeType), row.columnValues)
+  );
+}
+
+/**
+ * Construye el archivo Fingerprint completo: cabecera y bloques unidos por CRLF.
+ * Las etiquetas con otra simbología que la plantilla usan un formato propio.
+ */
+export function buildFingerprintFile(labels: LabelData[], { layout, columns }: GenerateOptions): string {
+  const used = effectiveColumns(layout, columns);
+  const printed = labels.filter((label) => label.quantity > 0 && label.code);
+  const { variants, formatFor } = symbologyFormats(fieldsForColumns(layout, used), printed.map(labelBarcodeType));
+  return [
+    ...buildHeader(layout, used, variants),
+    ...buildBlocks(labels, layout, used, formatFor),
+  ].join("\r\n");
+}
+
+export const fingerprintGenerator: PrinterGenerator = {
+  id: "fingerprint",
+  name: "Honeywell Fingerprint (PM42)",
+  extension: "txt",
+  fileName: "etiquetas_generadas_fingerprint.txt",
+  generate: buildFingerprintFile,
+  blockCount: (label, options) => printRowCount(label, options),
+};
@@ -0,0 +1,16 @@
+import { PrinterGenerator, PrinterLanguage } from "../types";
+import { fingerprintGenerator } from "./fingerprint";
+import { zplGenerator } from "./zpl";
+import { eplGenerator } from "./epl";
+import { iplGenerator } from "./ipl";
+
+/** Backends disponibles, en el orden en que se muestran en la interfaz. */
+export const GENERATORS: PrinterGenerator[] = [
+  fingerprintGenerator,
+  zplGenerator,
+  eplGenerator,
+  iplGenerator,
+];
+
+export const getGenerator = (id: PrinterLanguage): PrinterGenerator =>
+  GENERATORS.find((generator) => generator.id === id) ?? fingerprintGenerator;
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { buildIplFile, iplGenerator } from "./ipl";
+import { lintLabels } from "./lint";
+import { DEFAULT_LAYOUTS } from "../layouts";
+import { LabelData } from "../types";
+import { DEFAULT_OUTPUT_OPTIONS } from "../utils/output";
+
+const label: LabelData = { id: "1", code: "ABC123", description: "Tornillos", quantity: 4 };
+const layout = DEFAULT_LAYOUTS[0];
+
+describe("buildIplFile", () => {
+  it("define el formato en modo programa y envía los campos por número", () => {
+    const lines = buildIplFile([label], { layout, columns: 3 }).split("\r\n");
+    expect(lines.slice(0, 3)).toEqual(["<STX><ESC>C<ETX>", "<STX><ESC>P<ETX>", "<STX>E1;F1<ETX>"]);
+    expect(lines).toContain("<STX>R<ETX>");
+    expect(lines.filter((line) => line.startsWith("<STX><ESC>E1<CAN>"))).toHaveLength(2);
+  });
+
+  it("reparte la cantidad en filas completas y una fila parcial", () => {
+    const rows = buildIplFile([label], { layout, columns: 3 })
+      .split("\r\n")
+      .filter((line) => line.startsWith("<STX><ESC>E"));
+    expect(rows[0]).toMatch(/<ESC>F0<LF>ABC123.*<ESC>F1<LF>ABC123.*<US>1<ETB>/);
+    expect(rows[1]).toMatch(/<ESC>F0<LF>ABC123.*<ESC>F1<LF><ESC>.*<US>1<ETB>/);
+  });
+
+  it("agrega un formato por cada simbología distinta de la plantilla", () => {
+    const program = buildIplFile([label, { ...label, id: "2", code: "7791234567898", barcodeType: "ean13" }], { layout, columns: 1 });
+    expect(program).toContain("<STX>E2;F2<ETX>");
+    expect(program).toContain("<STX><ESC>E2<CAN><ESC>F0<LF>7791234567898");
+  });
+
+  it("pasa el validador", () => {
+    expect(lintLabels(iplGenerator, [label], { layout, columns: 3 }, DEFAULT_OUTPUT_OPTIONS)).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import { LabelData, GenerateOptions, LayoutField, PrinterGenerator } from "../types";
+import { effectiveColumns, fieldsForColumns } from "../layouts";
+import { CONTROL_CHARS, serializeField } from "./fingerprint";
+import { PrintRow, fieldValue, printRowCount, rowValues, symbologyFormats, toPrintRows } from "./rows";
+
+/**
+ * Definición de un formato en modo programa, con los campos de la plantilla
+ * sin nombre. Sólo el primero selecciona el modo avanzado (ESC C).
+ */
+function buildFormat(fields: LayoutField[], format: number): string[] {
+  const { STX, ETX, ESC } = CONTROL_CHARS;
+  return [
+    ...(format === 1 ? [`${STX}${ESC}C${ETX}`] : []),
+    `${STX}${ESC}P${ETX}`,
+    `${STX}E${format};F${format}${ETX}`,
+    ...fields.map((field) => `${STX}${serializeField(field, false)}${ETX}`),
+    `${STX}R${ETX}`,
+  ];
+}
+
+// Datos de una fila: los campos de las columnas vacías se envían en blanco.
+function buildRow(row: PrintRow, fields: LayoutField[], format: number): string {
+  const { STX, ETX, ESC, LF, US, ETB, CAN } = CONTROL_CHARS;
+  const data = fields
+    .filter((field) => field.kind !== "image")
+    .map((field) => `${ESC}F${field.number}${LF}${field.column < row.filled ? fieldValue(field, rowValues(row, field)) : ""}`)
+    .join("");
+  return `${STX}${ESC}E${format}${CAN}${data}${US}${row.copies}${ETB}${ETX}`;
+}
+
+/**
+ * Genera un programa Intermec IPL genérico con campos numerados, para las
+ * impresoras que no usan el formato ETIQ2J de SAP.
+ */
+export function buildIplFile(labels: LabelData[], { layout, columns }: GenerateOptions): string {
+  const used = effectiveColumns(layout, columns);
+  const fields = fieldsForColumns(layout, used);
+  const printRows = toPrintRows(labels, layout, used);
+  // Una simbología distinta de la plantilla necesita su propio formato.
+  const { variants, formatFor } = symbologyFormats(fields, printRows.map((row) => row.barcodeType));
+  const formats = [fields, ...variants].flatMap((formatFields, index) => buildFormat(formatFields, index + 1));
+  const rows = printRows.map((row) => buildRow(row, fields, formatFor(row.barcodeType)));
+  return [...formats, ...rows].join("\r\n") + "\r\n";
+}
+
+export const iplGenerator: PrinterGenerator = {
+  id: "ipl",
+  name: "Intermec IPL",
+  extension: "ipl",
+  fileName: "etiquetas_generadas_ipl.ipl",
+  generate: buildIplFile,
+  blockCount: (label, options) => printRowCount(label, options),
+};
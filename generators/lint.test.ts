@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { GenerateOptions, LabelData } from "../types";
+import { DEFAULT_LAYOUTS } from "../layouts";
+import { DEFAULT_OUTPUT_OPTIONS } from "../utils/output";
+import { lintLabels } from "./lint";
+import { fingerprintGenerator } from "./fingerprint";
+import { eplGenerator } from "./epl";
+import { zplGenerator } from "./zpl";
+
+const OPTIONS: GenerateOptions = { layout: DEFAULT_LAYOUTS[0], columns: 3 };
+const label = (id: string, code: string, description: string, quantity: number = 1): LabelData => ({ id, code, description, quantity });
+
+describe("lintLabels", () => {
+  it("asocia cada problema a la etiqueta que generó el bloque", () => {
+    const labels = [label("a", "A1", "Tornillos", 4), label("b", "1234567890123", "Clavos", 2), label("c", "C3", "Tuercas")];
+    [fingerprintGenerator, zplGenerator, eplGenerator].forEach((generator) => {
+      const errors = lintLabels(generator, labels, OPTIONS, DEFAULT_OUTPUT_OPTIONS).filter((issue) => issue.severity === "error");
+      expect(errors.length).toBeGreaterThan(0);
+      expect(errors.every((issue) => issue.labelId === "b")).toBe(true);
+    });
+  });
+
+  it("revisa el largo después de adaptar el texto a la página de códigos (… → ...)", () => {
+    const issues = lintLabels(fingerprintGenerator, [label("a", "A1", "ABCDEFGHIJKLMNOPQRSTUVWX…")], OPTIONS, DEFAULT_OUTPUT_OPTIONS);
+    expect(issues.map((issue) => issue.message)).toContain("TX3 tiene 27 caracteres y el campo admite 25: la impresora lo cortará.");
+  });
+
+  it("avisa los caracteres que se imprimirán como ?", () => {
+    const issues = lintLabels(fingerprintGenerator, [label("a", "A1", "Adorno ☃ navidad")], OPTIONS, DEFAULT_OUTPUT_OPTIONS);
+    expect(issues).toContainEqual(expect.objectContaining({
+      severity: "warning",
+      labelId: "a",
+      message: 'TX3: "☃" no existe en CP850 (DOS Latin-1) y se imprimirá como "?".',
+    }));
+  });
+
+  it("detecta comillas que aparecen al transliterar en EPL", () => {
+    const issues = lintLabels(eplGenerator, [label("a", "A1", "Tornillo “largo”")], OPTIONS, DEFAULT_OUTPUT_OPTIONS);
+    expect(issues.some((issue) => issue.severity === "error" && issue.labelId === "a")).toBe(true);
+  });
+});
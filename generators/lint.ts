@@ -0,0 +1,424 @@
+import {
+  BarcodeType, GenerateOptions, LabelData, LayoutField, LayoutFieldKind, LintIssue, OutputOptions, PrinterGenerator, PrinterLanguage,
+} from "../types";
+import { applySymbology, effectiveColumns, fieldsForColumns } from "../layouts";
+import { ENCODING_LABELS, prepareText } from "../utils/encoding";
+
+/** Campo tal como lo declara el formato o, en ZPL y EPL, la plantilla. */
+interface FieldDefinition {
+  /** Nombre con el que se informa: "BR0", "TX3" o el número de campo. */
+  name: string;
+  kind: LayoutFieldKind;
+  maxLength?: number;
+  /** Campo de la plantilla activa; sin él no se sabe qué dato lleva. */
+  field?: LayoutField;
+}
+
+/** Dato de un bloque y la definición a la que hace referencia. */
+interface RecordField {
+  definition: FieldDefinition;
+  value: string;
+  line: number;
+}
+
+/** Bloque de datos: una fila del rollo con sus campos y la cantidad de copias. */
+interface ProgramRecord {
+  line: number;
+  fields: RecordField[];
+  quantity?: number;
+  /** El encuadre del bloque está roto: ya se informó y no se revisa la cantidad. */
+  broken?: boolean;
+}
+
+/** Problema con el índice del bloque en el que aparece, para asociarlo a una etiqueta. */
+type RecordIssue = LintIssue & { record?: number };
+
+interface ParsedProgram {
+  records: ProgramRecord[];
+  issues: RecordIssue[];
+}
+
+/** Máximo de copias por bloque que acepta cada lenguaje. */
+const MAX_COPIES: Record<PrinterLanguage, number> = {
+  fingerprint: 9999,
+  ipl: 9999,
+  zpl: 99999999,
+  epl: 65535,
+};
+
+const CONTROL_IN_DATA = /<(STX|ETX|ESC|LF|CR|US|ETB|CAN|SI)>|[\x00-\x1F\x7F]/;
+
+// Definición de un campo de la plantilla; un código de largo fijo amplía d0,N como al generar.
+const definitionOf = (layoutField: LayoutField, type?: BarcodeType): FieldDefinition => {
+  const field = applySymbology([layoutField], type)[0];
+  return { name: field.name ?? String(field.number), kind: field.kind, maxLength: field.maxLength, field };
+};
+
+// Simbología de un código ZPL según su comando (^BE, ^B8...).
+const ZPL_SYMBOLOGIES: [RegExp, BarcodeType][] = [
+  [/\^BE/, "ean13"],
+  [/\^B8/, "ean8"],
+  [/\^BU/, "upca"],
+  [/\^B3/, "code39"],
+  [/\^BC.*,D$/, "gs1128"],
+  [/\^BC/, "code128"],
+];
+
+// Simbología de un código EPL2 según el tipo del comando B.
+const EPL_SYMBOLOGIES: Record<string, BarcodeType> = {
+  "1": "code128",
+  "3": "code39",
+  E30: "ean13",
+  E80: "ean8",
+  UA0: "upca",
+  "1E": "gs1128",
+};
+
+/** Muestra un carácter de control como token: "\x03" → "<0x03>". */
+const describeControl = (match: string): string =>
+  match.startsWith("<") ? match : `<0x${match.charCodeAt(0).toString(16).padStart(2, "0").toUpperCase()}>`;
+
+/**
+ * Revisa los datos de un bloque: caracteres de control, largo máximo, campos
+ * vacíos y cantidad. Una columna sin ningún dato es el hueco de una fila
+ * incompleta y no se revisa.
+ */
+function checkRecord(record: ProgramRecord, index: number, language: PrinterLanguage, issues: RecordIssue[]): void {
+  const push = (severity: LintIssue["severity"], message: string, line: number = record.line) =>
+    issues.push({ severity, message, line, record: index });
+  const usedColumns = new Set(
+    record.fields.filter((f) => f.value !== "").map((f) => f.definition.field?.column ?? 0)
+  );
+  record.fields.forEach(({ definition, value, line }) => {
+    const { name, kind, maxLength, field } = definition;
+    const control = value.match(CONTROL_IN_DATA);
+    if (control) push("error", `${name} contiene el carácter de control ${describeControl(control[0])}.`, line);
+    if (maxLength !== undefined && value.length > maxLength) {
+      if (kind === "barcode") push("error", `${name} tiene ${value.length} caracteres y el campo admite ${maxLength}.`, line);
+      else push("warning", `${name} tiene ${value.length} caracteres y el campo admite ${maxLength}: la impresora lo cortará.`, line);
+    }
+    if (value === "" && usedColumns.has(field?.column ?? 0)) {
+      if (kind === "barcode") push("error", `El código de barras ${name} está vacío.`, line);
+      else if (field?.source === "line1") push("warning", `${name} está vacío.`, line);
+    }
+  });
+  const max = MAX_COPIES[language];
+  if (record.broken) return;
+  if (record.quantity === undefined) push("error", "El bloque no indica la cantidad de copias.");
+  else if (record.quantity < 1 || record.quantity > max) push("error", `Cantidad ${record.quantity} fuera de rango (1 a ${max}).`);
+}
+
+interface Frame {
+  line: number;
+  content: string;
+}
+
+/**
+ * Separa las tramas <STX>…<ETX> de cada línea. Se informa el primer error
+ * de encuadre de cada línea: un <ETX> dentro de los datos deja texto fuera
+ * de la trama y un <ETX> huérfano a continuación.
+ */
+function splitFrames(program: string): { frames: Frame[]; errors: LintIssue[] } {
+  const frames: Frame[] = [];
+  const errors: LintIssue[] = [];
+  program.split("\r\n").forEach((text, i) => {
+    const line = i + 1;
+    let content: string | null = null;
+    const error = (message: string) => errors.push({ severity: "error", message, line });
+    for (const token of text.split(/(<STX>|<ETX>)/)) {
+      if (token === "<STX>") {
+        if (content !== null) return error("<STX> dentro de una trama sin cerrar.");
+        content = "";
+      } else if (token === "<ETX>") {
+        if (content === null) return error("<ETX> sin <STX> que lo abra.");
+        frames.push({ line, content });
+        content = null;
+      } else if (token) {
+        if (content === null) {
+          const shown = token.length > 30 ? `${token.slice(0, 30)}…` : token;
+          return error(`Texto fuera de una trama <STX>…<ETX>: "${shown}". ¿Hay un <ETX> en los datos?`);
+        }
+        content += token;
+      }
+    }
+    if (content !== null) error("Trama sin <ETX> al final de la línea.");
+  });
+  return { frames, errors };
+}
+
+const DATA_TOKENS = /<ESC>E(\d+)(?:<CAN>)?|<ESC>F(?:"([^"]*)"|(\d+))<LF>|<US>(\d*)|<ETB>/g;
+
+/**
+ * Programa Fingerprint o IPL: la cabecera define los formatos (E1, E2...) y
+ * sus campos con d0,N; cada bloque elige un formato con <ESC>E y envía los
+ * campos por nombre (Fingerprint) o número (IPL).
+ */
+function parseFramedProgram(program: string, fields: LayoutField[]): ParsedProgram {
+  const { frames, errors } = splitFrames(program);
+  const issues: RecordIssue[] = [...errors];
+  const records: ProgramRecord[] = [];
+  const formats = new Map<number, Map<string, FieldDefinition>>();
+  let programMode = false;
+  let format: Map<string, FieldDefinition> | undefined;
+  let record: ProgramRecord | null = null;
+  let formatNumber = 0;
+  // Un bloque con errores de encuadre queda incompleto: no se informa además que le falta el fin.
+  const broken = (from: number, to: number) => errors.some((error) => error.line >= from && error.line <= to);
+
+  const recordIssue = (message: string, line: number) =>
+    issues.push({ severity: "error", message, line, record: record ? records.length - 1 : undefined });
+
+  frames.forEach(({ line, content }) => {
+    // Un frame de configuración (<SI>) o el modo avanzado de IPL.
+    if (content.startsWith("<SI>") || content === "<ESC>C") return;
+    if (/^<ESC>P;?$/.test(content)) {
+      programMode = true;
+      return;
+    }
+    if (programMode) {
+      const start = content.match(/^E(\d+)[,;]/);
+      const definition = content.match(/^([BHI])(\d+)(?:,([^;]+))?;(.*)$/);
+      if (content === "R") {
+        programMode = false;
+      } else if (start) {
+        format = new Map();
+        formats.set(Number(start[1]), format);
+      } else if (definition && format) {
+        const [, letter, number, name, params] = definition;
+        const maxLength = params.match(/(?:^|;)d0,(\d+)/);
+        const key = name ?? number;
+        const field = fields.find((f) => (name ? f.name === name : f.number === Number(number)));
+        if (!field) issues.push({ severity: "warning", message: `El campo ${key} no existe en la plantilla activa.`, line });
+        format.set(key, {
+          name: field?.name ?? key,
+          kind: letter === "B" ? "barcode" : letter === "H" ? "text" : "image",
+          maxLength: maxLength ? Number(maxLength[1]) : undefined,
+          field,
+        });
+      }
+      return;
+    }
+
+    let current: RecordField | null = null;
+    let last = 0;
+    const text = (end: number) => {
+      const between = content.slice(last, end);
+      if (current) current.value += between;
+      else if (between) recordIssue(`Datos fuera de un campo: "${between}".`, line);
+    };
+    DATA_TOKENS.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = DATA_TOKENS.exec(content)) !== null) {
+      text(match.index);
+      last = DATA_TOKENS.lastIndex;
+      current = null;
+      const [token, start, name, number, quantity] = match;
+      if (start !== undefined) {
+        if (record && broken(record.line, line)) record.broken = true;
+        else if (record) recordIssue("Bloque sin <ETB> antes del siguiente.", line);
+        record = { line, fields: [] };
+        records.push(record);
+        formatNumber = Number(start);
+        if (!formats.has(formatNumber)) recordIssue(`El bloque usa el formato E${formatNumber}, que no está definido.`, line);
+      } else if (!record) {
+        issues.push({ severity: "error", message: `${token} fuera de un bloque de datos.`, line });
+      } else if (quantity !== undefined) {
+        record.quantity = quantity === "" ? undefined : Number(quantity);
+      } else if (token === "<ETB>") {
+        record = null;
+      } else {
+        const key = name ?? number;
+        const definition = formats.get(formatNumber)?.get(key);
+        if (!definition && formats.has(formatNumber)) recordIssue(`El campo ${key} no está definido en el formato E${formatNumber}.`, line);
+        if (definition) {
+          current = { definition, value: "", line };
+          record.fields.push(current);
+        }
+      }
+    }
+    text(content.length);
+  });
+  const lastRecord = record as ProgramRecord | null;
+  if (lastRecord && broken(lastRecord.line, Infinity)) lastRecord.broken = true;
+  else if (lastRecord) issues.push({ severity: "error", message: "El último bloque no termina con <ETB>.", line: lastRecord.line, record: records.length - 1 });
+  // Los errores de encuadre pertenecen al último bloque empezado antes de su línea.
+  issues.forEach((issue) => {
+    if (issue.record !== undefined || !errors.includes(issue)) return;
+    const index = records.filter((r) => r.line <= issue.line).length - 1;
+    if (index >= 0) {
+      issue.record = index;
+      records[index].broken = true;
+    }
+  });
+  return { records, issues };
+}
+
+/** Campo de la plantilla en esa posición; ZPL y EPL no nombran los campos. */
+const fieldAt = (fields: LayoutField[], x: number, y: number, kind: LayoutFieldKind): LayoutField | undefined =>
+  fields.find((f) => f.origin.x === x && f.origin.y === y && f.kind === kind);
+
+/**
+ * Programa ZPL: un formato ^XA…^XZ por bloque con ^FO, los datos en ^FD (con
+ * ^FH, escapados como _XX) o ^SN, y ^PQ como cantidad.
+ */
+function parseZplProgram(program: string, fields: LayoutField[]): ParsedProgram {
+  const issues: RecordIssue[] = [];
+  const records: ProgramRecord[] = [];
+  let record: ProgramRecord | null = null;
+  program.split("\r\n").forEach((text, i) => {
+    const line = i + 1;
+    const push = (message: string) =>
+      issues.push({ severity: "error", message, line, record: record ? records.length - 1 : undefined });
+    if (text === "^XA") {
+      if (record) push("^XA dentro de un formato sin ^XZ.");
+      record = { line, fields: [] };
+      records.push(record);
+      return;
+    }
+    if (!record) {
+      if (text) push(`Comando fuera de ^XA…^XZ: "${text}".`);
+      return;
+    }
+    if (text === "^XZ") {
+      record = null;
+      return;
+    }
+    const quantity = text.match(/^\^PQ(\d+)$/);
+    if (quantity) {
+      record.quantity = Number(quantity[1]);
+      return;
+    }
+    const field = text.match(/^\^FO(\d+),(\d+)(.*?)(?:\^FH\^FD(.*)|\^SN(.*),-?\d+,Y)\^FS$/);
+    if (!field) {
+      if (!/^\^(CI|LH)[\d,]*$/.test(text)) push(`Línea no reconocida: "${text}".`);
+      return;
+    }
+    const [, x, y, command, data, serial] = field;
+    const type = ZPL_SYMBOLOGIES.find(([pattern]) => pattern.test(command))?.[1];
+    const layoutField = fieldAt(fields, Number(x), Number(y), type ? "barcode" : "text");
+    if (!layoutField) {
+      push(`El campo en ^FO${x},${y} no corresponde a ningún campo de la plantilla.`);
+      return;
+    }
+    const raw = data ?? serial;
+    const definition = definitionOf(layoutField, type);
+    if (/[\^~]/.test(raw)) push(`${definition.name} contiene ^ o ~ sin escapar.`);
+    const value = raw.replace(/_([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+    record.fields.push({ definition, value, line });
+  });
+  if (record) {
+    issues.push({ severity: "error", message: "El último formato no termina con ^XZ.", line: (record as ProgramRecord).line, record: records.length - 1 });
+  }
+  return { records, issues };
+}
+
+/**
+ * Programa EPL2: la cabecera (S, D, I) y un bloque por fila que empieza con
+ * N, sigue con los campos A y B entre comillas y termina con P.
+ */
+function parseEplProgram(program: string, fields: LayoutField[]): ParsedProgram {
+  const issues: RecordIssue[] = [];
+  const records: ProgramRecord[] = [];
+  let record: ProgramRecord | null = null;
+  program.split("\r\n").forEach((text, i) => {
+    const line = i + 1;
+    const push = (message: string) =>
+      issues.push({ severity: "error", message, line, record: record ? records.length - 1 : undefined });
+    if (text === "N") {
+      if (record) push("N dentro de un bloque sin P.");
+      record = { line, fields: [] };
+      records.push(record);
+      return;
+    }
+    if (!record) {
+      if (text && !/^(S\d+|D\d+|I8,[0-9A-Z],\d+)$/.test(text)) push(`Comando fuera de un bloque N…P: "${text}".`);
+      return;
+    }
+    const quantity = text.match(/^P(\d+)(?:,\d+)?$/);
+    if (quantity) {
+      record.quantity = Number(quantity[1]);
+      record = null;
+      return;
+    }
+    const field = text.match(/^([AB])(\d+),(\d+),\d+,([^,]+),.*?,"((?:[^"\\]|\\.)*)"$/);
+    if (!field) {
+      push(`Línea no reconocida (¿comillas sin escapar?): "${text}".`);
+      return;
+    }
+    const [, letter, x, y, type, data] = field;
+    const layoutField = fieldAt(fields, Number(x), Number(y), letter === "B" ? "barcode" : "text");
+    if (!layoutField) {
+      push(`El campo en ${letter}${x},${y} no corresponde a ningún campo de la plantilla.`);
+      return;
+    }
+    const definition = definitionOf(layoutField, letter === "B" ? EPL_SYMBOLOGIES[type] : undefined);
+    record.fields.push({ definition, value: data.replace(/\\(.)/g, "$1"), line });
+  });
+  if (record) {
+    issues.push({ severity: "error", message: "El último bloque no termina con P.", line: (record as ProgramRecord).line, record: records.length - 1 });
+  }
+  return { records, issues };
+}
+
+const PARSERS: Record<PrinterLanguage, (program: string, fields: LayoutField[]) => ParsedProgram> = {
+  fingerprint: parseFramedProgram,
+  ipl: parseFramedProgram,
+  zpl: parseZplProgram,
+  epl: parseEplProgram,
+};
+
+/**
+ * Valida el programa que genera `generator` para las etiquetas tal como sale
+ * en el archivo, con la página de códigos de `output` ya aplicada: encuadre,
+ * referencias a campos, largos máximos (un reemplazo como ½ → "1/2" alarga
+ * el dato), caracteres de control, caracteres que se imprimirán como "?" y
+ * cantidades. Cada problema de un bloque se asocia a la etiqueta que lo
+ * generó según los bloques que produce cada una. Devuelve los problemas
+ * ordenados por línea.
+ */
+export function lintLabels(
+  generator: PrinterGenerator,
+  labels: LabelData[],
+  options: GenerateOptions,
+  output: Pick<OutputOptions, "encoding" | "transliterate">
+): LintIssue[] {
+  const { layout, columns } = options;
+  const fields = fieldsForColumns(layout, effectiveColumns(layout, columns));
+
+  // Caracteres sin equivalente en la página de códigos, por línea.
+  const lost = new Map<number, string[]>();
+  const program = generator
+    .generate(labels, options)
+    .split("\r\n")
+    .map((text, i) => {
+      const prepared = prepareText(text, output.encoding, output.transliterate);
+      const missing = prepared.substitutions.filter((s) => s.replacement === "?").map((s) => `"${s.original}"`);
+      if (missing.length > 0) lost.set(i + 1, missing);
+      return prepared.text;
+    })
+    .join("\r\n");
+
+  const { records, issues } = PARSERS[generator.id](program, fields);
+  if (generator.id === "epl" && output.encoding === "utf-8") {
+    issues.push({ severity: "warning", line: 1, message: "EPL2 no admite UTF-8: los caracteres acentuados saldrán mal. Elija CP850 o CP1252." });
+  }
+  records.forEach((record, index) => {
+    checkRecord(record, index, generator.id, issues);
+    record.fields.forEach(({ definition, line }) => {
+      const missing = lost.get(line);
+      if (!missing) return;
+      issues.push({
+        severity: definition.kind === "barcode" ? "error" : "warning",
+        message: `${definition.name}: ${missing.join(", ")} no existe en ${ENCODING_LABELS[output.encoding]} y se imprimirá como "?".`,
+        line,
+        record: index,
+      });
+    });
+  });
+  const owners = labels
+    .filter((label) => label.quantity > 0 && label.code)
+    .flatMap((label) => Array.from({ length: generator.blockCount(label, options) }, () => label.id));
+  return issues
+    .map(({ record, ...issue }) => (record === undefined ? issue : { ...issue, labelId: owners[record] }))
+    .sort((a, b) => a.line - b.line);
+}
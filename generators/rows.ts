@@ -0,0 +1,132 @@
+import { BarcodeType, FieldValues, GenerateOptions, LabelData, LabelColumns, LabelLayout, LayoutField } from "../types";
+import { applySymbology, effectiveColumns, labelBarcodeType, labelValues } from "../layouts";
+import { gs1BarcodeData } from "../utils/gs1";
+import { formatSerial, printerCanIncrement } from "../utils/serial";
+
+/**
+ * Una fila física del rollo: el mismo artículo repetido en `filled` columnas,
+ * impresa `copies` veces. `barcodeType` es la simbología de la etiqueta, si
+ * difiere de la plantilla.
+ */
+export interface PrintRow extends FieldValues {
+  filled: number;
+  copies: number;
+  barcodeType?: BarcodeType;
+  /** Valores propios de cada columna (etiquetas numeradas); sin ellos todas usan los de la fila. */
+  columnValues?: FieldValues[];
+  /** Incremento por copia que aplica la impresora al código (numeración en la impresora). */
+  serialStep?: number;
+}
+
+/** Valores de la fila para un campo, según su columna. */
+export const rowValues = (row: PrintRow, field: LayoutField): FieldValues => row.columnValues?.[field.column] ?? row;
+
+/**
+ * Filas de una etiqueta numerada. Con incremento de la impresora se envía
+ * el primer número de cada columna y el paso; si no, una fila por cada
+ * fila física del rollo con el número de cada copia.
+ */
+function serialRows(
+  label: LabelData,
+  values: Omit<PrintRow, "filled" | "copies">,
+  columns: LabelColumns,
+  serialIncrement: boolean
+): PrintRow[] {
+  const spec = label.serial!;
+  const withCode = (index: number): FieldValues => ({ ...values, code: formatSerial(spec, index) });
+  const columnValues = (first: number, count: number) => Array.from({ length: count }, (_, column) => withCode(first + column));
+  const fullRows = Math.floor(label.quantity / columns);
+  const remainder = label.quantity % columns;
+  const rows: PrintRow[] = [];
+  if (serialIncrement && spec.mode === "printer" && printerCanIncrement(spec)) {
+    if (fullRows > 0) {
+      rows.push({ ...values, filled: columns, copies: fullRows, columnValues: columnValues(0, columns), serialStep: spec.step * columns });
+    }
+    if (remainder > 0) {
+      rows.push({ ...values, filled: remainder, copies: 1, columnValues: columnValues(fullRows * columns, remainder) });
+    }
+    return rows;
+  }
+  for (let first = 0; first < label.quantity; first += columns) {
+    const filled = Math.min(columns, label.quantity - first);
+    rows.push({ ...values, filled, copies: 1, columnValues: columnValues(first, filled) });
+  }
+  return rows;
+}
+
+/**
+ * Reparte cada etiqueta en filas del rollo. Con tres columnas se imprimen
+ * primero las filas completas y luego una fila parcial con el resto, para no
+ * desperdiciar etiquetas. Se omiten los artículos con cantidad 0. Las
+ * etiquetas numeradas usan los campos de incremento si `serialIncrement`.
+ */
+export function toPrintRows(
+  labels: LabelData[],
+  layout: LabelLayout,
+  columns: LabelColumns,
+  serialIncrement: boolean = false
+): PrintRow[] {
+  const rows: PrintRow[] = [];
+  labels
+    .filter((label) => label.quantity > 0 && label.code)
+    .forEach((label) => {
+      const values = { ...labelValues(label, layout), barcodeType: labelBarcodeType(label) };
+      if (label.serial) {
+        rows.push(...serialRows(label, values, columns, serialIncrement));
+        return;
+      }
+      const fullRows = Math.floor(label.quantity / columns);
+      const remainder = label.quantity % columns;
+      if (fullRows > 0) {
+        rows.push({ ...values, filled: columns, copies: fullRows });
+      }
+      if (remainder > 0) {
+        rows.push({ ...values, filled: remainder, copies: 1 });
+      }
+    });
+  return rows;
+}
+
+/** Filas del rollo que genera una etiqueta; cada una es un bloque del programa. */
+export const printRowCount = (
+  label: LabelData,
+  { layout, columns }: GenerateOptions,
+  serialIncrement: boolean = false
+): number => toPrintRows([label], layout, effectiveColumns(layout, columns), serialIncrement).length;
+
+/** Formatos adicionales por simbología y el número de formato de cada etiqueta. */
+export interface SymbologyFormats {
+  /** Campos de los formatos 2, 3, ...; el formato 1 es el de la plantilla. */
+  variants: LayoutField[][];
+  formatFor: (type: BarcodeType | undefined) => number;
+}
+
+/**
+ * En IPL la simbología se fija en la definición del formato, no en los datos.
+ * Cada simbología que cambia los campos de la plantilla necesita su propio
+ * formato; si todas las etiquetas usan la de la plantilla no se agrega ninguno.
+ */
+export function symbologyFormats(fields: LayoutField[], types: (BarcodeType | undefined)[]): SymbologyFormats {
+  const keyOf = (variant: LayoutField[]) => JSON.stringify(variant);
+  const numbers = new Map<string, number>([[keyOf(fields), 1]]);
+  const variants: LayoutField[][] = [];
+  types.forEach((type) => {
+    const variant = applySymbology(fields, type);
+    if (numbers.has(keyOf(variant))) return;
+    variants.push(variant);
+    numbers.set(keyOf(variant), variants.length + 1);
+  });
+  return {
+    variants,
+    formatFor: (type) => numbers.get(keyOf(applySymbology(fields, type))) ?? 1,
+  };
+}
+
+/**
+ * Valor que imprime un campo de la plantilla para una fila; vacío si no tiene
+ * origen. Los códigos GS1-128 se envían sin los paréntesis de los AI.
+ */
+export function fieldValue(field: LayoutField, values: FieldValues): string {
+  const value = field.source ? values[field.source] : "";
+  return field.kind === "barcode" && field.barcodeType === "gs1128" ? gs1BarcodeData(value) : value;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { buildZplFile } from "./zpl";
+import { DEFAULT_LAYOUTS } from "../layouts";
+import { LabelData } from "../types";
+import { DEFAULT_OUTPUT_OPTIONS, renderOutput } from "../utils/output";
+
+const label: LabelData = { id: "1", code: "ABC123", description: "Caño niño", quantity: 4 };
+const layout = DEFAULT_LAYOUTS[0];
+
+describe("buildZplFile", () => {
+  it("arma un formato por fila con ^PQ como copias", () => {
+    const program = buildZplFile([label], { layout, columns: 3 });
+    expect(program.match(/\^XA/g)).toHaveLength(2);
+    expect(program).toContain("^PQ1\r\n^XZ");
+    expect(program).toContain("^FH^FDABC123^FS");
+  });
+
+  it("escapa los caracteres de control de ZPL", () => {
+    const program = buildZplFile([{ ...label, code: "A^B_C" }], { layout, columns: 1 });
+    expect(program).toContain("^FDA_5EB_5FC^FS");
+  });
+
+  it.each([
+    ["cp850", "^CI0"],
+    ["windows-1252", "^CI27"],
+    ["iso-8859-1", "^CI27"],
+    ["utf-8", "^CI28"],
+  ] as const)("con %s indica %s", (encoding, command) => {
+    const program = buildZplFile([label], { layout, columns: 1, encoding });
+    expect(program.split("\r\n")[1]).toBe(command);
+  });
+
+  it("sin codificación usa CP850, como la salida por defecto", () => {
+    const program = buildZplFile([label], { layout, columns: 1 });
+    expect(program).toContain("^CI0");
+    // ñ es 0xA4 en CP850.
+    expect([...renderOutput(program, DEFAULT_OUTPUT_OPTIONS)]).toContain(0xa4);
+  });
+});
@@ -0,0 +1,88 @@
+import { BarcodeType, FieldDirection, LabelData, GenerateOptions, LayoutField, OutputEncoding, PrinterGenerator } from "../types";
+import { applySymbology, effectiveColumns, fieldsForColumns } from "../layouts";
+import { textMetrics } from "../layouts/geometry";
+import { PrintRow, fieldValue, printRowCount, rowValues, toPrintRows } from "./rows";
+
+// Las direcciones de la plantilla giran en sentido antihorario; R y B de ZPL giran 90° y 270° horario.
+const ORIENTATION: Record<FieldDirection, string> = { 0: "N", 1: "B", 2: "I", 3: "R" };
+
+// Comando de cada simbología: orientación, alto y texto legible (Y/N).
+const BARCODE_COMMANDS: Record<BarcodeType, (o: string, h: number, hr: string) => string> = {
+  code128: (o, h, hr) => `^BC${o},${h},${hr},N,N`,
+  code39: (o, h, hr) => `^B3${o},N,${h},${hr},N`,
+  ean13: (o, h, hr) => `^BE${o},${h},${hr},N`,
+  ean8: (o, h, hr) => `^B8${o},${h},${hr},N`,
+  upca: (o, h, hr) => `^BU${o},${h},${hr},N,Y`,
+  // Modo D: UCC/EAN-128, la impresora agrega el FNC1 inicial.
+  gs1128: (o, h, hr) => `^BC${o},${h},${hr},N,N,D`,
+};
+
+/**
+ * Juego de caracteres ^CI para cada codificación del archivo: ^CI0 usa la
+ * página 850 de Zebra para los bytes altos, ^CI27 la 1252 (que coincide con
+ * ISO-8859-1 en los caracteres imprimibles) y ^CI28 UTF-8.
+ */
+export const ZPL_CHARSETS: Record<OutputEncoding, string> = {
+  cp850: "^CI0",
+  "windows-1252": "^CI27",
+  "iso-8859-1": "^CI27",
+  ascii: "^CI0",
+  "utf-8": "^CI28",
+};
+
+/**
+ * Escapa el contenido de un campo ZPL. Los caracteres de control de ZPL
+ * (^ y ~) y el indicador hexadecimal (_) se envían como _XX junto con ^FH.
+ */
+const escapeField = (value: string): string =>
+  value.replace(/[_^~]/g, (ch) => `_${ch.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * Campo ZPL. Con `serialStep` el valor es el primer número y ^SN lo
+ * incrementa en cada copia, conservando los ceros a la izquierda.
+ */
+function buildField(field: LayoutField, value: string, serialStep?: number): string {
+  const o = ORIENTATION[field.direction];
+  const hr = field.humanReadable === false ? "N" : "Y";
+  const command =
+    field.kind === "barcode"
+      ? `^BY${field.width}${BARCODE_COMMANDS[field.barcodeType ?? "code128"](o, field.height, hr)}`
+      : `^A0${o},${Math.round(textMetrics(field).height)},${Math.round(textMetrics(field).charWidth)}`;
+  const data = serialStep !== undefined ? `^SN${value},${serialStep},Y` : `^FH^FD${escapeField(value)}`;
+  return `^FO${field.origin.x},${field.origin.y}${command}${data}^FS`;
+}
+
+function buildRow(row: PrintRow, fields: LayoutField[], charset: string): string {
+  const lines = ["^XA", charset, "^LH0,0"];
+  applySymbology(fields, row.barcodeType)
+    .filter((field) => field.kind !== "image" && field.column < row.filled)
+    .forEach((field) => {
+      const step = field.source === "code" ? row.serialStep : undefined;
+      lines.push(buildField(field, fieldValue(field, rowValues(row, field)), step));
+    });
+  lines.push(`^PQ${row.copies}`, "^XZ");
+  return lines.join("\r\n");
+}
+
+/**
+ * Genera un programa ZPL II (Zebra): un formato ^XA..^XZ por fila del rollo
+ * con ^PQ como cantidad de copias. Los campos I de la plantilla no se envían.
+ * Las etiquetas numeradas pueden usar ^SN para que la impresora incremente.
+ */
+export function buildZplFile(labels: LabelData[], { layout, columns, encoding = "cp850" }: GenerateOptions): string {
+  const used = effectiveColumns(layout, columns);
+  const fields = fieldsForColumns(layout, used);
+  return toPrintRows(labels, layout, used, true)
+    .map((row) => buildRow(row, fields, ZPL_CHARSETS[encoding]))
+    .join("\r\n") + "\r\n";
+}
+
+export const zplGenerator: PrinterGenerator = {
+  id: "zpl",
+  name: "Zebra ZPL II",
+  extension: "zpl",
+  fileName: "etiquetas_generadas_zpl.zpl",
+  serialIncrement: true,
+  generate: buildZplFile,
+  blockCount: (label, options) => printRowCount(label, options, true),
+};
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { BridgePrinter, PrintJob } from "../types";
+import { bridgeSocketUrl } from "../utils/printBridge";
+
+const RECONNECT_MS = 3000;
+
+interface BridgeState {
+  connected: boolean;
+  printers: BridgePrinter[];
+  jobs: PrintJob[];
+}
+
+/**
+ * Sigue el estado del puente de impresión por WebSocket: impresoras
+ * configuradas y cola de trabajos. Si el puente no está iniciado o se cae,
+ * vuelve a intentar la conexión cada pocos segundos.
+ */
+export function usePrintBridge(url: string): BridgeState {
+  const [state, setState] = useState<BridgeState>({ connected: false, printers: [], jobs: [] });
+
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const connect = () => {
+      try {
+        socket = new WebSocket(bridgeSocketUrl(url));
+      } catch {
+        return;
+      }
+      socket.onmessage = event => {
+        const message = JSON.parse(String(event.data));
+        if (message.type === "snapshot") {
+          setState({ connected: true, printers: message.printers, jobs: message.jobs });
+        } else if (message.type === "job") {
+          const job = message.job as PrintJob;
+          setState(s => ({
+            ...s,
+            jobs: s.jobs.some(j => j.id === job.id) ? s.jobs.map(j => (j.id === job.id ? job : j)) : [...s.jobs, job],
+          }));
+        }
+      };
+      socket.onclose = () => {
+        setState(s => ({ ...s, connected: false }));
+        if (!closed) timer = setTimeout(connect, RECONNECT_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      clearTimeout(timer);
+      socket?.close();
+    };
+  }, [url]);
+
+  return state;
+}
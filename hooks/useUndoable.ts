@@ -0,0 +1,95 @@
+import { useCallback, useState } from "react";
+
+export type Updater<T> = T | ((current: T) => T);
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  /** Clave y hora del último cambio, para agrupar ediciones seguidas. */
+  lastKey?: string;
+  lastTime: number;
+}
+
+export interface SetOptions {
+  /**
+   * Cambios seguidos con la misma clave (p. ej. teclear en un campo) se
+   * guardan como un solo paso de historial.
+   */
+  coalesce?: string;
+}
+
+const HISTORY_LIMIT = 100;
+const COALESCE_MS = 1000;
+
+/**
+ * Estado con historial para deshacer y rehacer. Cada cambio guarda el valor
+ * anterior; un cambio nuevo descarta lo que se podía rehacer.
+ */
+export function useUndoable<T>(initial: T | (() => T)) {
+  const [history, setHistory] = useState<History<T>>(() => ({
+    past: [],
+    present: typeof initial === "function" ? (initial as () => T)() : initial,
+    future: [],
+    lastTime: 0,
+  }));
+
+  const set = useCallback((updater: Updater<T>, options: SetOptions = {}) => {
+    setHistory(h => {
+      const next = typeof updater === "function" ? (updater as (current: T) => T)(h.present) : updater;
+      if (Object.is(next, h.present)) return h;
+      const now = Date.now();
+      const merge = options.coalesce !== undefined && options.coalesce === h.lastKey && now - h.lastTime < COALESCE_MS;
+      return {
+        past: merge ? h.past : [...h.past, h.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        lastKey: options.coalesce,
+        lastTime: now,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => h.past.length === 0 ? h : {
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future],
+      lastTime: 0,
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => h.future.length === 0 ? h : {
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1),
+      lastTime: 0,
+    });
+  }, []);
+
+  /**
+   * Aplica `change` a todos los valores del historial sin agregar un paso,
+   * para datos que deben seguir valiendo al deshacer (p. ej. a qué lote
+   * pertenece la lista).
+   */
+  const rewrite = useCallback((change: (value: T) => T) => {
+    setHistory(h => ({ ...h, past: h.past.map(change), present: change(h.present), future: h.future.map(change) }));
+  }, []);
+
+  /** Reemplaza el valor y vacía el historial. */
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [], lastTime: 0 });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    rewrite,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
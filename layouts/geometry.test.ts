@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { LabelLayout, LayoutField } from "../types";
+import { DEFAULT_LAYOUTS } from ".";
+import { fieldIssues, rotateBounds, TEXT_HEIGHT_SCALE, TEXT_WIDTH_SCALE } from "./geometry";
+
+const TEXT: LayoutField = { number: 3, name: "TX3", kind: "text", column: 0, source: "line1", origin: { x: 20, y: 200 }, direction: 1, font: 25, height: 4, width: 2, maxLength: 10 };
+const LAYOUT: LabelLayout = { ...DEFAULT_LAYOUTS[0], labelSize: { width: 100, height: 250 }, fields: [TEXT] };
+
+describe("rotateBounds", () => {
+  it("gira el rectángulo alrededor del origen en cada dirección", () => {
+    const size = { length: 30, thickness: 10 };
+    const origin = { x: 100, y: 100 };
+    expect(rotateBounds(origin, 0, size)).toEqual({ left: 100, top: 100, right: 130, bottom: 110 });
+    expect(rotateBounds(origin, 1, size)).toEqual({ left: 100, top: 70, right: 110, bottom: 100 });
+    expect(rotateBounds(origin, 2, size)).toEqual({ left: 70, top: 90, right: 100, bottom: 100 });
+    expect(rotateBounds(origin, 3, size)).toEqual({ left: 90, top: 100, right: 100, bottom: 130 });
+  });
+});
+
+describe("fieldIssues", () => {
+  it("no avisa cuando el texto entra en el campo y en la etiqueta", () => {
+    expect(fieldIssues(LAYOUT, TEXT, "Tornillo")).toEqual([]);
+  });
+
+  it("avisa del largo máximo y del contenido que sale de la etiqueta", () => {
+    const value = "x".repeat(Math.ceil(200 / (TEXT.width * TEXT_WIDTH_SCALE)) + 1);
+    expect(fieldIssues(LAYOUT, TEXT, value)).toEqual([
+      `TX3: ${value.length} caracteres, el campo admite 10.`,
+      "TX3: el contenido queda fuera de la etiqueta.",
+    ]);
+  });
+
+  it("cuenta el alto del texto en el borde perpendicular", () => {
+    const near = { ...TEXT, origin: { x: 100 - TEXT.height * TEXT_HEIGHT_SCALE + 1, y: 200 } };
+    expect(fieldIssues(LAYOUT, near, "ab")).toEqual(["TX3: el contenido queda fuera de la etiqueta."]);
+  });
+
+  it("marca los códigos de barras que no se pueden codificar", () => {
+    const barcode: LayoutField = { number: 0, name: "BR0", kind: "barcode", column: 0, source: "code", origin: { x: 5, y: 5 }, direction: 0, height: 40, width: 1, barcodeType: "ean13" };
+    expect(fieldIssues({ ...LAYOUT, labelSize: { width: 400, height: 250 } }, barcode, "ABC").length).toBeGreaterThan(0);
+  });
+});
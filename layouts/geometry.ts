@@ -0,0 +1,107 @@
+import { FieldDirection, FieldValues, LabelLayout, LayoutField } from "../types";
+import { barcodeIssues, encodeBarcode } from "../utils/barcode";
+
+/**
+ * Métricas de texto en puntos de impresora: alto de línea y avance por
+ * carácter a partir de los multiplicadores h y w del campo.
+ */
+export const TEXT_HEIGHT_SCALE = 2.5;
+export const TEXT_WIDTH_SCALE = 1.4;
+
+/** Alto en puntos de la interpretación legible que acompaña al código (i1). */
+export const HUMAN_READABLE_HEIGHT = 16;
+
+/** Rectángulo en coordenadas de la etiqueta, en puntos. */
+export interface Bounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/** Tamaño sin rotar de un campo: `length` en la dirección de lectura, `thickness` perpendicular. */
+export interface FieldSize {
+  length: number;
+  thickness: number;
+}
+
+export const textMetrics = (field: LayoutField): { height: number; charWidth: number } => ({
+  height: field.height * TEXT_HEIGHT_SCALE,
+  charWidth: field.width * TEXT_WIDTH_SCALE,
+});
+
+/**
+ * Tamaño que ocupa un campo con el valor dado. Un código de barras que no se
+ * puede codificar ocupa cero módulos.
+ */
+export function fieldSize(field: LayoutField, value: string): FieldSize {
+  switch (field.kind) {
+    case "barcode": {
+      const modules = encodeBarcode(value, field.barcodeType ?? "code128")?.length ?? 0;
+      const readable = field.humanReadable === false ? 0 : HUMAN_READABLE_HEIGHT;
+      return { length: modules * field.width, thickness: field.height + readable };
+    }
+    case "text": {
+      const { height, charWidth } = textMetrics(field);
+      return { length: value.length * charWidth, thickness: height };
+    }
+    case "image": {
+      const side = field.height * TEXT_HEIGHT_SCALE;
+      return { length: side, thickness: side };
+    }
+  }
+}
+
+/**
+ * Aplica la dirección del campo: f1..f3 giran el campo 90°, 180° y 270° en
+ * sentido antihorario alrededor de su origen. Con f1 el texto se lee hacia
+ * y decreciente, como en las columnas del formato ETIQ2J.
+ */
+export function rotateBounds(origin: { x: number; y: number }, direction: FieldDirection, size: FieldSize): Bounds {
+  const { x, y } = origin;
+  const { length, thickness } = size;
+  switch (direction) {
+    case 0:
+      return { left: x, top: y, right: x + length, bottom: y + thickness };
+    case 1:
+      return { left: x, top: y - length, right: x + thickness, bottom: y };
+    case 2:
+      return { left: x - length, top: y - thickness, right: x, bottom: y };
+    case 3:
+      return { left: x - thickness, top: y, right: x, bottom: y + length };
+  }
+}
+
+/** Transformación SVG equivalente a rotateBounds. */
+export const fieldTransform = (field: LayoutField): string =>
+  `translate(${field.origin.x} ${field.origin.y}) rotate(${-90 * field.direction})`;
+
+export const fieldBounds = (field: LayoutField, value: string): Bounds =>
+  rotateBounds(field.origin, field.direction, fieldSize(field, value));
+
+/**
+ * Problemas de un campo al imprimir un valor: datos más largos que d0,N,
+ * código no codificable o contenido fuera de la etiqueta.
+ */
+export function fieldIssues(layout: LabelLayout, field: LayoutField, value: string): string[] {
+  const issues: string[] = [];
+  const name = field.name ?? `${field.kind} ${field.number}`;
+  if (field.maxLength !== undefined && value.length > field.maxLength) {
+    issues.push(`${name}: ${value.length} caracteres, el campo admite ${field.maxLength}.`);
+  }
+  if (field.kind === "barcode" && value) {
+    issues.push(...barcodeIssues(value, field.barcodeType ?? "code128").map((issue) => `${name}: ${issue}`));
+  }
+  const bounds = fieldBounds(field, value);
+  const { width, height } = layout.labelSize;
+  if (bounds.left < 0 || bounds.top < 0 || bounds.right > width || bounds.bottom > height) {
+    issues.push(`${name}: el contenido queda fuera de la etiqueta.`);
+  }
+  return issues;
+}
+
+/** Problemas de todos los campos de la primera columna para una etiqueta. */
+export const labelIssues = (layout: LabelLayout, values: FieldValues): string[] =>
+  layout.fields
+    .filter((field) => field.column === 0)
+    .flatMap((field) => fieldIssues(layout, field, field.source ? values[field.source] : ""));
@@ -0,0 +1,530 @@
+import { BarcodeType, FieldValues, LabelColumns, LabelData, LabelLayout, LayoutField, LayoutFieldSource } from "../types";
+import { FIXED_LENGTHS, barcodeIssues, inferBarcodeType } from "../utils/barcode";
+import { formatDate } from "../utils/dates";
+import { gs1BarcodeData, gs1ElementString, gs1HumanReadable, labelGs1Elements } from "../utils/gs1";
+import { DEFAULT_CURRENCY, formatPrice } from "../utils/price";
+import { formatSerial } from "../utils/serial";
+import { splitDescription } from "../utils/text";
+
+/** Longitud de línea usada cuando la plantilla no define TX3 (d0,25). */
+export const DEFAULT_LINE_LENGTH = 25;
+
+// Campos de una columna del formato ETIQ2J de SAP: BRn, dos líneas de texto e In.
+function etiq2jColumn(column: number, barcodeY: number, textY: number, imageY: number): LayoutField[] {
+  const textNumber = 3 + column * 2;
+  return [
+    {
+      number: column,
+      name: `BR${column}`,
+      kind: "barcode",
+      column,
+      source: "code",
+      origin: { x: 60, y: barcodeY },
+      direction: 1,
+      height: 50,
+      width: 1,
+      maxLength: 12,
+      barcodeType: "code128",
+      humanReadable: true,
+    },
+    {
+      number: textNumber,
+      name: `TX${textNumber}`,
+      kind: "text",
+      column,
+      source: "line1",
+      origin: { x: 10, y: textY },
+      direction: 1,
+      font: 25,
+      height: 8,
+      width: 7,
+      maxLength: 25,
+    },
+    {
+      number: textNumber + 1,
+      name: `TX${textNumber + 1}`,
+      kind: "text",
+      column,
+      source: "line2",
+      origin: { x: 30, y: textY },
+      direction: 1,
+      font: 25,
+      height: 8,
+      width: 7,
+      maxLength: 25,
+    },
+    {
+      number: column,
+      kind: "image",
+      column,
+      origin: { x: 110, y: imageY },
+      direction: 1,
+      font: 25,
+      height: 12,
+      width: 12,
+    },
+  ];
+}
+
+// Ordena los campos como la cabecera de SAP: códigos de barras, textos e imágenes.
+const KIND_ORDER = { barcode: 0, text: 1, image: 2 } as const;
+const sortFields = (fields: LayoutField[]): LayoutField[] =>
+  [...fields].sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || a.number - b.number);
+
+const etiq2jFields = sortFields([
+  ...etiq2jColumn(0, 210, 260, 220),
+  ...etiq2jColumn(1, 480, 530, 490),
+  ...etiq2jColumn(2, 730, 790, 740),
+]);
+
+/**
+ * Plantillas de fábrica. "Estantería" reproduce exactamente la cabecera de
+ * SAP que genera generate_labels.py; "Precio de góndola" agrega precio,
+ * precio por unidad y oferta, y "Lote y vencimiento" un GS1-128 con GTIN,
+ * vencimiento y lote.
+ */
+export const DEFAULT_LAYOUTS: LabelLayout[] = [
+  {
+    id: "shelf",
+    name: "Estantería (ETIQ2J SAP)",
+    formatName: "ETIQ2J",
+    formatOptions: "L39;D0;",
+    settings: { gap: "1,420", darkness: 5, speed: 50 },
+    labelSize: { width: 150, height: 265 },
+    fields: etiq2jFields,
+    builtIn: true,
+  },
+  {
+    id: "bin",
+    name: "Gaveta / ubicación",
+    formatName: "ETIQBIN",
+    formatOptions: "L39;D0;",
+    settings: { gap: "1,520", darkness: 5, speed: 50 },
+    labelSize: { width: 200, height: 520 },
+    fields: [
+      {
+        number: 0,
+        name: "BR0",
+        kind: "barcode",
+        column: 0,
+        source: "code",
+        origin: { x: 80, y: 500 },
+        direction: 1,
+        height: 70,
+        width: 2,
+        maxLength: 12,
+        barcodeType: "code128",
+        humanReadable: true,
+      },
+      {
+        number: 3,
+        name: "TX3",
+        kind: "text",
+        column: 0,
+        source: "line1",
+        origin: { x: 10, y: 500 },
+        direction: 1,
+        font: 25,
+        height: 10,
+        width: 9,
+        maxLength: 20,
+      },
+      {
+        number: 4,
+        name: "TX4",
+        kind: "text",
+        column: 0,
+        source: "line2",
+        origin: { x: 40, y: 500 },
+        direction: 1,
+        font: 25,
+        height: 10,
+        width: 9,
+        maxLength: 20,
+      },
+    ],
+    builtIn: true,
+  },
+  {
+    id: "pallet",
+    name: "Pallet",
+    formatName: "ETIQPAL",
+    formatOptions: "L39;D0;",
+    settings: { gap: "1,800", darkness: 8, speed: 40 },
+    labelSize: { width: 400, height: 800 },
+    fields: [
+      {
+        number: 0,
+        name: "BR0",
+        kind: "barcode",
+        column: 0,
+        source: "code",
+        origin: { x: 200, y: 780 },
+        direction: 1,
+        height: 120,
+        width: 3,
+        maxLength: 20,
+        barcodeType: "code128",
+        humanReadable: true,
+      },
+      {
+        number: 3,
+        name: "TX3",
+        kind: "text",
+        column: 0,
+        source: "line1",
+        origin: { x: 20, y: 780 },
+        direction: 1,
+        font: 25,
+        height: 14,
+        width: 12,
+        maxLength: 30,
+      },
+      {
+        number: 4,
+        name: "TX4",
+        kind: "text",
+        column: 0,
+        source: "line2",
+        origin: { x: 70, y: 780 },
+        direction: 1,
+        font: 25,
+        height: 14,
+        width: 12,
+        maxLength: 30,
+      },
+    ],
+    builtIn: true,
+  },
+  {
+    id: "price",
+    name: "Precio de góndola",
+    formatName: "ETIQPRE",
+    formatOptions: "L39;D0;",
+    settings: { gap: "1,300", darkness: 5, speed: 50 },
+    labelSize: { width: 400, height: 300 },
+    fields: [
+      {
+        number: 0,
+        name: "BR0",
+        kind: "barcode",
+        column: 0,
+        source: "code",
+        origin: { x: 210, y: 238 },
+        direction: 0,
+        height: 40,
+        width: 1,
+        maxLength: 13,
+        barcodeType: "code128",
+        humanReadable: true,
+      },
+      {
+        number: 3,
+        name: "TX3",
+        kind: "text",
+        column: 0,
+        source: "line1",
+        origin: { x: 15, y: 15 },
+        direction: 0,
+        font: 25,
+        height: 10,
+        width: 9,
+        maxLength: 28,
+      },
+      {
+        number: 4,
+        name: "TX4",
+        kind: "text",
+        column: 0,
+        source: "line2",
+        origin: { x: 15, y: 45 },
+        direction: 0,
+        font: 25,
+        height: 10,
+        width: 9,
+        maxLength: 28,
+      },
+      {
+        number: 5,
+        name: "TX5",
+        kind: "text",
+        column: 0,
+        source: "price",
+        origin: { x: 15, y: 80 },
+        direction: 0,
+        font: 25,
+        height: 24,
+        width: 22,
+        maxLength: 12,
+      },
+      {
+        number: 6,
+        name: "TX6",
+        kind: "text",
+        column: 0,
+        source: "unitPrice",
+        origin: { x: 15, y: 150 },
+        direction: 0,
+        font: 25,
+        height: 8,
+        width: 7,
+        maxLength: 24,
+      },
+      {
+        number: 7,
+        name: "TX7",
+        kind: "text",
+        column: 0,
+        source: "promoPrice",
+        origin: { x: 15, y: 180 },
+        direction: 0,
+        font: 25,
+        height: 12,
+        width: 10,
+        maxLength: 20,
+      },
+      {
+        number: 8,
+        name: "TX8",
+        kind: "text",
+        column: 0,
+        source: "promoUntil",
+        origin: { x: 15, y: 220 },
+        direction: 0,
+        font: 25,
+        height: 7,
+        width: 6,
+        maxLength: 24,
+      },
+    ],
+    currency: DEFAULT_CURRENCY,
+    builtIn: true,
+  },
+  {
+    id: "gs1",
+    name: "Lote y vencimiento (GS1-128)",
+    formatName: "ETIQGS1",
+    formatOptions: "L39;D0;",
+    settings: { gap: "1,300", darkness: 6, speed: 50 },
+    labelSize: { width: 400, height: 300 },
+    fields: [
+      {
+        number: 0,
+        name: "BR0",
+        kind: "barcode",
+        column: 0,
+        source: "gs1",
+        origin: { x: 15, y: 145 },
+        direction: 0,
+        height: 80,
+        width: 1,
+        maxLength: 48,
+        barcodeType: "gs1128",
+        humanReadable: false,
+      },
+      {
+        number: 3,
+        name: "TX3",
+        kind: "text",
+        column: 0,
+        source: "line1",
+        origin: { x: 15, y: 15 },
+        direction: 0,
+        font: 25,
+        height: 10,
+        width: 9,
+        maxLength: 28,
+      },
+      {
+        number: 4,
+        name: "TX4",
+        kind: "text",
+        column: 0,
+        source: "line2",
+        origin: { x: 15, y: 45 },
+        direction: 0,
+        font: 25,
+        height: 10,
+        width: 9,
+        maxLength: 28,
+      },
+      {
+        number: 5,
+        name: "TX5",
+        kind: "text",
+        column: 0,
+        source: "lot",
+        origin: { x: 15, y: 80 },
+        direction: 0,
+        font: 25,
+        height: 10,
+        width: 9,
+        maxLength: 25,
+      },
+      {
+        number: 6,
+        name: "TX6",
+        kind: "text",
+        column: 0,
+        source: "expiry",
+        origin: { x: 15, y: 110 },
+        direction: 0,
+        font: 25,
+        height: 10,
+        width: 9,
+        maxLength: 16,
+      },
+      {
+        number: 7,
+        name: "TX7",
+        kind: "text",
+        column: 0,
+        source: "gs1Text",
+        origin: { x: 15, y: 235 },
+        direction: 0,
+        font: 25,
+        height: 6,
+        width: 5,
+        maxLength: 52,
+      },
+    ],
+    builtIn: true,
+  },
+];
+
+/** Cantidad de columnas que define la plantilla (1 o 3). */
+export const layoutColumns = (layout: LabelLayout): LabelColumns =>
+  layout.fields.some((field) => field.column > 0) ? 3 : 1;
+
+/** Columnas efectivas: la plantilla puede limitar la elección del usuario. */
+export const effectiveColumns = (layout: LabelLayout, columns: LabelColumns): LabelColumns =>
+  layoutColumns(layout) === 1 ? 1 : columns;
+
+/** Campos de las primeras `columns` columnas, en el orden de la plantilla. */
+export const fieldsForColumns = (layout: LabelLayout, columns: number): LayoutField[] =>
+  layout.fields.filter((field) => field.column < columns);
+
+/**
+ * Longitud de línea para splitDescription: la del primer campo de texto que
+ * imprime la línea 1 de la descripción.
+ */
+export const descriptionLineLength = (layout: LabelLayout): number =>
+  layout.fields.find((field) => field.source === "line1")?.maxLength ?? DEFAULT_LINE_LENGTH;
+
+/**
+ * Simbología de una etiqueta: la elegida, GS1-128 si el código trae AI entre
+ * paréntesis o, si no, undefined para usar la del campo de la plantilla.
+ */
+export const labelBarcodeType = (label: Pick<LabelData, "code" | "barcodeType">): BarcodeType | undefined =>
+  label.barcodeType ?? inferBarcodeType(label.code);
+
+/**
+ * Campos con la simbología indicada en los códigos de barras del código. Las
+ * simbologías de largo fijo amplían d0,N si hace falta (EAN-13 no entra en d0,12).
+ */
+export function applySymbology(fields: LayoutField[], type: BarcodeType | undefined): LayoutField[] {
+  if (!type) return fields;
+  const length = FIXED_LENGTHS[type];
+  return fields.map((field) =>
+    field.kind === "barcode" && field.source === "code"
+      ? {
+          ...field,
+          barcodeType: type,
+          maxLength: length && field.maxLength !== undefined ? Math.max(field.maxLength, length) : field.maxLength,
+        }
+      : field
+  );
+}
+
+/** Plantilla tal como se imprime una etiqueta concreta, con su simbología. */
+export function layoutForLabel(layout: LabelLayout, label: Pick<LabelData, "code" | "barcodeType">): LabelLayout {
+  const type = labelBarcodeType(label);
+  return type ? { ...layout, fields: applySymbology(layout.fields, type) } : layout;
+}
+
+/** Largo máximo de cada línea de descripción (TX3 y TX4) en la plantilla. */
+export function lineMaxLengths(layout: LabelLayout): [number, number] {
+  const lineLength = descriptionLineLength(layout);
+  const line2Length =
+    layout.fields.find((field) => field.column === 0 && field.source === "line2")?.maxLength ?? lineLength;
+  return [lineLength, line2Length];
+}
+
+/**
+ * Descripción partida en dos líneas según la plantilla, respetando el corte
+ * manual de la etiqueta si lo tiene.
+ */
+export const descriptionLines = (
+  label: Pick<LabelData, "description" | "lineBreak">,
+  layout: LabelLayout
+): [string, string] => splitDescription(label.description, descriptionLineLength(layout), label.lineBreak);
+
+/**
+ * Valores de los campos de una etiqueta con la descripción partida según la
+ * plantilla, los precios con su formato de moneda y la cadena GS1 con
+ * GTIN, vencimiento y lote. Los datos que la etiqueta no tiene quedan vacíos.
+ */
+export function labelValues(label: LabelData, layout: LabelLayout): FieldValues {
+  const [line1, line2] = descriptionLines(label, layout);
+  const currency = layout.currency ?? DEFAULT_CURRENCY;
+  const price = (value: number | undefined) => (value === undefined ? "" : formatPrice(value, currency));
+  const gs1 = labelGs1Elements(label);
+  return {
+    // Una etiqueta numerada muestra su primer número; los generadores lo cambian en cada copia.
+    code: label.serial ? formatSerial(label.serial, 0) : label.code,
+    line1,
+    line2,
+    price: price(label.price),
+    unitPrice: label.unitPrice === undefined ? "" : `${price(label.unitPrice)} / ${label.unit ?? "unidad"}`,
+    promoPrice: label.promoPrice === undefined ? "" : `OFERTA ${price(label.promoPrice)}`,
+    promoUntil: label.promoPrice !== undefined && label.promoUntil ? `Vigente hasta ${formatDate(label.promoUntil)}` : "",
+    // Sin paréntesis, como se codifica: d0,N cuenta los datos enviados.
+    gs1: gs1.length > 0 ? gs1BarcodeData(gs1ElementString(gs1)) : "",
+    gs1Text: gs1HumanReadable(gs1),
+    lot: label.lot ? `Lote ${label.lot}` : "",
+    expiry: label.expiry ? `Vence ${formatDate(label.expiry)}` : "",
+  };
+}
+
+const PRICE_SOURCES: LayoutFieldSource[] = ["price", "unitPrice", "promoPrice", "promoUntil"];
+
+/** Indica si la plantilla imprime algún dato de precio. */
+export const layoutHasPrices = (layout: LabelLayout): boolean =>
+  layout.fields.some((field) => field.source !== undefined && PRICE_SOURCES.includes(field.source));
+
+const TRACE_SOURCES: LayoutFieldSource[] = ["gs1", "gs1Text", "lot", "expiry"];
+
+/** Indica si la plantilla imprime el código GS1, el lote o el vencimiento. */
+export const layoutHasTrace = (layout: LabelLayout): boolean =>
+  layout.fields.some((field) => field.source !== undefined && TRACE_SOURCES.includes(field.source));
+
+/**
+ * Avisos de una etiqueta que no entra en la plantilla: código más largo que
+ * el campo de código de barras o descripción que desborda las dos líneas.
+ */
+export function labelFitWarnings(
+  label: Pick<LabelData, "code" | "description" | "lineBreak" | "barcodeType">,
+  layout: LabelLayout
+): string[] {
+  const warnings: string[] = [];
+  const barcode = layoutForLabel(layout, label).fields.find((field) => field.column === 0 && field.source === "code");
+  if (barcode?.kind === "barcode") {
+    warnings.push(...barcodeIssues(label.code, barcode.barcodeType ?? "code128"));
+  }
+  if (barcode?.maxLength !== undefined && label.code.length > barcode.maxLength) {
+    warnings.push(
+      `El código tiene ${label.code.length} caracteres; ${barcode.name ?? "el campo"} admite ${barcode.maxLength} (d0,${barcode.maxLength}).`
+    );
+  }
+  const [lineLength, line2Length] = lineMaxLengths(layout);
+  const [line1, line2] = descriptionLines(label, layout);
+  if (line1.length > lineLength) {
+    warnings.push(`La primera línea tiene ${line1.length} caracteres; la plantilla admite ${lineLength}.`);
+  }
+  if (line2.length > line2Length) {
+    warnings.push(
+      `La descripción no entra en las dos líneas de ${lineLength} y ${line2Length} caracteres (sobran ${line2.length - line2Length}).`
+    );
+  }
+  return warnings;
+}
@@ -0,0 +1,38 @@
+import { LabelLayout } from "../types";
+import { DEFAULT_LAYOUTS } from "./index";
+import { writeStorage } from "../utils/settings";
+
+const LAYOUTS_KEY = "etiquetas.layouts";
+const SELECTED_KEY = "etiquetas.selectedLayout";
+
+/**
+ * Carga las plantillas guardadas en localStorage. Si no hay ninguna, o el
+ * contenido está dañado, devuelve las plantillas de fábrica. Las de fábrica
+ * agregadas en versiones nuevas se suman a las guardadas.
+ */
+export function loadLayouts(): LabelLayout[] {
+  try {
+    const raw = localStorage.getItem(LAYOUTS_KEY);
+    if (!raw) return DEFAULT_LAYOUTS;
+    const saved = JSON.parse(raw) as LabelLayout[];
+    if (!Array.isArray(saved) || saved.length === 0) return DEFAULT_LAYOUTS;
+    // Las plantillas guardadas antes de existir labelSize toman el tamaño de ETIQ2J.
+    const layouts = saved.map((layout) => ({ ...layout, labelSize: layout.labelSize ?? DEFAULT_LAYOUTS[0].labelSize }));
+    const missing = DEFAULT_LAYOUTS.filter((layout) => !layouts.some((item) => item.id === layout.id));
+    return [...layouts, ...missing];
+  } catch {
+    return DEFAULT_LAYOUTS;
+  }
+}
+
+export function saveLayouts(layouts: LabelLayout[]): boolean {
+  return writeStorage(LAYOUTS_KEY, JSON.stringify(layouts));
+}
+
+export function loadSelectedLayoutId(): string {
+  return localStorage.getItem(SELECTED_KEY) ?? DEFAULT_LAYOUTS[0].id;
+}
+
+export function saveSelectedLayoutId(id: string): boolean {
+  return writeStorage(SELECTED_KEY, id);
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { guessMapping, looksLikeHeader } from "./columns";
+
+const rows = (text: string) => text.split("\n").map(line => line.split("\t"));
+
+describe("looksLikeHeader", () => {
+  it("reconoce los encabezados de SAP", () => {
+    expect(looksLikeHeader(["Número de artículo", "Descripción del artículo", "Cantidad de Etiquetas"])).toBe(true);
+  });
+
+  it("no toma como encabezado una fila de datos con palabras de los alias", () => {
+    expect(looksLikeHeader(["A1", "Caja de tornillos", "5"])).toBe(false);
+    expect(looksLikeHeader(["REF", "Tornillo", "3"])).toBe(false);
+    expect(looksLikeHeader(["1001", "Item cod 4", "2"])).toBe(false);
+  });
+
+  it("acepta un único nombre conocido si la fila no tiene números", () => {
+    expect(looksLikeHeader(["Código", "Texto"])).toBe(true);
+  });
+});
+
+describe("guessMapping", () => {
+  it("asigna por encabezado, con alias parciales", () => {
+    const mapping = guessMapping(rows("Cod. artículo\tDescripción\tCant\n1\tClavos\t3"));
+    expect(mapping.hasHeader).toBe(true);
+    expect(mapping.columns).toMatchObject({ code: 0, description: 1, quantity: 2 });
+  });
+
+  it("sin encabezado conserva la primera fila y deduce las columnas", () => {
+    const mapping = guessMapping(rows("A1\tCaja de tornillos\t5\nA2\tCaja de clavos grandes\t3"));
+    expect(mapping.hasHeader).toBe(false);
+    expect(mapping.quantityRule).toBeUndefined();
+    expect(mapping.columns).toMatchObject({ code: 0, description: 1, quantity: 2, boxes: null });
+  });
+
+  it("sin columna de cantidad propone calcularla por pallets y cajas", () => {
+    expect(guessMapping(rows("Código\tDescripción\tPallets\tCajas")).quantityRule).toEqual({ kind: "palletsBoxes" });
+  });
+});
@@ -0,0 +1,199 @@
+import { ColumnMapping, CountField, ExtraField, MappedField, PriceField, QuantityRule, TraceField } from "../types";
+import { loadSetting, saveSetting } from "../utils/settings";
+import { removeDiacritics } from "../utils/text";
+
+/**
+ * Nombres de columna conocidos para cada dato, ya normalizados (minúsculas,
+ * sin acentos ni signos). El primero de cada lista es el encabezado de SAP.
+ */
+export const COLUMN_ALIASES: Record<MappedField, string[]> = {
+  code: [
+    "numero de articulo", "codigo", "cod", "codigo de articulo", "cod articulo", "nro articulo",
+    "n articulo", "sku", "item", "codigo de barras", "ean", "referencia", "ref",
+  ],
+  description: [
+    "descripcion del articulo", "descripcion", "desc", "articulo", "producto", "nombre", "detalle", "description",
+  ],
+  quantity: [
+    "cantidad de etiquetas", "cantidad", "cant", "cant etiquetas", "etiquetas", "qty", "unidades", "copias",
+  ],
+  price: ["precio", "precio de venta", "precio venta", "pvp", "importe", "price"],
+  unit: ["unidad", "unidad de medida", "um", "medida", "unit"],
+  unitPrice: [
+    "precio por unidad", "precio unitario", "precio por kg", "precio kg", "precio x kg", "precio por litro",
+    "precio litro", "unitario", "pum",
+  ],
+  promoPrice: ["oferta", "precio oferta", "precio de oferta", "precio promocional", "promo", "promocion"],
+  promoUntil: ["vigencia", "oferta hasta", "valido hasta", "vigente hasta", "fin oferta", "vence oferta", "hasta"],
+  gtin: ["gtin", "gtin 14", "gtin 13", "dun 14", "dun"],
+  lot: ["lote", "nro lote", "numero de lote", "n lote", "partida", "lot", "batch"],
+  expiry: [
+    "vencimiento", "fecha de vencimiento", "fecha vencimiento", "vto", "fecha vto", "vence", "caducidad", "expiry", "exp",
+  ],
+  units: ["unidades recibidas", "cantidad recibida", "cant recibida", "unidades recepcion", "recibido", "received"],
+  packSize: [
+    "unidades por bulto", "unidades por caja", "unidades por pack", "u x bulto", "u bulto", "contenido", "pack", "bulto",
+  ],
+  pallets: ["pallets", "pallet", "palets", "palet", "tarimas"],
+  boxes: ["cajas", "caja", "bultos", "boxes"],
+  group: [
+    "proveedor", "seccion", "rubro", "familia", "departamento", "sector", "grupo", "supplier", "section",
+  ],
+};
+
+export const FIELD_LABELS: Record<MappedField, string> = {
+  code: "Código",
+  description: "Descripción",
+  quantity: "Cantidad",
+  price: "Precio",
+  unit: "Unidad",
+  unitPrice: "Precio por unidad",
+  promoPrice: "Precio de oferta",
+  promoUntil: "Oferta hasta",
+  gtin: "GTIN",
+  lot: "Lote",
+  expiry: "Vencimiento",
+  units: "Unidades recibidas",
+  packSize: "Unidades por bulto",
+  pallets: "Pallets",
+  boxes: "Cajas",
+  group: "Proveedor / sección",
+};
+
+/** Datos opcionales de las etiquetas de precio. */
+export const PRICE_FIELDS: PriceField[] = ["price", "unit", "unitPrice", "promoPrice", "promoUntil"];
+
+/** Datos opcionales de trazabilidad para los códigos GS1-128. */
+export const TRACE_FIELDS: TraceField[] = ["gtin", "lot", "expiry"];
+
+/** Datos opcionales con los que se calcula la cantidad de etiquetas. */
+export const COUNT_FIELDS: CountField[] = ["units", "packSize", "pallets", "boxes"];
+
+/** Datos opcionales que no se imprimen, como el proveedor o la sección. */
+export const EXTRA_FIELDS: ExtraField[] = ["group"];
+
+/**
+ * Orden en que se buscan los encabezados: los alias más específicos primero,
+ * para que "Precio oferta" no se tome como el precio ni "Cantidad recibida"
+ * como la cantidad de etiquetas.
+ */
+const MATCH_ORDER: MappedField[] = [
+  "code", "description", "pallets", "boxes", "packSize", "units", "quantity",
+  "unitPrice", "promoUntil", "promoPrice", "price", "unit", "gtin", "lot", "expiry", "group",
+];
+
+/** Asignación sin ninguna columna. */
+export const emptyColumns = (): ColumnMapping["columns"] => ({
+  code: null, description: null, quantity: null, price: null, unit: null, unitPrice: null, promoPrice: null, promoUntil: null,
+  gtin: null, lot: null, expiry: null, units: null, packSize: null, pallets: null, boxes: null, group: null,
+});
+
+/** Normaliza un encabezado para compararlo con los alias. */
+export const normalizeHeader = (header: string): string =>
+  removeDiacritics(header)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+// Índice de la columna que coincide con algún alias: primero exacto, luego parcial.
+function findColumn(headers: string[], aliases: string[], taken: number[]): number | null {
+  const normalized = headers.map(normalizeHeader);
+  const free = (index: number) => index >= 0 && !taken.includes(index);
+  for (const alias of aliases) {
+    const index = normalized.indexOf(alias);
+    if (free(index)) return index;
+  }
+  for (const alias of aliases) {
+    const index = normalized.findIndex((header, i) => free(i) && header.split(" ").includes(alias));
+    if (index >= 0) return index;
+  }
+  return null;
+}
+
+const KNOWN_HEADERS = new Set(Object.values(COLUMN_ALIASES).flat());
+
+/**
+ * Indica si la primera fila parece un encabezado. Sólo cuentan las celdas
+ * que son exactamente un nombre conocido, para que una descripción como
+ * "Caja de tornillos" o un dato suelto como "Producto" no la conviertan en
+ * encabezado: hacen falta dos nombres conocidos, o uno y ninguna celda numérica.
+ */
+export function looksLikeHeader(firstRow: string[]): boolean {
+  const matches = firstRow.filter((cell) => KNOWN_HEADERS.has(normalizeHeader(cell))).length;
+  const numeric = firstRow.some((cell) => /^\d+([.,]\d+)?$/.test(cell.trim()));
+  return matches >= 2 || (matches === 1 && !numeric);
+}
+
+/**
+ * Sin encabezado se deduce por el contenido: la columna numérica más a la
+ * derecha es la cantidad, la de texto más largo la descripción y la primera
+ * libre el código.
+ */
+function guessFromData(rows: string[][]): ColumnMapping["columns"] {
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  const sample = rows.slice(0, 20);
+  const columns = Array.from({ length: width }, (_, i) => i);
+  const numeric = columns.filter((i) => sample.every((row) => /^\d+$/.test(row[i] ?? "")));
+  const quantity = numeric.length > 0 ? numeric[numeric.length - 1] : null;
+  const averageLength = (i: number) => sample.reduce((sum, row) => sum + (row[i] ?? "").length, 0) / sample.length;
+  const textColumns = columns.filter((i) => i !== quantity);
+  const description = textColumns.length > 1
+    ? textColumns.reduce((best, i) => (averageLength(i) > averageLength(best) ? i : best))
+    : null;
+  const code = columns.find((i) => i !== quantity && i !== description) ?? null;
+  return { ...emptyColumns(), code, description, quantity };
+}
+
+/**
+ * Regla de cantidad que sugieren las columnas: sin columna Cantidad, las de
+ * unidades y bultos o las de pallets y cajas permiten calcularla.
+ */
+function guessQuantityRule(columns: ColumnMapping["columns"]): QuantityRule | undefined {
+  if (columns.quantity !== null) return undefined;
+  if (columns.units !== null && columns.packSize !== null) return { kind: "packs" };
+  if (columns.pallets !== null || columns.boxes !== null) return { kind: "palletsBoxes" };
+  return undefined;
+}
+
+/** Propone una asignación de columnas a partir de las filas pegadas. */
+export function guessMapping(rows: string[][]): ColumnMapping {
+  const first = rows[0] ?? [];
+  if (!looksLikeHeader(first)) {
+    return { hasHeader: false, columns: guessFromData(rows) };
+  }
+  const taken: number[] = [];
+  const columns = emptyColumns();
+  MATCH_ORDER.forEach((field) => {
+    const index = findColumn(first, COLUMN_ALIASES[field], taken);
+    columns[field] = index;
+    if (index !== null) taken.push(index);
+  });
+  const quantityRule = guessQuantityRule(columns);
+  return quantityRule ? { hasHeader: true, columns, quantityRule } : { hasHeader: true, columns };
+}
+
+/**
+ * Firma con la que se recuerda una asignación: los encabezados normalizados
+ * o, sin encabezado, la cantidad de columnas.
+ */
+export const headerSignature = (rows: string[][], hasHeader: boolean): string =>
+  hasHeader ? (rows[0] ?? []).map(normalizeHeader).join("|") : `sin-encabezado:${rows[0]?.length ?? 0}`;
+
+const MAPPINGS_KEY = "etiquetas.columnMappings";
+
+/**
+ * Busca una asignación guardada para las filas: primero por los encabezados
+ * de la primera fila y, si no parece un encabezado, por cantidad de columnas.
+ * Las guardadas antes de existir las columnas opcionales las reciben vacías.
+ */
+export function findSavedMapping(rows: string[][]): ColumnMapping | null {
+  const saved = loadSetting<Record<string, ColumnMapping>>(MAPPINGS_KEY, {});
+  const mapping = saved[headerSignature(rows, true)]
+    ?? (looksLikeHeader(rows[0] ?? []) ? null : saved[headerSignature(rows, false)] ?? null);
+  return mapping && { ...mapping, columns: { ...emptyColumns(), ...mapping.columns } };
+}
+
+export function saveMapping(rows: string[][], mapping: ColumnMapping): void {
+  const saved = loadSetting<Record<string, ColumnMapping>>(MAPPINGS_KEY, {});
+  saveSetting(MAPPINGS_KEY, { ...saved, [headerSignature(rows, mapping.hasHeader)]: mapping });
+}
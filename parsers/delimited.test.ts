@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { detectDelimiter, parseDelimited, parseDelimitedLines } from "./delimited";
+
+describe("detectDelimiter", () => {
+  it("prefiere el tabulador y si no el separador más frecuente", () => {
+    expect(detectDelimiter("a\tb;c;d\n1\t2")).toBe("\t");
+    expect(detectDelimiter("a;b;c\n1,5;2;3")).toBe(";");
+    expect(detectDelimiter("a,b,c\n1;2")).toBe(",");
+  });
+
+  it("no cuenta los separadores entre comillas", () => {
+    expect(detectDelimiter('"a,b,c";d\n1;2')).toBe(";");
+  });
+});
+
+describe("parseDelimited", () => {
+  it("respeta comillas con separadores, saltos de línea y comillas escapadas", () => {
+    const text = 'Código;Descripción;Cantidad\r\nA1;"Caño 1/2"", codo";3\r\nA2;"Dos\nlíneas";1\r\n';
+    expect(parseDelimited(text)).toEqual([
+      ["Código", "Descripción", "Cantidad"],
+      ["A1", 'Caño 1/2", codo', "3"],
+      ["A2", "Dos\nlíneas", "1"],
+    ]);
+  });
+
+  it("descarta las filas vacías y recorta las celdas", () => {
+    expect(parseDelimited("A1 , Clavos ,2\n\n , ,\nA2,Tuercas,1", ",")).toEqual([
+      ["A1", "Clavos", "2"],
+      ["A2", "Tuercas", "1"],
+    ]);
+  });
+});
+
+describe("parseDelimitedLines", () => {
+  it("conserva la línea de origen de cada fila, contando las vacías y las celdas de varias líneas", () => {
+    const text = '\nCódigo\tCantidad\n\nA1\t"Dos\r\nlíneas"\n\t\nA2\t1';
+    expect(parseDelimitedLines(text)).toEqual({
+      rows: [["Código", "Cantidad"], ["A1", "Dos\r\nlíneas"], ["A2", "1"]],
+      lines: [2, 4, 7],
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { Delimiter } from "../types";
+
+export const DELIMITERS: Delimiter[] = ["\t", ";", ","];
+
+/**
+ * Elige el separador mirando la primera línea con datos, fuera de comillas:
+ * el tabulador (lo que copia Excel) tiene prioridad y, si no hay, el más
+ * frecuente entre punto y coma y coma.
+ */
+export function detectDelimiter(text: string): Delimiter {
+  const counts: Record<Delimiter, number> = { "\t": 0, ";": 0, ",": 0 };
+  let inQuotes = false;
+  for (const ch of text.replace(/^\s*[\r\n]/, "")) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === "\n" || ch === "\r")) break;
+    else if (!inQuotes && ch in counts) counts[ch as Delimiter]++;
+  }
+  if (counts["\t"] > 0) return "\t";
+  return counts[","] > counts[";"] ? "," : ";";
+}
+
+/** Filas de una tabla y la línea (o fila de la hoja) de origen de cada una, desde 1. */
+export interface SourceRows {
+  rows: string[][];
+  lines: number[];
+}
+
+/**
+ * Divide un texto delimitado en filas y columnas. Respeta los campos entre
+ * comillas, que pueden contener el separador, saltos de línea y comillas
+ * escapadas (""). Las filas vacías se descartan y las celdas se recortan;
+ * `lines` conserva la línea del texto en que empieza cada fila.
+ */
+export function parseDelimitedLines(text: string, delimiter: Delimiter = detectDelimiter(text)): SourceRows {
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push(row.map((value) => value.trim()));
+      lines.push(rowLine);
+    }
+    row = [];
+    cell = "";
+    rowLine = line;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        if (ch === "\n" || (ch === "\r" && text[i + 1] !== "\n")) line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && cell.trim() === "") {
+      cell = "";
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      line++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  endRow();
+  return { rows, lines };
+}
+
+/** Como parseDelimitedLines, sólo las filas. */
+export const parseDelimited = (text: string, delimiter?: Delimiter): string[][] =>
+  parseDelimitedLines(text, delimiter).rows;
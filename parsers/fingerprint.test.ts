@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { LabelData } from "../types";
+import { DEFAULT_LAYOUTS } from "../layouts";
+import { buildFingerprintFile } from "../generators/fingerprint";
+import { DEFAULT_OUTPUT_OPTIONS, renderOutput } from "../utils/output";
+import { readTextFile } from "../utils/files";
+import { parseFingerprintFile } from "./fingerprint";
+
+const LABELS: LabelData[] = [
+  { id: "1", code: "12345", description: "Alambre galvanizado numero 14 rollo 1000 m", quantity: 3 },
+  { id: "2", code: "777", description: "Clavos", quantity: 1 },
+  { id: "3", code: "4455", description: "Caño PVC codo 90", quantity: 7 },
+];
+
+const summary = (labels: LabelData[]) => labels.map(({ code, description, quantity }) => ({ code, description, quantity }));
+
+describe("parseFingerprintFile", () => {
+  it("recupera las etiquetas de un archivo de tres columnas y suma el bloque residual", () => {
+    const program = buildFingerprintFile(LABELS, { layout: DEFAULT_LAYOUTS[0], columns: 3 });
+    const parsed = parseFingerprintFile(program);
+    expect(parsed.formatName).toBe("ETIQ2J");
+    expect(parsed.skipped).toBe(0);
+    expect(summary(parsed.labels)).toEqual(summary(LABELS));
+  });
+
+  it("acepta los bytes de control reales", () => {
+    const bytes = renderOutput(
+      buildFingerprintFile(LABELS.slice(0, 2), { layout: DEFAULT_LAYOUTS[0], columns: 1 }),
+      { ...DEFAULT_OUTPUT_OPTIONS, controlChars: "bytes" }
+    );
+    const parsed = parseFingerprintFile(new TextDecoder("latin1").decode(bytes));
+    expect(summary(parsed.labels)).toEqual(summary(LABELS.slice(0, 2)));
+  });
+
+  it("recupera los acentos de un archivo generado en la página de códigos de la impresora", async () => {
+    const accented = [{ id: "1", code: "12345", description: "Alambre Ñandú 1/2 caño", quantity: 2 }];
+    const bytes = renderOutput(buildFingerprintFile(accented, { layout: DEFAULT_LAYOUTS[0], columns: 3 }), DEFAULT_OUTPUT_OPTIONS);
+    const text = await readTextFile(new File([bytes], "etiquetas.txt"), DEFAULT_OUTPUT_OPTIONS.encoding);
+    expect(summary(parseFingerprintFile(text).labels)).toEqual(summary(accented));
+  });
+
+  it("conserva como corte manual una descripción cortada en otro lugar", () => {
+    const program = buildFingerprintFile(
+      [{ id: "1", code: "A1", description: "Tornillo autoperforante punta mecha", quantity: 1, lineBreak: 8 }],
+      { layout: DEFAULT_LAYOUTS[0], columns: 1 }
+    );
+    expect(parseFingerprintFile(program).labels[0]).toMatchObject({ description: "Tornillo autoperforante punta mecha", lineBreak: 8 });
+  });
+});
+
+describe("parseFingerprintFile con archivos de SAP", () => {
+  it("cuenta las etiquetas que imprimen las filas de tres columnas", () => {
+    const block = (fields: string[], rows: number) =>
+      [
+        "<STX><ESC>E1<CAN><ETX>",
+        ...fields.map((field) => `<STX><ESC>F"${field}"<LF>${field.startsWith("BR") ? "777" : "Clavos"}<ETX>`),
+        `<STX><US>${rows}<ETX>`,
+        "<STX><ETB><ETX>",
+      ].join("\r\n");
+    const program = [block(["BR0", "BR1", "BR2", "TX3", "TX5", "TX7"], 3), block(["BR0", "TX3"], 1)].join("\r\n");
+    expect(summary(parseFingerprintFile(program).labels)).toEqual([{ code: "777", description: "Clavos", quantity: 10 }]);
+  });
+});
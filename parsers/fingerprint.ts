@@ -0,0 +1,128 @@
+import { LabelData } from "../types";
+import { splitDescription } from "../utils/text";
+
+/** Resultado de leer un archivo Fingerprint/SAP. */
+export interface ParsedFingerprintFile {
+  labels: LabelData[];
+  /** Nombre del formato declarado en la cabecera (A1,ETIQ2J), si lo hay. */
+  formatName?: string;
+  /** Bloques de datos descartados por no tener código. */
+  skipped: number;
+}
+
+// Tokens legibles y su byte de control real.
+const TOKENS: Record<string, string> = {
+  STX: "\x02",
+  ETX: "\x03",
+  ESC: "\x1B",
+  LF: "\x0A",
+  CR: "\x0D",
+  US: "\x1F",
+  ETB: "\x17",
+  CAN: "\x18",
+  SI: "\x0F",
+};
+
+/** Convierte los tokens "<STX>", "<ESC>"... en sus bytes, para tratar ambos formatos igual. */
+const normalizeControlChars = (content: string): string =>
+  content.replace(/<(STX|ETX|ESC|LF|CR|US|ETB|CAN|SI)>/g, (_, token: string) => TOKENS[token]);
+
+/** Contenido de cada trama STX..ETX, en orden. */
+const frames = (content: string): string[] => {
+  const result: string[] = [];
+  const pattern = /\x02([\s\S]*?)\x03/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    result.push(match[1]);
+  }
+  return result;
+};
+
+interface DataBlock {
+  fields: Record<string, string>;
+  quantity: number;
+}
+
+/**
+ * Lee un archivo generado por esta aplicación, por generate_labels.py o por
+ * SAP y lo convierte en etiquetas editables. Acepta tanto los tokens
+ * legibles ("<STX>") como los bytes de control reales (0x02).
+ *
+ * - TX3 y TX4 se vuelven a unir en una sola descripción.
+ * - La cantidad es el total de etiquetas: las filas del bloque (US) por las
+ *   columnas que completa (BR0, BR1, BR2). Un bloque de varias columnas
+ *   seguido de un bloque con menos columnas del mismo artículo se suman en
+ *   una única cantidad.
+ */
+export function parseFingerprintFile(content: string): ParsedFingerprintFile {
+  const blocks: DataBlock[] = [];
+  let formatName: string | undefined;
+  let current: DataBlock | null = null;
+
+  for (const frame of frames(normalizeControlChars(content))) {
+    const format = frame.match(/A\d+,([^;]+);/);
+    if (format && !frame.startsWith("\x1B")) {
+      formatName = format[1];
+      continue;
+    }
+    if (/^\x1BE\d*\x18?$/.test(frame)) {
+      current = { fields: {}, quantity: 0 };
+      continue;
+    }
+    if (!current) continue;
+    const field = frame.match(/^\x1BF"([^"]+)"\x0A([\s\S]*)$/);
+    if (field) {
+      current.fields[field[1]] = field[2];
+      continue;
+    }
+    const quantity = frame.match(/^\x1F(\d+)$/);
+    if (quantity) {
+      current.quantity = parseInt(quantity[1], 10);
+      continue;
+    }
+    if (frame === "\x17") {
+      blocks.push(current);
+      current = null;
+    }
+  }
+
+  const labels: LabelData[] = [];
+  let skipped = 0;
+  let previousMain: { label: LabelData; columns: number; folded: boolean } | null = null;
+  const stamp = Date.now();
+
+  blocks.forEach((block, index) => {
+    const code = (block.fields.BR0 ?? "").trim();
+    if (!code) {
+      skipped++;
+      previousMain = null;
+      return;
+    }
+    const [line1, line2] = [block.fields.TX3, block.fields.TX4].map((line) => (line ?? "").trim());
+    const description = [line1, line2].filter(Boolean).join(" ");
+    // Si el archivo cortó la descripción en otro lugar se conserva como corte manual.
+    const autoLine1 = splitDescription(description)[0];
+    const lineBreak = line1 && line2 && autoLine1 !== line1 ? line1.length : undefined;
+    const columns = Object.keys(block.fields).filter((name) => /^BR\d+$/.test(name)).length;
+    const quantity = block.quantity * columns;
+
+    if (
+      previousMain &&
+      !previousMain.folded &&
+      columns < previousMain.columns &&
+      previousMain.label.code === code &&
+      previousMain.label.description === description
+    ) {
+      previousMain.label.quantity += quantity;
+      previousMain.folded = true;
+      return;
+    }
+
+    const label: LabelData = { id: `label-import-${stamp}-${index}`, code, description, quantity };
+    if (lineBreak !== undefined) label.lineBreak = lineBreak;
+    labels.push(label);
+    previousMain = columns > 1 ? { label, columns, folded: false } : null;
+  });
+
+  return { labels, formatName, skipped };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { ColumnMapping } from "../types";
+import { DEFAULT_LAYOUTS } from "../layouts";
+import { guessMapping } from "./columns";
+import { rowsToLabels } from "./labels";
+import { parseDelimitedLines } from "./delimited";
+
+const rows = (text: string) => text.split("\n").map(line => line.split("\t"));
+
+function importRows(text: string, change: (mapping: ColumnMapping) => ColumnMapping = mapping => mapping) {
+  const table = rows(text);
+  return rowsToLabels(table, change(guessMapping(table)), DEFAULT_LAYOUTS[0]);
+}
+
+describe("rowsToLabels", () => {
+  it("rechaza con aviso los conteos con decimales", () => {
+    const { labels, report } = importRows(
+      "Código\tDescripción\tPallets\tCajas\nA1\tTornillos\t1,5\t3",
+      mapping => ({ ...mapping, quantityRule: { kind: "palletsBoxes" } })
+    );
+    expect(labels[0].counts).toEqual({ boxes: 3 });
+    expect(labels[0].quantity).toBe(3);
+    expect(report[0].reasons).toContain('Pallets no es un número entero ("1,5"): se omitió.');
+  });
+
+  it("acepta separadores de miles en los conteos", () => {
+    const { labels } = importRows(
+      "Código\tDescripción\tUnidades recibidas\tUnidades por bulto\nA1\tTornillos\t1.200\t12",
+      mapping => ({ ...mapping, quantityRule: { kind: "packs" } })
+    );
+    expect(labels[0].quantity).toBe(100);
+  });
+
+  it("informa la línea pegada aunque haya filas vacías antes", () => {
+    const { rows: table, lines } = parseDelimitedLines("Código\tDescripción\tCantidad\n\nA1\tClavos\t2\n\nA2\tTuercas\tmuchas");
+    const { report } = rowsToLabels(table, guessMapping(table), DEFAULT_LAYOUTS[0], undefined, "label", lines);
+    expect(report.map(entry => entry.line)).toEqual([5]);
+  });
+});
@@ -0,0 +1,261 @@
+import {
+  CatalogProduct, ColumnMapping, CountField, ImportReportEntry, LabelData, LabelLayout, PriceField, RowValues, TraceField,
+} from "../types";
+import { catalogKey } from "../catalog";
+import { labelFitWarnings } from "../layouts";
+import { COUNT_FIELDS, EXTRA_FIELDS, FIELD_LABELS, PRICE_FIELDS, TRACE_FIELDS } from "./columns";
+import { parseDate } from "../utils/dates";
+import { traceWarnings } from "../utils/gs1";
+import { parsePrice, parseUnit, promoWarnings } from "../utils/price";
+import { DEFAULT_QUANTITY_RULE, clampQuantity, computeQuantity, missingCounts } from "../utils/quantity";
+import { sanitizeString } from "../utils/text";
+
+/** Resultado de validar una fila: la etiqueta (si es válida) y los motivos. */
+export interface RowValidation {
+  label: Omit<LabelData, "id"> | null;
+  errors: string[];
+  warnings: string[];
+}
+
+type PriceData = Pick<LabelData, PriceField>;
+
+/**
+ * Lee las columnas de precio de una fila. Un valor que no se entiende se
+ * descarta con aviso; la fila se importa igual.
+ */
+function parsePriceValues(values: RowValues): { data: PriceData; warnings: string[] } {
+  const data: PriceData = {};
+  const warnings: string[] = [];
+  const amount = (key: "price" | "unitPrice" | "promoPrice", name: string) => {
+    const text = values[key]?.trim();
+    if (!text) return;
+    const parsed = parsePrice(text);
+    if (parsed === null || parsed < 0) warnings.push(`${name} no válido ("${text}"): se omitió.`);
+    else data[key] = parsed;
+  };
+  amount("price", "Precio");
+  amount("unitPrice", "Precio por unidad");
+  amount("promoPrice", "Precio de oferta");
+
+  const unit = values.unit?.trim();
+  if (unit) {
+    const parsed = parseUnit(unit);
+    if (parsed) data.unit = parsed;
+    else warnings.push(`Unidad desconocida ("${unit}"): use kg, L o unidad.`);
+  }
+  const until = values.promoUntil?.trim();
+  if (until) {
+    const parsed = parseDate(until);
+    if (parsed) data.promoUntil = parsed;
+    else warnings.push(`Fecha de oferta no válida ("${until}"): se omitió.`);
+  }
+  if (data.promoUntil && data.promoPrice === undefined) {
+    warnings.push("La fila tiene vigencia de oferta pero no precio de oferta.");
+  }
+  if (data.promoPrice !== undefined && data.price !== undefined && data.promoPrice >= data.price) {
+    warnings.push("El precio de oferta no es menor que el precio.");
+  }
+  return { data, warnings: [...warnings, ...promoWarnings(data)] };
+}
+
+type TraceData = Pick<LabelData, TraceField>;
+
+/**
+ * Lee GTIN, lote y vencimiento. Una fecha que no se entiende se descarta con
+ * aviso; un GTIN o lote que no se puede codificar se conserva con aviso.
+ */
+function parseTraceValues(values: RowValues): { data: TraceData; warnings: string[] } {
+  const data: TraceData = {};
+  const warnings: string[] = [];
+  const gtin = values.gtin?.replace(/\s+/g, "");
+  if (gtin) data.gtin = gtin;
+  const lot = values.lot?.trim();
+  if (lot) data.lot = lot;
+  const expiry = values.expiry?.trim();
+  if (expiry) {
+    const parsed = parseDate(expiry);
+    if (parsed) data.expiry = parsed;
+    else warnings.push(`Fecha de vencimiento no válida ("${expiry}"): se omitió.`);
+  }
+  return { data, warnings: [...warnings, ...traceWarnings({ code: values.code.trim(), ...data })] };
+}
+
+/**
+ * Lee unidades, bultos, pallets y cajas. Admiten separador de miles
+ * ("1.200"); un valor que no es un número no negativo se descarta con aviso.
+ */
+function parseCountValues(values: RowValues): { counts: Partial<Record<CountField, number>>; warnings: string[] } {
+  const counts: Partial<Record<CountField, number>> = {};
+  const warnings: string[] = [];
+  COUNT_FIELDS.forEach((field) => {
+    const text = values[field]?.trim();
+    if (!text) return;
+    const parsed = parsePrice(text);
+    if (parsed === null || parsed < 0) warnings.push(`${FIELD_LABELS[field]} no válido ("${text}"): se omitió.`);
+    else if (!Number.isInteger(parsed)) warnings.push(`${FIELD_LABELS[field]} no es un número entero ("${text}"): se omitió.`);
+    else counts[field] = parsed;
+  });
+  return { counts, warnings };
+}
+
+/**
+ * Valida una fila. Sin código se rechaza; sin descripción se toma la del
+ * catálogo, y si el código no está en él también se rechaza. Una cantidad
+ * vacía, no numérica o negativa se ajusta a 0 con aviso, y si la tabla no
+ * tiene columna de cantidad se usa 1. También avisa si el código o la
+ * descripción no entran en los campos de la plantilla. Las columnas de
+ * precio, unidad, oferta, GTIN, lote, vencimiento y proveedor o sección son opcionales. Con una
+ * regla de cantidad la cantidad se calcula (sin datos suficientes queda en 0)
+ * y el mínimo y el máximo de la regla limitan el resultado.
+ */
+export function validateRow(
+  values: RowValues,
+  mapping: ColumnMapping,
+  layout: LabelLayout,
+  catalog?: Map<string, CatalogProduct>
+): RowValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const code = values.code.trim();
+  const hasQuantityColumn = mapping.columns.quantity !== null;
+  const hasDescriptionColumn = mapping.columns.description !== null;
+  // Los campos entre comillas pueden traer tabuladores o saltos de línea.
+  let description = sanitizeString(values.description).replace(/\s+/g, " ").trim();
+  if (!code) errors.push("Código vacío.");
+  if (code && !description) {
+    const product = catalog?.get(catalogKey(code));
+    if (product) {
+      description = product.description;
+      if (hasDescriptionColumn) warnings.push("Descripción vacía: se tomó la del catálogo.");
+    } else {
+      errors.push(hasDescriptionColumn
+        ? "Descripción vacía y el código no está en el catálogo."
+        : "Código desconocido: no está en el catálogo.");
+    }
+  } else if (!description) {
+    errors.push("Descripción vacía.");
+  }
+
+  const rule = mapping.quantityRule ?? DEFAULT_QUANTITY_RULE;
+  const { counts, warnings: countWarnings } = parseCountValues(values);
+  warnings.push(...countWarnings);
+
+  let quantity = 1;
+  if (rule.kind !== "column") {
+    const computed = computeQuantity(rule, counts);
+    if (computed) {
+      quantity = computed.quantity;
+    } else {
+      quantity = 0;
+      const missing = missingCounts(rule, counts)
+        .map((field) => FIELD_LABELS[field])
+        .join(rule.kind === "palletsBoxes" ? " o " : ", ");
+      warnings.push(`Faltan datos para calcular la cantidad (${missing}): se usará 0.`);
+    }
+  } else if (hasQuantityColumn) {
+    const quantityStr = values.quantity.trim();
+    const parsed = parseInt(quantityStr, 10);
+    if (!quantityStr) {
+      quantity = 0;
+      warnings.push("Cantidad vacía: se usará 0.");
+    } else if (isNaN(parsed)) {
+      quantity = 0;
+      warnings.push(`Cantidad no numérica ("${quantityStr}"): se usará 0.`);
+    } else if (parsed < 0) {
+      quantity = 0;
+      warnings.push(`Cantidad negativa (${parsed}): se usará 0.`);
+    } else {
+      quantity = parsed;
+      if (String(parsed) !== quantityStr.replace(/^0+(?=\d)/, "")) {
+        warnings.push(`Cantidad "${quantityStr}" ajustada a ${parsed}.`);
+      }
+    }
+  }
+  if (rule.kind === "column" && clampQuantity(rule, quantity) !== quantity) {
+    const limited = clampQuantity(rule, quantity);
+    warnings.push(`Cantidad ${quantity} ajustada al ${limited > quantity ? "mínimo" : "máximo"} ${limited}.`);
+    quantity = limited;
+  }
+  if (rule.kind === "column" && hasQuantityColumn && quantity === 0 && warnings.length === 0) {
+    warnings.push("Cantidad 0: el producto no se imprimirá.");
+  }
+
+  const prices = parsePriceValues(values);
+  const trace = parseTraceValues(values);
+  warnings.push(...prices.warnings, ...trace.warnings);
+
+  if (errors.length > 0) return { label: null, errors, warnings };
+  const computed = rule.kind === "column" ? {} : { quantityRule: rule, counts };
+  const group = values.group?.trim();
+  const label = { code, description, quantity, ...prices.data, ...trace.data, ...computed, ...(group ? { group } : {}) };
+  return { label, errors, warnings: [...warnings, ...labelFitWarnings(label, layout)] };
+}
+
+/** Etiquetas creadas a partir de una tabla y el informe de sus filas. */
+export interface ImportResult {
+  labels: LabelData[];
+  report: ImportReportEntry[];
+}
+
+/**
+ * Convierte filas ya separadas en etiquetas según la asignación de columnas.
+ * Ninguna fila se descarta en silencio: las rechazadas y las ajustadas quedan
+ * en el informe con su número de fila y el motivo. La columna de descripción
+ * es opcional: sin ella las descripciones salen del catálogo.
+ * @param idPrefix Prefijo de los ids generados, para distinguir el origen.
+ * @param lines Línea de origen de cada fila (texto pegado o fila de la hoja);
+ *   sin ella se numeran las filas recibidas.
+ */
+export function rowsToLabels(
+  rows: string[][],
+  mapping: ColumnMapping,
+  layout: LabelLayout,
+  catalog?: Map<string, CatalogProduct>,
+  idPrefix: string = "label",
+  lines?: number[]
+): ImportResult {
+  const { code: codeIndex, description: descIndex, quantity: qtyIndex } = mapping.columns;
+  if (codeIndex === null) return { labels: [], report: [] };
+
+  const stamp = Date.now();
+  const labels: LabelData[] = [];
+  const report: ImportReportEntry[] = [];
+  const firstLine = mapping.hasHeader ? 2 : 1;
+  const requiredColumns = Math.max(codeIndex, descIndex ?? 0, qtyIndex ?? 0) + 1;
+  const optionalColumns = [...PRICE_FIELDS, ...TRACE_FIELDS, ...COUNT_FIELDS, ...EXTRA_FIELDS].filter((field) => mapping.columns[field] != null);
+
+  (mapping.hasHeader ? rows.slice(1) : rows).forEach((columns, index) => {
+    const line = lines?.[index + firstLine - 1] ?? firstLine + index;
+    const values: RowValues = {
+      code: columns[codeIndex] ?? "",
+      description: descIndex === null ? "" : columns[descIndex] ?? "",
+      quantity: qtyIndex === null ? "" : columns[qtyIndex] ?? "",
+    };
+    // Las columnas opcionales pueden faltar al final de la fila: quedan vacías.
+    optionalColumns.forEach((field) => {
+      values[field] = columns[mapping.columns[field]!] ?? "";
+    });
+    const entryId = `row-${stamp}-${index}`;
+    if (columns.length < requiredColumns) {
+      report.push({
+        id: entryId,
+        line,
+        severity: "error",
+        reasons: [`La fila tiene ${columns.length} columnas; se esperaban al menos ${requiredColumns}.`],
+        values,
+      });
+      return;
+    }
+    const { label, errors, warnings } = validateRow(values, mapping, layout, catalog);
+    if (!label) {
+      report.push({ id: entryId, line, severity: "error", reasons: [...errors, ...warnings], values });
+      return;
+    }
+    const id = `${idPrefix}-${stamp}-${index}`;
+    labels.push({ id, ...label });
+    if (warnings.length > 0) {
+      report.push({ id: entryId, line, severity: "warning", reasons: warnings, values, labelId: id });
+    }
+  });
+  return { labels, report };
+}
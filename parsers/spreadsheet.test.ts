@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { utils, write } from "xlsx";
+import { readSpreadsheetFile } from "./spreadsheet";
+
+describe("readSpreadsheetFile", () => {
+  it("numera las filas como en Excel aunque se omitan las vacías y las ocultas", async () => {
+    const sheet = utils.aoa_to_sheet([["Código", "Cantidad"], [], ["A1", 2], ["Oculta", 1], ["A2", 3]]);
+    sheet["!rows"] = [{}, {}, {}, { hidden: true }];
+    const book = utils.book_new();
+    utils.book_append_sheet(book, sheet, "Hoja1");
+    const file = new File([write(book, { type: "array", bookType: "xlsx" })], "pedido.xlsx");
+    const [data] = await readSpreadsheetFile(file);
+    expect(data.rows).toEqual([["Código", "Cantidad"], ["A1", "2"], ["A2", "3"]]);
+    expect(data.lines).toEqual([1, 3, 5]);
+  });
+});
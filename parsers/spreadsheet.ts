@@ -0,0 +1,74 @@
+import { read, utils, WorkSheet } from "xlsx";
+import { readTextFile } from "../utils/files";
+import { SourceRows, parseDelimitedLines } from "./delimited";
+
+/**
+ * Una hoja de un archivo importado, ya convertida en filas de texto, con el
+ * número de fila de la hoja de cada una.
+ */
+export interface SheetData extends SourceRows {
+  name: string;
+}
+
+/** Extensiones que acepta la importación de tablas. */
+export const SPREADSHEET_EXTENSIONS = [".xlsx", ".xls", ".ods", ".csv", ".tsv"];
+
+const extensionOf = (fileName: string): string => fileName.slice(fileName.lastIndexOf(".")).toLowerCase();
+
+export const isSpreadsheetFile = (file: File): boolean =>
+  SPREADSHEET_EXTENSIONS.includes(extensionOf(file.name));
+
+/**
+ * Convierte una hoja en filas de texto con los valores tal como se ven en
+ * Excel. Se omiten las filas vacías y las filas y columnas ocultas, y las
+ * celdas combinadas toman el valor de su celda superior izquierda. `lines`
+ * guarda el número de fila de Excel de cada fila que queda.
+ */
+function sheetRows(sheet: WorkSheet): SourceRows {
+  const merges = sheet["!merges"] ?? [];
+  merges.forEach((range) => {
+    const origin = sheet[utils.encode_cell(range.s)];
+    if (!origin) return;
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        if (r === range.s.r && c === range.s.c) continue;
+        sheet[utils.encode_cell({ r, c })] = { ...origin };
+      }
+    }
+  });
+
+  // !cols y !rows usan índices absolutos; sheet_to_json empieza en el rango de la hoja.
+  const start = utils.decode_range(sheet["!ref"] ?? "A1").s;
+  const hiddenColumns = new Set(
+    (sheet["!cols"] ?? []).flatMap((col, index) => (col?.hidden ? [index - start.c] : []))
+  );
+  const hiddenRows = new Set(
+    (sheet["!rows"] ?? []).flatMap((row, index) => (row?.hidden ? [index - start.r] : []))
+  );
+
+  const rows = utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: "", blankrows: true });
+  const result: SourceRows = { rows: [], lines: [] };
+  rows.forEach((row, index) => {
+    if (hiddenRows.has(index)) return;
+    const values = row.filter((_, column) => !hiddenColumns.has(column)).map((value) => String(value ?? "").trim());
+    if (!values.some((value) => value !== "")) return;
+    result.rows.push(values);
+    result.lines.push(start.r + index + 1);
+  });
+  return result;
+}
+
+/**
+ * Lee un archivo XLSX/XLS/ODS (todas sus hojas) o un CSV/TSV (una sola hoja)
+ * completamente en el navegador.
+ */
+export async function readSpreadsheetFile(file: File): Promise<SheetData[]> {
+  const extension = extensionOf(file.name);
+  if (extension === ".csv" || extension === ".tsv") {
+    const text = await readTextFile(file);
+    return [{ name: file.name, ...parseDelimitedLines(text, extension === ".tsv" ? "\t" : undefined) }];
+  }
+  // cellStyles es necesario para que SheetJS lea las filas y columnas ocultas.
+  const workbook = read(await file.arrayBuffer(), { type: "array", cellStyles: true });
+  return workbook.SheetNames.map((name) => ({ name, ...sheetRows(workbook.Sheets[name]) }));
+}
@@ -3,4 +3,360 @@ export interface LabelData {
   code: string;
   description: string;
   quantity: number;
+  /**
+   * Corte manual de la descripción: cantidad de caracteres que van en la
+   * primera línea (TX3). Sin él se corta en el último espacio que entra.
+   */
+  lineBreak?: number;
+  /** Simbología elegida para esta etiqueta; sin ella se deduce del código. */
+  barcodeType?: BarcodeType;
+  /** Precio de góndola, en la moneda de la plantilla. */
+  price?: number;
+  /** Unidad del precio por unidad de medida. */
+  unit?: PriceUnit;
+  /** Precio por kg, litro o unidad. */
+  unitPrice?: number;
+  /** Precio de oferta; se imprime como "OFERTA $ ...". */
+  promoPrice?: number;
+  /** Último día de la oferta, como fecha ISO (AAAA-MM-DD). */
+  promoUntil?: string;
+  /** GTIN del AI (01); sin él se usa el código si es un EAN/UPC. */
+  gtin?: string;
+  /** Número de lote, AI (10). */
+  lot?: string;
+  /** Fecha de vencimiento, AI (17), como fecha ISO (AAAA-MM-DD). */
+  expiry?: string;
+  /** Numeración por copia: cada etiqueta impresa lleva su propio número en lugar del código. */
+  serial?: SerialSpec;
+  /**
+   * Regla con la que se calculó la cantidad. La cantidad sigue siendo
+   * editable: si no coincide con el cálculo, se corrigió a mano.
+   */
+  quantityRule?: QuantityRule;
+  /** Unidades, bultos, pallets y cajas con los que se calcula la cantidad. */
+  counts?: Partial<Record<CountField, number>>;
+  /** Proveedor, sección u otro dato con el que se puede dividir el trabajo en partes. */
+  group?: string;
+}
+
+/**
+ * Cómo se obtiene la cantidad de etiquetas: la indicada en la columna
+ * Cantidad, las unidades recibidas ÷ unidades por bulto (redondeado hacia
+ * arriba) o una por pallet más una por caja.
+ */
+export type QuantityRuleKind = "column" | "packs" | "palletsBoxes";
+
+/** Regla de cantidad con límites opcionales para el resultado. */
+export interface QuantityRule {
+  kind: QuantityRuleKind;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Cómo se numeran las copias: con los campos de incremento de la impresora
+ * (un solo bloque) o con un bloque por copia.
+ */
+export type SerialMode = "printer" | "blocks";
+
+/** Numeración correlativa, p. ej. prefijo "ALM-", inicio 1, paso 1 y 4 dígitos: "ALM-0001". */
+export interface SerialSpec {
+  prefix: string;
+  start: number;
+  step: number;
+  /** Dígitos mínimos del número, completados con ceros a la izquierda. */
+  padding: number;
+  suffix: string;
+  mode: SerialMode;
+}
+
+/** Unidades de medida del precio por unidad. */
+export type PriceUnit = "kg" | "L" | "unidad";
+
+/**
+ * Formato de moneda de las etiquetas de precio, p. ej. "$ 1.234,50":
+ * símbolo, separador de miles, separador decimal y cantidad de decimales.
+ */
+export interface CurrencyFormat {
+  symbol: string;
+  thousands: string;
+  decimal: string;
+  decimals: number;
+}
+
+/** Etiquetas por fila del rollo: una columna o tres (formato ETIQ2J de SAP). */
+export type LabelColumns = 1 | 3;
+
+/** Simbologías de código de barras que admiten las plantillas. */
+export type BarcodeType = "code128" | "code39" | "ean13" | "ean8" | "upca" | "gs1128";
+
+/** Tipo de campo del formato: B (código de barras), H (texto) o I (imagen). */
+export type LayoutFieldKind = "barcode" | "text" | "image";
+
+/** Dato de la etiqueta que se imprime en un campo. */
+export type LayoutFieldSource =
+  | "code"
+  | "line1"
+  | "line2"
+  | "price"
+  | "unitPrice"
+  | "promoPrice"
+  | "promoUntil"
+  | "gs1"
+  | "gs1Text"
+  | "lot"
+  | "expiry";
+
+/** Valores que se imprimen en los campos de una etiqueta, por origen. */
+export type FieldValues = Record<LayoutFieldSource, string>;
+
+/** Rotación del campo en pasos de 90° (f0..f3). */
+export type FieldDirection = 0 | 1 | 2 | 3;
+
+/**
+ * Campo de una plantilla, con las mismas propiedades que su definición en el
+ * formato de la impresora (o, f, c, h, w, d).
+ */
+export interface LayoutField {
+  /** Número de campo en el formato (B0, H3, I0...). */
+  number: number;
+  /** Nombre con el que se envían los datos ("BR0", "TX3"); los campos I no lo llevan. */
+  name?: string;
+  kind: LayoutFieldKind;
+  /** Columna del rollo a la que pertenece el campo (0, 1 o 2). */
+  column: number;
+  source?: LayoutFieldSource;
+  origin: { x: number; y: number };
+  direction: FieldDirection;
+  /** Fuente de texto (c25); no se usa en códigos de barras. */
+  font?: number;
+  height: number;
+  width: number;
+  /** Longitud máxima de datos (d0,N). */
+  maxLength?: number;
+  barcodeType?: BarcodeType;
+  /** Imprime la interpretación legible bajo el código de barras (i1). */
+  humanReadable?: boolean;
+}
+
+/** Parámetros de impresora enviados con <SI> antes del formato. */
+export interface LayoutPrinterSettings {
+  /** Valor de <SI>g (modo de sensor y largo de etiqueta). */
+  gap: string;
+  darkness: number;
+  speed: number;
+}
+
+/**
+ * Plantilla de etiqueta editable: define la cabecera del formato y la
+ * posición de cada campo por columna.
+ */
+export interface LabelLayout {
+  id: string;
+  name: string;
+  /** Nombre del formato en la impresora (A1,ETIQ2J). */
+  formatName: string;
+  /** Opciones de formato enviadas tras la definición, por ejemplo "L39;D0;". */
+  formatOptions: string;
+  settings: LayoutPrinterSettings;
+  /** Tamaño de una etiqueta (la primera columna), en puntos de impresora. */
+  labelSize: { width: number; height: number };
+  fields: LayoutField[];
+  /** Formato de los precios; sin él se usa "$ 1.234,50". */
+  currency?: CurrencyFormat;
+  /** Las plantillas de fábrica no se pueden eliminar, sólo restablecer. */
+  builtIn?: boolean;
+}
+
+/** Lenguajes de impresora soportados por los generadores. */
+export type PrinterLanguage = "fingerprint" | "zpl" | "epl" | "ipl";
+
+/** Caracteres de control como tokens legibles ("<STX>") o como bytes reales (0x02). */
+export type ControlCharMode = "tokens" | "bytes";
+
+export type LineEnding = "crlf" | "lf" | "cr";
+
+/** Codificación de caracteres del archivo descargado. */
+export type OutputEncoding = "cp850" | "windows-1252" | "iso-8859-1" | "ascii" | "utf-8";
+
+/** Cómo se escribe el programa generado en el archivo final. */
+export interface OutputOptions {
+  controlChars: ControlCharMode;
+  lineEnding: LineEnding;
+  encoding: OutputEncoding;
+  /** Reemplaza los caracteres sin equivalente por su forma sin acento (Ñ → N) en lugar de "?". */
+  transliterate: boolean;
+  /** Qué hacer si el validador encuentra errores en el programa generado. */
+  lintPolicy: LintPolicy;
+}
+
+/** Errores del validador: bloquean la descarga o sólo se informan. */
+export type LintPolicy = "block" | "warn";
+
+/** Problema que el validador encontró en el programa generado. */
+export interface LintIssue {
+  severity: "error" | "warning";
+  message: string;
+  /** Línea del programa, desde 1. */
+  line: number;
+  /** Etiqueta que generó el bloque; sin ella el problema es de la cabecera. */
+  labelId?: string;
+}
+
+/** Opciones comunes a todos los generadores. */
+export interface GenerateOptions {
+  layout: LabelLayout;
+  columns: LabelColumns;
+  /** Codificación del archivo, para elegir la página de códigos de la impresora; por defecto CP850. */
+  encoding?: OutputEncoding;
+}
+
+/**
+ * Backend que convierte la lista de etiquetas en un programa para la impresora.
+ */
+export interface PrinterGenerator {
+  id: PrinterLanguage;
+  name: string;
+  /** Extensión del archivo descargado, sin punto. */
+  extension: string;
+  fileName: string;
+  /** La impresora puede incrementar la numeración por sí misma (modo "printer"). */
+  serialIncrement?: boolean;
+  generate: (labels: LabelData[], options: GenerateOptions) => string;
+  /** Bloques de datos que genera una etiqueta, para ubicarla en el programa completo. */
+  blockCount: (label: LabelData, options: GenerateOptions) => number;
+}
+
+/** Separadores admitidos al pegar o importar datos tabulares. */
+export type Delimiter = "\t" | ";" | ",";
+
+/** Datos de la etiqueta que se leen de una columna. */
+export type MappedField = "code" | "description" | "quantity" | PriceField | TraceField | CountField | ExtraField;
+
+/** Columnas opcionales con los datos de las etiquetas de precio. */
+export type PriceField = "price" | "unit" | "unitPrice" | "promoPrice" | "promoUntil";
+
+/** Columnas opcionales de trazabilidad: GTIN, lote y vencimiento. */
+export type TraceField = "gtin" | "lot" | "expiry";
+
+/** Columnas opcionales con las que una regla calcula la cantidad. */
+export type CountField = "units" | "packSize" | "pallets" | "boxes";
+
+/** Columnas opcionales que no se imprimen y sirven para dividir el trabajo en partes. */
+export type ExtraField = "group";
+
+/**
+ * Asignación de columnas de una tabla pegada a los datos de la etiqueta.
+ * Un índice null indica que el dato no está en la tabla.
+ */
+export interface ColumnMapping {
+  hasHeader: boolean;
+  columns: Record<MappedField, number | null>;
+  /** Regla de cantidad de esta importación; sin ella se usa la columna Cantidad. */
+  quantityRule?: QuantityRule;
+}
+
+/** Valores de una fila importada, tal como venían en la tabla. */
+export interface RowValues extends Partial<Record<PriceField | TraceField | CountField | ExtraField, string>> {
+  code: string;
+  description: string;
+  quantity: string;
+}
+
+/**
+ * Fila del informe de importación: rechazada (error) o añadida con ajustes o
+ * avisos (warning). Las advertencias guardan el id de la etiqueta creada.
+ */
+export interface ImportReportEntry {
+  id: string;
+  /** Número de fila en la tabla de origen, contando el encabezado. */
+  line: number;
+  severity: "error" | "warning";
+  reasons: string[];
+  values: RowValues;
+  labelId?: string;
+}
+
+/** Lote de etiquetas guardado con nombre, p. ej. "Recepción proveedor X 14/10". */
+export interface LabelBatch {
+  id: string;
+  name: string;
+  labels: LabelData[];
+  /** Última modificación, en milisegundos desde epoch. */
+  updatedAt: number;
+}
+
+/** Lista de trabajo autoguardada y el lote abierto, si hay uno. */
+export interface SessionState {
+  labels: LabelData[];
+  batchId: string | null;
+}
+
+/**
+ * Producto del catálogo local. Las columnas adicionales de la planilla de
+ * origen se guardan en `fields` con su encabezado.
+ */
+export interface CatalogProduct {
+  code: string;
+  description: string;
+  fields?: Record<string, string>;
+  updatedAt: number;
+}
+
+/** Qué hacer con un código que ya está en la lista: sumar, dejar aparte o reemplazar. */
+export type DuplicateAction = "merge" | "separate" | "replace";
+
+export interface DuplicatePolicy {
+  action: DuplicateAction;
+  /** Descripción que gana si difieren: la que ya estaba o la que llega. */
+  description: "existing" | "incoming";
+  /** Descripción elegida a mano para códigos concretos (clave normalizada). */
+  overrides?: Record<string, string>;
+}
+
+/** Impresora configurada en el puente de impresión (bridge/printers.json). */
+export interface BridgePrinter {
+  id: string;
+  name: string;
+  host: string;
+  port?: number;
+  protocol: "raw" | "lpr";
+}
+
+export type PrintJobStatus = "queued" | "sending" | "done" | "failed" | "cancelled";
+
+/** Trabajo en la cola del puente de impresión, tal como lo informa el puente. */
+export interface PrintJob {
+  id: string;
+  printerId: string;
+  name: string;
+  bytes: number;
+  status: PrintJobStatus;
+  /** Envíos intentados, contando los reintentos. */
+  attempts: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Dirección del puente y última impresora elegida. */
+export interface PrintBridgeSettings {
+  url: string;
+  printerId: string;
+}
+
+/**
+ * Cómo se divide la salida en partes: sin dividir, cada tantas etiquetas,
+ * cada tantos productos o por el valor de una columna.
+ */
+export type ChunkMode = "none" | "labels" | "products" | "field";
+
+/** Columnas por las que se puede dividir el trabajo. */
+export type ChunkField = ExtraField | "lot" | "expiry";
+
+export interface ChunkOptions {
+  mode: ChunkMode;
+  /** Etiquetas o productos por parte. */
+  size: number;
+  field: ChunkField;
 }
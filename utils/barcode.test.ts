@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { barcodeIssues, completeCheckDigit, gtinBarcodeType, inferBarcodeType } from "./barcode";
+
+describe("inferBarcodeType", () => {
+  it("no deduce EAN/UPC de un número con dígito de control válido", () => {
+    expect(inferBarcodeType("7791234567898")).toBeUndefined();
+    expect(inferBarcodeType("036000291452")).toBeUndefined();
+  });
+
+  it("deduce GS1-128 de un código con AI entre paréntesis", () => {
+    expect(inferBarcodeType("(01)07791234567898(10)L1")).toBe("gs1128");
+  });
+});
+
+describe("gtinBarcodeType", () => {
+  it("sugiere la simbología según el largo si el dígito de control es válido", () => {
+    expect(gtinBarcodeType("7791234567898")).toBe("ean13");
+    expect(gtinBarcodeType("036000291452")).toBe("upca");
+    expect(gtinBarcodeType("96385074")).toBe("ean8");
+    expect(gtinBarcodeType("7791234567890")).toBeUndefined();
+  });
+});
+
+describe("dígito de control", () => {
+  it("completa el que falta y avisa si es incorrecto", () => {
+    expect(completeCheckDigit("779123456789", "ean13")).toBe("7791234567898");
+    expect(barcodeIssues("7791234567890", "ean13")).toEqual(["Dígito de control incorrecto: debería ser 8."]);
+  });
+});
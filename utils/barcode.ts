@@ -0,0 +1,230 @@
+import { BarcodeType } from "../types";
+import { gs1BarcodeData, gs1Issues, parseGs1 } from "./gs1";
+
+export const BARCODE_LABELS: Record<BarcodeType, string> = {
+  code128: "Code 128",
+  code39: "Code 39",
+  ean13: "EAN-13",
+  ean8: "EAN-8",
+  upca: "UPC-A",
+  gs1128: "GS1-128",
+};
+
+/** Largo total, con dígito de control, de las simbologías de largo fijo. */
+export const FIXED_LENGTHS: Partial<Record<BarcodeType, number>> = { ean13: 13, ean8: 8, upca: 12 };
+
+/** Dígito de control GTIN (módulo 10, pesos 3 y 1 desde la derecha). */
+export function gtinCheckDigit(body: string): number {
+  const sum = [...body].reverse().reduce((acc, digit, index) => acc + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+const hasValidCheckDigit = (digits: string): boolean =>
+  gtinCheckDigit(digits.slice(0, -1)) === Number(digits[digits.length - 1]);
+
+/**
+ * Deduce la simbología de un código: sólo uno con AI entre paréntesis es
+ * GS1-128. Para el resto devuelve undefined y se usa la del campo de la
+ * plantilla; un número con dígito de control válido puede ser un código
+ * interno, así que EAN/UPC se eligen a mano (ver `gtinBarcodeType`).
+ */
+export function inferBarcodeType(code: string): BarcodeType | undefined {
+  return code.startsWith("(") && parseGs1(code) ? "gs1128" : undefined;
+}
+
+/**
+ * Simbología EAN/UPC que corresponde a un código numérico con dígito de
+ * control válido: 13 dígitos EAN-13, 12 UPC-A y 8 EAN-8. Se ofrece como
+ * sugerencia, nunca se aplica sola.
+ */
+export function gtinBarcodeType(code: string): BarcodeType | undefined {
+  if (!/^\d+$/.test(code) || !hasValidCheckDigit(code)) return undefined;
+  switch (code.length) {
+    case 13: return "ean13";
+    case 12: return "upca";
+    case 8: return "ean8";
+    default: return undefined;
+  }
+}
+
+/**
+ * Completa el dígito de control de un código EAN/UPC al que le falta. Devuelve
+ * null si la simbología no lo usa o el código no tiene el largo esperado.
+ */
+export function completeCheckDigit(code: string, type: BarcodeType): string | null {
+  const length = FIXED_LENGTHS[type];
+  if (!length || code.length !== length - 1 || !/^\d+$/.test(code)) return null;
+  return `${code}${gtinCheckDigit(code)}`;
+}
+
+/**
+ * Motivos por los que un código no se puede imprimir con la simbología. Un
+ * EAN/UPC sin dígito de control se acepta: la impresora lo calcula.
+ */
+export function barcodeIssues(code: string, type: BarcodeType): string[] {
+  const length = FIXED_LENGTHS[type];
+  if (length) {
+    if (!/^\d+$/.test(code)) return [`${BARCODE_LABELS[type]} sólo admite dígitos.`];
+    if (code.length !== length && code.length !== length - 1) {
+      return [`${BARCODE_LABELS[type]} requiere ${length} dígitos (o ${length - 1} sin dígito de control); el código tiene ${code.length}.`];
+    }
+    if (code.length === length && !hasValidCheckDigit(code)) {
+      return [`Dígito de control incorrecto: debería ser ${gtinCheckDigit(code.slice(0, -1))}.`];
+    }
+    return [];
+  }
+  if (type === "code39") {
+    return /^[0-9A-Z\-. $/+%]*$/.test(code) ? [] : ["Code 39 sólo admite mayúsculas, dígitos y - . $ / + % espacio."];
+  }
+  if (type === "gs1128") return gs1Issues(code);
+  return encodeCode128(code) ? [] : ["Code 128 sólo admite caracteres ASCII imprimibles."];
+}
+
+/**
+ * Anchos de barra/espacio de cada símbolo Code 128 (valores 0 a 106).
+ * 103-105 son los inicios A/B/C y 106 la parada.
+ */
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+];
+
+const CODE_B = 100;
+const CODE_C = 99;
+const FNC1 = 102;
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+// Largo de la secuencia de dígitos que empieza en `from`.
+const digitRun = (value: string, from: number): number => {
+  let end = from;
+  while (end < value.length && value[end] >= "0" && value[end] <= "9") end++;
+  return end - from;
+};
+
+/**
+ * Codifica un texto ASCII imprimible en valores Code 128, usando el juego C
+ * para los tramos de dígitos que lo justifican y el juego B para el resto.
+ * Con `gs1` se agrega FNC1 tras el inicio (GS1-128). Devuelve null si algún
+ * carácter no es representable.
+ */
+export function encodeCode128(value: string, gs1: boolean = false): number[] | null {
+  if (!value || /[^\x20-\x7E]/.test(value)) return null;
+
+  const useC = (from: number): boolean => {
+    const run = digitRun(value, from);
+    // Al inicio o al final alcanza con 4 dígitos; en medio hacen falta 6.
+    const atEdge = from === 0 || from + run === value.length;
+    return run >= (atEdge ? 4 : 6) || (from === 0 && run === value.length && run % 2 === 0);
+  };
+
+  const codes: number[] = [];
+  let codeSet: "B" | "C" = useC(0) ? "C" : "B";
+  codes.push(codeSet === "C" ? START_C : START_B);
+  if (gs1) codes.push(FNC1);
+
+  let i = 0;
+  while (i < value.length) {
+    if (codeSet === "C") {
+      if (digitRun(value, i) >= 2) {
+        codes.push(parseInt(value.substring(i, i + 2), 10));
+        i += 2;
+      } else {
+        codes.push(CODE_B);
+        codeSet = "B";
+      }
+      continue;
+    }
+    const run = digitRun(value, i);
+    // Un tramo impar deja su primer dígito en B para cambiar a C con pares.
+    if (useC(i) && run % 2 === 0) {
+      codes.push(CODE_C);
+      codeSet = "C";
+      continue;
+    }
+    codes.push(value.charCodeAt(i) - 32);
+    i++;
+  }
+
+  const checksum = codes.reduce((sum, code, index) => sum + code * (index === 0 ? 1 : index), 0) % 103;
+  return [...codes, checksum, STOP];
+}
+
+/** Patrones Code 39: nueve elementos alternando barra/espacio, n = angosto, w = ancho. */
+const CODE39_PATTERNS: Record<string, string> = {
+  "0": "nnnwwnwnn", "1": "wnnwnnnnw", "2": "nnwwnnnnw", "3": "wnwwnnnnn", "4": "nnnwwnnnw",
+  "5": "wnnwwnnnn", "6": "nnwwwnnnn", "7": "nnnwnnwnw", "8": "wnnwnnwnn", "9": "nnwwnnwnn",
+  A: "wnnnnwnnw", B: "nnwnnwnnw", C: "wnwnnwnnn", D: "nnnnwwnnw", E: "wnnnwwnnn",
+  F: "nnwnwwnnn", G: "nnnnnwwnw", H: "wnnnnwwnn", I: "nnwnnwwnn", J: "nnnnwwwnn",
+  K: "wnnnnnnww", L: "nnwnnnnww", M: "wnwnnnnwn", N: "nnnnwnnww", O: "wnnnwnnwn",
+  P: "nnwnwnnwn", Q: "nnnnnnwww", R: "wnnnnnwwn", S: "nnwnnnwwn", T: "nnnnwnwwn",
+  U: "wwnnnnnnw", V: "nwwnnnnnw", W: "wwwnnnnnn", X: "nwnnwnnnw", Y: "wwnnwnnnn",
+  Z: "nwwnwnnnn", "-": "nwnnnnwnw", ".": "wwnnnnwnn", " ": "nwwnnnwnn", "$": "nwnwnwnnn",
+  "/": "nwnwnnnwn", "+": "nwnnnwnwn", "%": "nnnwnwnwn", "*": "nwnnwnwnn",
+};
+
+/**
+ * Patrones EAN (juego L; G es el inverso de R leído al revés, R el complemento de L)
+ * y la paridad L/G de los seis primeros dígitos según el dígito inicial del EAN-13.
+ */
+const EAN_L = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+const EAN_R = EAN_L.map((pattern) => [...pattern].map((bit) => (bit === "1" ? "0" : "1")).join(""));
+const EAN_G = EAN_R.map((pattern) => [...pattern].reverse().join(""));
+const EAN13_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+// Módulos EAN-13/EAN-8: guardas, mitad izquierda con paridad, centro y mitad derecha.
+function encodeEan(digits: string): string {
+  const half = digits.length === 13 ? 6 : 4;
+  const body = digits.length === 13 ? digits.slice(1) : digits;
+  const parity = digits.length === 13 ? EAN13_PARITY[Number(digits[0])] : "LLLL";
+  const left = [...body.slice(0, half)].map((d, i) => (parity[i] === "G" ? EAN_G : EAN_L)[Number(d)]).join("");
+  const right = [...body.slice(half)].map((d) => EAN_R[Number(d)]).join("");
+  return `101${left}01010${right}101`;
+}
+
+/** Relación ancho/angosto de Code 39 (r0 en la impresora equivale a 3:1). */
+const CODE39_RATIO = 3;
+
+/**
+ * Devuelve los módulos del código de barras como una cadena de "1" (barra) y
+ * "0" (espacio), sin zonas de silencio. Devuelve null si el valor no se puede
+ * codificar con la simbología indicada.
+ */
+export function encodeBarcode(value: string, type: BarcodeType): string | null {
+  const length = FIXED_LENGTHS[type];
+  if (length) {
+    if (barcodeIssues(value, type).length > 0) return null;
+    const digits = completeCheckDigit(value, type) ?? value;
+    // UPC-A es un EAN-13 que empieza con 0.
+    return encodeEan(type === "upca" ? `0${digits}` : digits);
+  }
+  if (type === "code39") {
+    const data = `*${value}*`;
+    if (value.includes("*") || [...data].some((ch) => !CODE39_PATTERNS[ch])) return null;
+    return [...data]
+      .map((ch) =>
+        [...CODE39_PATTERNS[ch]]
+          .map((width, index) => (index % 2 === 0 ? "1" : "0").repeat(width === "w" ? CODE39_RATIO : 1))
+          .join("")
+      )
+      .join("0");
+  }
+  if (type === "gs1128" && gs1Issues(value).length > 0) return null;
+  const codes = type === "gs1128" ? encodeCode128(gs1BarcodeData(value), true) : encodeCode128(value);
+  if (!codes) return null;
+  return codes
+    .map((code) =>
+      [...CODE128_PATTERNS[code]].map((width, index) => (index % 2 === 0 ? "1" : "0").repeat(Number(width))).join("")
+    )
+    .join("");
+}
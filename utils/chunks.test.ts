@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { LabelData } from "../types";
+import { DEFAULT_LAYOUTS } from "../layouts";
+import { GENERATORS } from "../generators";
+import { rowValues, toPrintRows } from "../generators/rows";
+import { DEFAULT_SERIAL } from "./serial";
+import { chunkFileName, chunksZipName, sliceLabel, splitLabels } from "./chunks";
+
+const label = (id: string, quantity: number, group?: string): LabelData => ({ id, code: id.toUpperCase(), description: "x", quantity, group });
+const LABELS = [label("a", 3, "Ferretería"), label("b", 0, "Ferretería"), label("c", 4, "Pinturería"), label("d", 2, "Ferretería")];
+
+describe("splitLabels", () => {
+  it("divide por cantidad de etiquetas y parte un producto entre dos partes", () => {
+    const chunks = splitLabels(LABELS, { mode: "labels", size: 5, field: "group" });
+    expect(chunks.map(chunk => chunk.title)).toEqual(["Etiquetas 1–5", "Etiquetas 6–9"]);
+    expect(chunks.map(chunk => chunk.labels.map(l => [l.id, l.quantity]))).toEqual([
+      [["a", 3], ["c", 2]],
+      [["c", 2], ["d", 2]],
+    ]);
+  });
+
+  it("divide por productos y omite los de cantidad 0", () => {
+    const chunks = splitLabels(LABELS, { mode: "products", size: 2, field: "group" });
+    expect(chunks.map(chunk => chunk.labels.map(l => l.id))).toEqual([["a", "c"], ["d"]]);
+  });
+
+  it("agrupa por columna en el orden en que aparece cada valor", () => {
+    const chunks = splitLabels(LABELS, { mode: "field", size: 1, field: "group" });
+    expect(chunks.map(chunk => [chunk.title, chunk.labelCount])).toEqual([["Proveedor / sección: Ferretería", 5], ["Proveedor / sección: Pinturería", 4]]);
+  });
+
+  it("identifica cada parte por su contenido", () => {
+    const first = splitLabels(LABELS, { mode: "products", size: 2, field: "group" });
+    const again = splitLabels(LABELS, { mode: "products", size: 2, field: "group" });
+    const changed = splitLabels([label("a", 5), ...LABELS.slice(1)], { mode: "products", size: 2, field: "group" });
+    expect(again.map(chunk => chunk.key)).toEqual(first.map(chunk => chunk.key));
+    expect(changed[0].key).not.toBe(first[0].key);
+    expect(changed[1].key).toBe(first[1].key);
+  });
+});
+
+// Filas físicas del rollo con el código de cada columna, como las imprime la impresora.
+const printedRows = (labels: LabelData[], serialIncrement: boolean): string[] =>
+  toPrintRows(labels, DEFAULT_LAYOUTS[0], 3, serialIncrement).flatMap((row) =>
+    Array.from({ length: row.copies }, () =>
+      Array.from({ length: row.filled }, (_, column) => rowValues(row, DEFAULT_LAYOUTS[0].fields.find((field) => field.column === column)!).code).join(" ")
+    )
+  );
+
+describe("splitLabels a tres por fila", () => {
+  const labels = [label("a", 10), label("b", 2), { ...label("c", 7), serial: DEFAULT_SERIAL }, label("d", 5)];
+
+  it("corta los productos en filas completas", () => {
+    const chunks = splitLabels(labels, { mode: "labels", size: 4, field: "group" }, 3);
+    expect(chunks.map(chunk => chunk.labels.map(l => [l.id, l.quantity]))).toEqual([
+      [["a", 3]],
+      [["a", 3]],
+      [["a", 4]],
+      [["b", 2]],
+      [["c", 3]],
+      [["c", 4]],
+      [["d", 3]],
+      [["d", 2]],
+    ]);
+    expect(chunks.reduce((sum, chunk) => sum + chunk.labelCount, 0)).toBe(24);
+  });
+
+  GENERATORS.forEach((generator) => {
+    it(`las partes imprimen lo mismo que el trabajo entero en ${generator.name}`, () => {
+      const serialIncrement = generator.id === "zpl";
+      const chunks = splitLabels(labels, { mode: "labels", size: 4, field: "group" }, 3);
+      expect(chunks.flatMap(chunk => printedRows(chunk.labels, serialIncrement))).toEqual(printedRows(labels, serialIncrement));
+    });
+  });
+});
+
+describe("sliceLabel", () => {
+  it("continúa la numeración en la copia que le corresponde", () => {
+    const serial = { ...DEFAULT_SERIAL, start: 10, step: 2 };
+    expect(sliceLabel({ ...label("a", 6), serial }, 4, 2).serial?.start).toBe(18);
+  });
+});
+
+describe("nombres de archivo", () => {
+  it("numera las partes con ceros y nombra el ZIP", () => {
+    expect(chunkFileName("etiquetas.txt", 2, 12)).toBe("etiquetas_parte03.txt");
+    expect(chunkFileName("etiquetas", 0, 150)).toBe("etiquetas_parte001");
+    expect(chunksZipName("etiquetas.txt")).toBe("etiquetas_partes.zip");
+  });
+});
@@ -0,0 +1,146 @@
+import { ChunkField, ChunkMode, ChunkOptions, LabelData } from "../types";
+import { FIELD_LABELS } from "../parsers/columns";
+import { loadSetting, saveSetting } from "./settings";
+
+export const CHUNK_MODE_LABELS: Record<ChunkMode, string> = {
+  none: "Sin dividir",
+  labels: "Cada N etiquetas",
+  products: "Cada N productos",
+  field: "Por valor de una columna",
+};
+
+export const CHUNK_FIELDS: ChunkField[] = ["group", "lot", "expiry"];
+
+export const CHUNK_FIELD_LABELS: Record<ChunkField, string> = {
+  group: FIELD_LABELS.group,
+  lot: FIELD_LABELS.lot,
+  expiry: FIELD_LABELS.expiry,
+};
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = { mode: "none", size: 500, field: "group" };
+
+/** Una parte del trabajo: se descarga como un archivo o se envía como un trabajo. */
+export interface OutputChunk {
+  /**
+   * Identifica la parte por sus etiquetas y copias, para recordar que se
+   * imprimió aunque cambie la forma de dividir.
+   */
+  key: string;
+  title: string;
+  labels: LabelData[];
+  labelCount: number;
+}
+
+const PRINTED_KEY = "etiquetas.printedChunks";
+/** Partes impresas que se recuerdan; las más viejas se olvidan. */
+const PRINTED_LIMIT = 500;
+
+export const loadPrintedChunks = (): string[] => loadSetting<{ keys: string[] }>(PRINTED_KEY, { keys: [] }).keys;
+
+export const savePrintedChunks = (keys: string[]): boolean =>
+  saveSetting(PRINTED_KEY, { keys: keys.slice(-PRINTED_LIMIT) });
+
+/**
+ * Copias `offset` a `offset + count - 1` de una etiqueta. Las numeradas
+ * empiezan en el número que le corresponde a la primera copia de la porción.
+ */
+export function sliceLabel(label: LabelData, offset: number, count: number): LabelData {
+  if (offset === 0 && count === label.quantity) return label;
+  const sliced: LabelData = { ...label, quantity: count };
+  if (label.serial) sliced.serial = { ...label.serial, start: label.serial.start + offset * label.serial.step };
+  return sliced;
+}
+
+// Hash corto (FNV-1a) de las copias de cada etiqueta de la parte.
+function chunkKey(labels: LabelData[]): string {
+  let hash = 0x811c9dc5;
+  const text = labels.map((label) => `${label.id}:${label.code}:${label.quantity}:${label.serial?.start ?? ""}`).join("|");
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  return `${labels.length}-${(hash >>> 0).toString(36)}`;
+}
+
+const countLabels = (labels: LabelData[]): number => labels.reduce((sum, label) => sum + label.quantity, 0);
+
+function makeChunk(labels: LabelData[], title: string): OutputChunk {
+  return { key: chunkKey(labels), title, labels, labelCount: countLabels(labels) };
+}
+
+/**
+ * Divide las etiquetas imprimibles en partes. Por cantidad de etiquetas, un
+ * producto que no entra en la parte sigue en la siguiente, cortado en filas
+ * completas del rollo de `columns` etiquetas para que las partes impriman lo
+ * mismo que el trabajo entero; por columna, los productos con el mismo valor
+ * van juntos en el orden en que aparece cada valor por primera vez.
+ */
+export function splitLabels(labels: LabelData[], options: ChunkOptions, columns: number = 1): OutputChunk[] {
+  const printable = labels.filter((label) => label.quantity > 0 && label.code);
+  if (printable.length === 0) return [];
+  const size = Math.max(1, Math.floor(options.size) || 1);
+
+  if (options.mode === "products") {
+    const chunks: OutputChunk[] = [];
+    for (let first = 0; first < printable.length; first += size) {
+      const last = Math.min(first + size, printable.length);
+      chunks.push(makeChunk(printable.slice(first, last), `Productos ${first + 1}–${last}`));
+    }
+    return chunks;
+  }
+
+  if (options.mode === "labels") {
+    const chunks: OutputChunk[] = [];
+    let current: LabelData[] = [];
+    let room = size;
+    let printed = 0;
+    const close = () => {
+      const count = countLabels(current);
+      chunks.push(makeChunk(current, `Etiquetas ${printed + 1}–${printed + count}`));
+      printed += count;
+      current = [];
+      room = size;
+    };
+    printable.forEach((label) => {
+      for (let offset = 0; offset < label.quantity; ) {
+        const left = label.quantity - offset;
+        // Si el producto no termina en esta parte, se corta en una fila completa.
+        let count = left > room ? room - (room % columns) : left;
+        if (count === 0) {
+          if (current.length > 0) {
+            close();
+            continue;
+          }
+          count = Math.min(columns, left);
+        }
+        current.push(sliceLabel(label, offset, count));
+        offset += count;
+        room -= count;
+        if (room <= 0) close();
+      }
+    });
+    if (current.length > 0) close();
+    return chunks;
+  }
+
+  if (options.mode === "field") {
+    const groups = new Map<string, LabelData[]>();
+    printable.forEach((label) => {
+      const value = label[options.field]?.trim() ?? "";
+      const group = groups.get(value);
+      if (group) group.push(label);
+      else groups.set(value, [label]);
+    });
+    const name = CHUNK_FIELD_LABELS[options.field];
+    return [...groups].map(([value, group]) => makeChunk(group, `${name}: ${value || "(sin dato)"}`));
+  }
+
+  return [makeChunk(printable, "Todo el trabajo")];
+}
+
+/** Nombre del archivo de una parte: "etiquetas.txt" → "etiquetas_parte03.txt". */
+export function chunkFileName(fileName: string, index: number, total: number): string {
+  const number = String(index + 1).padStart(Math.max(2, String(total).length), "0");
+  const dot = fileName.lastIndexOf(".");
+  return dot > 0 ? `${fileName.slice(0, dot)}_parte${number}${fileName.slice(dot)}` : `${fileName}_parte${number}`;
+}
+
+/** Nombre del ZIP con las partes: "etiquetas.txt" → "etiquetas_partes.zip". */
+export const chunksZipName = (fileName: string): string => `${fileName.replace(/\.[^.]+$/, "")}_partes.zip`;
@@ -0,0 +1,34 @@
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Fecha ISO (AAAA-MM-DD) a partir de "31/10/2026", "31-10-26" o "2026-10-31".
+ * Las fechas que Excel muestra como mes/día ("10/31/26") se reconocen porque
+ * el segundo número no puede ser un mes. Devuelve null si no es una fecha.
+ */
+export function parseDate(text: string): string | null {
+  const value = text.trim();
+  let year: number, month: number, day: number;
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const local = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (iso) {
+    [year, month, day] = iso.slice(1).map(Number);
+  } else if (local) {
+    const [first, second, rawYear] = local.slice(1).map(Number);
+    [day, month] = second > 12 ? [second, first] : [first, second];
+    year = rawYear < 100 ? 2000 + rawYear : rawYear;
+  } else {
+    return null;
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/** "2026-10-31" → "31/10/2026". */
+export const formatDate = (iso: string): string => iso.split("-").reverse().join("/");
+
+/** Fecha de hoy en hora local, como fecha ISO. */
+export function todayIso(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
@@ -0,0 +1,20 @@
+/**
+ * Descarga un contenido como archivo desde el navegador. El contenido en
+ * bytes se guarda tal cual, sin convertirlo a texto.
+ * @param content Texto o bytes del archivo.
+ * @param fileName Nombre sugerido para la descarga.
+ */
+export function downloadFile(content: string | Uint8Array, fileName: string): void {
+  const blob =
+    typeof content === "string"
+      ? new Blob([content], { type: "text/plain" })
+      : new Blob([content], { type: "application/octet-stream" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { LabelData } from "../types";
+import { applyDuplicatePolicy, findDuplicates } from "./duplicates";
+
+const old: LabelData = {
+  id: "old", code: "A1", description: "Tornillos", quantity: 3, price: 100, gtin: "07791234567898",
+  expiry: "2026-01-31", barcodeType: "ean13", serial: { prefix: "A-", start: 1, step: 1, padding: 4, suffix: "", mode: "blocks" },
+};
+const fresh: LabelData = { id: "new", code: "a1 ", description: "Tornillos x100", quantity: 5, price: 120, expiry: "2027-06-30" };
+
+describe("findDuplicates", () => {
+  it("compara los códigos sin espacios ni mayúsculas", () => {
+    expect(findDuplicates([old], [fresh])).toMatchObject([{ key: "A1", existing: [old], incoming: [fresh] }]);
+  });
+});
+
+describe("applyDuplicatePolicy", () => {
+  it("combinar suma las cantidades y actualiza los precios", () => {
+    const [merged] = applyDuplicatePolicy([old], [fresh], { action: "merge", description: "existing" });
+    expect(merged).toMatchObject({ id: "old", quantity: 8, price: 120, description: "Tornillos", gtin: old.gtin, serial: old.serial });
+  });
+
+  it("reemplazar deja todos los datos nuevos en el lugar de la anterior", () => {
+    const result = applyDuplicatePolicy([old, { ...old, id: "otro", code: "B2" }], [fresh], { action: "replace", description: "incoming" });
+    expect(result.map(label => label.id)).toEqual(["old", "otro"]);
+    expect(result[0]).toEqual({ ...fresh, id: "old", lineBreak: undefined });
+  });
+
+  it("reemplazar respeta la descripción elegida", () => {
+    const [replaced] = applyDuplicatePolicy([old], [fresh], { action: "replace", description: "existing" });
+    expect(replaced).toMatchObject({ description: "Tornillos", quantity: 5, expiry: "2027-06-30" });
+    expect(replaced.gtin).toBeUndefined();
+    expect(replaced.serial).toBeUndefined();
+  });
+
+  it("mantener separadas agrega la nueva al final", () => {
+    expect(applyDuplicatePolicy([old], [fresh], { action: "separate", description: "existing" })).toEqual([old, fresh]);
+  });
+});
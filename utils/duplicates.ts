@@ -0,0 +1,90 @@
+import { DuplicatePolicy, LabelData, PriceField } from "../types";
+
+/** Los códigos se comparan sin espacios ni diferencias de mayúsculas. */
+export const duplicateKey = (code: string): string => code.trim().toUpperCase();
+
+/** Clave de una etiqueta: el código y, si tiene, el lote; lotes distintos no se combinan. */
+export const labelKey = (label: Pick<LabelData, "code" | "lot">): string =>
+  label.lot ? `${duplicateKey(label.code)}|${duplicateKey(label.lot)}` : duplicateKey(label.code);
+
+export interface DuplicateGroup {
+  key: string;
+  code: string;
+  existing: LabelData[];
+  incoming: LabelData[];
+  /** Descripciones distintas, en orden de aparición. */
+  descriptions: string[];
+}
+
+/**
+ * Códigos (con su lote) que aparecen más de una vez al sumar `incoming` a
+ * `existing`, incluidos los repetidos dentro de lo que llega.
+ */
+export function findDuplicates(existing: LabelData[], incoming: LabelData[]): DuplicateGroup[] {
+  const groups = new Map<string, DuplicateGroup>();
+  const add = (label: LabelData, side: "existing" | "incoming") => {
+    const key = labelKey(label);
+    const group = groups.get(key) ?? { key, code: label.code, existing: [], incoming: [], descriptions: [] };
+    group[side].push(label);
+    if (!group.descriptions.includes(label.description)) group.descriptions.push(label.description);
+    groups.set(key, group);
+  };
+  existing.forEach(label => add(label, "existing"));
+  incoming.forEach(label => add(label, "incoming"));
+  return [...groups.values()].filter(
+    group => group.incoming.length > 0 && group.existing.length + group.incoming.length > 1
+  );
+}
+
+const PRICE_KEYS: PriceField[] = ["price", "unit", "unitPrice", "promoPrice", "promoUntil"];
+
+/**
+ * Suma `incoming` a `existing` según la política. Al combinar, la etiqueta que
+ * queda es la primera con ese código y conserva su posición en la lista; los
+ * repetidos que ya estaban separados en `existing` no se tocan. Al reemplazar,
+ * quedan todos los datos de la que llega (GTIN, vencimiento, numeración,
+ * simbología...) en el lugar y con el id de la anterior; sólo la descripción
+ * sigue la política.
+ * Para consolidar una lista entera se pasa como `incoming` con `existing` vacío:
+ * entonces "existing" es la primera aparición y "incoming" la última.
+ */
+export function applyDuplicatePolicy(
+  existing: LabelData[],
+  incoming: LabelData[],
+  policy: DuplicatePolicy
+): LabelData[] {
+  if (policy.action === "separate") return [...existing, ...incoming];
+
+  const result = [...existing];
+  const positions = new Map<string, number>();
+  result.forEach((label, index) => {
+    const key = labelKey(label);
+    if (!positions.has(key)) positions.set(key, index);
+  });
+
+  incoming.forEach(label => {
+    const key = labelKey(label);
+    const position = positions.get(key);
+    if (position === undefined) {
+      positions.set(key, result.length);
+      result.push(label);
+      return;
+    }
+    const target = result[position];
+    const description = policy.overrides?.[key]
+      ?? (policy.description === "existing" ? target.description : label.description);
+    // El corte manual sigue a la descripción que gana.
+    const lineBreak = description === target.description ? target.lineBreak
+      : description === label.description ? label.lineBreak : undefined;
+    if (policy.action === "replace") {
+      result[position] = { ...label, id: target.id, description, lineBreak };
+      return;
+    }
+    // Los precios que llegan reemplazan a los anteriores: son los más recientes.
+    const prices = Object.fromEntries(
+      PRICE_KEYS.filter(field => label[field] !== undefined).map(field => [field, label[field]])
+    );
+    result[position] = { ...target, ...prices, description, quantity: target.quantity + label.quantity, lineBreak };
+  });
+  return result;
+}
@@ -0,0 +1,185 @@
+import { FieldValues, OutputEncoding, OutputOptions } from "../types";
+import { removeDiacritics, sanitizeString } from "./text";
+
+/** Caracteres Unicode de Windows-1252 en el rango 0x80-0x9F (0 = sin asignar). */
+const CP1252_HIGH = [
+  0x20ac, 0, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0, 0x017d, 0,
+  0, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0, 0x017e, 0x0178,
+];
+
+/** Caracteres Unicode de la página de códigos 850 (DOS Latin-1) en el rango 0x80-0xFF. */
+const CP850_HIGH = [
+  0x00c7, 0x00fc, 0x00e9, 0x00e2, 0x00e4, 0x00e0, 0x00e5, 0x00e7, 0x00ea, 0x00eb, 0x00e8, 0x00ef, 0x00ee, 0x00ec, 0x00c4, 0x00c5,
+  0x00c9, 0x00e6, 0x00c6, 0x00f4, 0x00f6, 0x00f2, 0x00fb, 0x00f9, 0x00ff, 0x00d6, 0x00dc, 0x00f8, 0x00a3, 0x00d8, 0x00d7, 0x0192,
+  0x00e1, 0x00ed, 0x00f3, 0x00fa, 0x00f1, 0x00d1, 0x00aa, 0x00ba, 0x00bf, 0x00ae, 0x00ac, 0x00bd, 0x00bc, 0x00a1, 0x00ab, 0x00bb,
+  0x2591, 0x2592, 0x2593, 0x2502, 0x2524, 0x00c1, 0x00c2, 0x00c0, 0x00a9, 0x2563, 0x2551, 0x2557, 0x255d, 0x00a2, 0x00a5, 0x2510,
+  0x2514, 0x2534, 0x252c, 0x251c, 0x2500, 0x253c, 0x00e3, 0x00c3, 0x255a, 0x2554, 0x2569, 0x2566, 0x2560, 0x2550, 0x256c, 0x00a4,
+  0x00f0, 0x00d0, 0x00ca, 0x00cb, 0x00c8, 0x0131, 0x00cd, 0x00ce, 0x00cf, 0x2518, 0x250c, 0x2588, 0x2584, 0x00a6, 0x00cc, 0x2580,
+  0x00d3, 0x00df, 0x00d4, 0x00d2, 0x00f5, 0x00d5, 0x00b5, 0x00fe, 0x00de, 0x00da, 0x00db, 0x00d9, 0x00fd, 0x00dd, 0x00af, 0x00b4,
+  0x00ad, 0x00b1, 0x2017, 0x00be, 0x00b6, 0x00a7, 0x00f7, 0x00b8, 0x00b0, 0x00a8, 0x00b7, 0x00b9, 0x00b3, 0x00b2, 0x25a0, 0x00a0,
+];
+
+/** Nombres para mostrar de las codificaciones, en el orden del selector. */
+export const ENCODING_LABELS: Record<OutputEncoding, string> = {
+  cp850: "CP850 (DOS Latin-1)",
+  "windows-1252": "CP1252 (Windows)",
+  "iso-8859-1": "ISO-8859-1",
+  ascii: "ASCII",
+  "utf-8": "UTF-8",
+};
+
+/** Byte usado para los caracteres que la codificación no puede representar. */
+const SUBSTITUTE = "?";
+
+/**
+ * Equivalentes de texto para caracteres frecuentes en descripciones que no
+ * todas las páginas de códigos incluyen.
+ */
+const TRANSLITERATIONS: Record<string, string> = {
+  "½": "1/2",
+  "¼": "1/4",
+  "¾": "3/4",
+  "º": "o",
+  "ª": "a",
+  "°": "o",
+  "€": "EUR",
+  "“": '"',
+  "”": '"',
+  "„": '"',
+  "«": '"',
+  "»": '"',
+  "‘": "'",
+  "’": "'",
+  "‚": "'",
+  "´": "'",
+  "–": "-",
+  "—": "-",
+  "…": "...",
+  "•": "*",
+  "×": "x",
+  " ": " ",
+};
+
+// Byte de un carácter en una codificación de un byte, o null si no existe.
+function singleByte(codePoint: number, encoding: Exclude<OutputEncoding, "utf-8">): number | null {
+  if (codePoint < 0x80) return codePoint;
+  switch (encoding) {
+    case "ascii":
+      return null;
+    case "iso-8859-1":
+      return codePoint <= 0xff ? codePoint : null;
+    case "cp850": {
+      const index = CP850_HIGH.indexOf(codePoint);
+      return index >= 0 ? 0x80 + index : null;
+    }
+    case "windows-1252": {
+      const high = CP1252_HIGH.indexOf(codePoint);
+      if (high >= 0) return 0x80 + high;
+      return codePoint >= 0xa0 && codePoint <= 0xff ? codePoint : null;
+    }
+  }
+}
+
+/** Indica si la codificación puede representar el carácter. */
+export const canEncode = (ch: string, encoding: OutputEncoding): boolean =>
+  encoding === "utf-8" || singleByte(ch.codePointAt(0)!, encoding) !== null;
+
+/**
+ * Reemplazo de un carácter que la codificación no tiene: primero la tabla de
+ * equivalentes y luego la letra base sin acentos (Ñ → N). Si tampoco se puede
+ * representar, se usa "?".
+ */
+function transliterate(ch: string, encoding: OutputEncoding): string {
+  const mapped = TRANSLITERATIONS[ch];
+  if (mapped !== undefined && [...mapped].every((c) => canEncode(c, encoding))) return mapped;
+  const base = removeDiacritics(ch);
+  if (base && base !== ch && [...base].every((c) => canEncode(c, encoding))) return base;
+  return SUBSTITUTE;
+}
+
+/** Carácter que se reemplazará al imprimir. */
+export interface Substitution {
+  original: string;
+  replacement: string;
+}
+
+/**
+ * Prepara un texto para la página de códigos de la impresora: limpia los
+ * caracteres invisibles, normaliza a NFC y reemplaza lo que no se puede
+ * representar (transliterando o con "?"). Devuelve también la lista de
+ * sustituciones, sin repetir.
+ */
+export function prepareText(
+  text: string,
+  encoding: OutputEncoding,
+  useTransliteration: boolean = true
+): { text: string; substitutions: Substitution[] } {
+  const substitutions: Substitution[] = [];
+  let result = "";
+  for (const ch of sanitizeString(text).normalize("NFC")) {
+    if (canEncode(ch, encoding)) {
+      result += ch;
+      continue;
+    }
+    const replacement = useTransliteration ? transliterate(ch, encoding) : SUBSTITUTE;
+    result += replacement;
+    if (!substitutions.some((s) => s.original === ch)) {
+      substitutions.push({ original: ch, replacement });
+    }
+  }
+  return { text: result, substitutions };
+}
+
+/** Avisos legibles para mostrar junto a una etiqueta. */
+export const substitutionWarnings = (substitutions: Substitution[]): string[] =>
+  substitutions.map(({ original, replacement }) => `"${original}" se imprimirá como "${replacement}".`);
+
+/**
+ * Codifica un texto en bytes. El texto debe pasar antes por prepareText; lo
+ * que aún no se pueda representar se escribe como "?".
+ */
+export function encodeText(text: string, encoding: OutputEncoding): Uint8Array {
+  if (encoding === "utf-8") return new TextEncoder().encode(text);
+  const bytes = new Uint8Array(text.length);
+  let length = 0;
+  for (const ch of text) {
+    bytes[length++] = singleByte(ch.codePointAt(0)!, encoding) ?? SUBSTITUTE.charCodeAt(0);
+  }
+  return bytes.slice(0, length);
+}
+
+/**
+ * Decodifica bytes de la página de códigos dada; inversa de encodeText. En
+ * ASCII los bytes fuera de rango se leen como "?".
+ */
+export function decodeText(bytes: Uint8Array, encoding: OutputEncoding): string {
+  if (encoding === "utf-8") return new TextDecoder("utf-8").decode(bytes);
+  let text = "";
+  for (const byte of bytes) {
+    if (byte < 0x80) text += String.fromCharCode(byte);
+    else if (encoding === "cp850") text += String.fromCharCode(CP850_HIGH[byte - 0x80]);
+    else if (encoding === "windows-1252" && byte < 0xa0) text += String.fromCharCode(CP1252_HIGH[byte - 0x80] || byte);
+    else text += encoding === "ascii" ? SUBSTITUTE : String.fromCharCode(byte);
+  }
+  return text;
+}
+
+/**
+ * Aplica prepareText a todos los campos de una etiqueta, tal como se
+ * imprimirán, y junta las sustituciones de todos ellos.
+ */
+export function prepareValues(
+  values: FieldValues,
+  options: Pick<OutputOptions, "encoding" | "transliterate">
+): { values: FieldValues; substitutions: Substitution[] } {
+  const substitutions: Substitution[] = [];
+  const prepared = { ...values };
+  (Object.keys(values) as (keyof FieldValues)[]).forEach((key) => {
+    const result = prepareText(values[key], options.encoding, options.transliterate);
+    prepared[key] = result.text;
+    result.substitutions
+      .filter((s) => !substitutions.some((existing) => existing.original === s.original))
+      .forEach((s) => substitutions.push(s));
+  });
+  return { values: prepared, substitutions };
+}
@@ -0,0 +1,17 @@
+import { OutputEncoding } from "../types";
+import { decodeText } from "./encoding";
+
+/**
+ * Lee un archivo de texto. Prueba primero UTF-8 y, si el contenido no es
+ * válido, lo decodifica con `fallback`: Windows-1252 (habitual en los spool
+ * de SAP y en los CSV de Excel) o la página de códigos de la impresora para
+ * los archivos que generó esta aplicación.
+ */
+export async function readTextFile(file: File, fallback: OutputEncoding = "windows-1252"): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return decodeText(new Uint8Array(buffer), fallback);
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { gs1BarcodeData, gs1ElementString, gs1Issues, labelGs1Elements, parseGs1, traceWarnings } from "./gs1";
+import { parseDate } from "./dates";
+
+describe("parseGs1", () => {
+  it("lee la forma con paréntesis y la cadena continua", () => {
+    const elements = [{ ai: "01", value: "07791234567898" }, { ai: "10", value: "L123" }];
+    expect(parseGs1("(01)07791234567898(10)L123")).toEqual(elements);
+    expect(parseGs1("010779123456789810L123")).toEqual(elements);
+    expect(parseGs1("99ABC")).toBeNull();
+  });
+});
+
+describe("cadena GS1-128", () => {
+  it("deja los AI de largo variable al final para no necesitar FNC1", () => {
+    const elements = [{ ai: "10", value: "L123" }, { ai: "01", value: "07791234567898" }, { ai: "17", value: "261231" }];
+    expect(gs1ElementString(elements)).toBe("(01)07791234567898(17)261231(10)L123");
+    expect(gs1BarcodeData("(10)L123(01)07791234567898")).toBe("010779123456789810L123");
+  });
+
+  it("arma los elementos de una etiqueta con GTIN, vencimiento y lote", () => {
+    expect(labelGs1Elements({ code: "7791234567898", lot: "L7", expiry: "2026-12-31" })).toEqual([
+      { ai: "01", value: "07791234567898" },
+      { ai: "17", value: "261231" },
+      { ai: "10", value: "L7" },
+    ]);
+    expect(labelGs1Elements({ code: "A1" })).toEqual([]);
+  });
+});
+
+describe("gs1Issues", () => {
+  it("controla largos, dígito de control, fechas y un solo AI variable", () => {
+    expect(gs1Issues("(01)07791234567890")).toEqual(["(01) Dígito de control incorrecto: debería ser 8."]);
+    expect(gs1Issues("(17)261331")).toEqual(["(17) Vencimiento: fecha no válida."]);
+    expect(gs1Issues("(10)A(21)B")).toEqual(["Sólo se admite un AI de largo variable (lote o serie) por código."]);
+    expect(gs1Issues("(01)0779")).toEqual(["(01) GTIN requiere 14 caracteres; tiene 4."]);
+  });
+});
+
+describe("traceWarnings", () => {
+  it("avisa un GTIN mal formado y la mercadería vencida", () => {
+    expect(traceWarnings({ code: "A1", gtin: "123", expiry: "2026-10-01" }, "2026-10-19")).toEqual([
+      "El GTIN debe tener 8, 12, 13 o 14 dígitos.",
+      "Producto vencido el 01/10/2026.",
+    ]);
+  });
+});
+
+describe("parseDate", () => {
+  it("acepta fechas locales, ISO y las de Excel mes/día", () => {
+    expect(parseDate("31/10/2026")).toBe("2026-10-31");
+    expect(parseDate("31-10-26")).toBe("2026-10-31");
+    expect(parseDate("10/31/26")).toBe("2026-10-31");
+    expect(parseDate("2026-02-30")).toBeNull();
+  });
+});
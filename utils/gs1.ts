@@ -0,0 +1,169 @@
+import { LabelData } from "../types";
+import { gtinCheckDigit } from "./barcode";
+import { formatDate, todayIso } from "./dates";
+
+/** Identificador de aplicación (AI) GS1 y el dato que lo acompaña. */
+export interface Gs1Element {
+  ai: string;
+  value: string;
+}
+
+interface AiSpec {
+  name: string;
+  /** Largo fijo del dato; sin él el dato es variable hasta `maxLength`. */
+  length?: number;
+  maxLength?: number;
+  numeric?: boolean;
+  date?: boolean;
+}
+
+/** AIs admitidos: los de trazabilidad de producto y algunos habituales. */
+const AI_SPECS: Record<string, AiSpec> = {
+  "00": { name: "SSCC", length: 18, numeric: true },
+  "01": { name: "GTIN", length: 14, numeric: true },
+  "02": { name: "GTIN contenido", length: 14, numeric: true },
+  "10": { name: "Lote", maxLength: 20 },
+  "11": { name: "Fecha de producción", length: 6, numeric: true, date: true },
+  "13": { name: "Fecha de envasado", length: 6, numeric: true, date: true },
+  "15": { name: "Consumir preferentemente antes de", length: 6, numeric: true, date: true },
+  "17": { name: "Vencimiento", length: 6, numeric: true, date: true },
+  "21": { name: "Número de serie", maxLength: 20 },
+  "37": { name: "Cantidad", maxLength: 8, numeric: true },
+};
+
+/** Caracteres del juego GS1 AI encodable character set 82. */
+const GS1_CHARSET = /^[A-Za-z0-9!"%&'()*+,\-./:;<=>?_]*$/;
+
+/**
+ * Separa una cadena GS1 en sus elementos. Acepta la forma legible con los AI
+ * entre paréntesis ("(01)07790001000011(10)L123") o la cadena continua, que
+ * se lee con los largos fijos de cada AI. Devuelve null si no se puede leer.
+ */
+export function parseGs1(text: string): Gs1Element[] | null {
+  const value = text.trim();
+  if (!value) return null;
+  if (value.startsWith("(")) {
+    const elements: Gs1Element[] = [];
+    const pattern = /\((\d{2,4})\)([^(]*)/g;
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(value)) !== null) {
+      elements.push({ ai: match[1], value: match[2] });
+      consumed += match[0].length;
+    }
+    return consumed === value.length && elements.length > 0 ? elements : null;
+  }
+  const elements: Gs1Element[] = [];
+  let rest = value;
+  while (rest) {
+    const ai = rest.slice(0, 2);
+    const spec = AI_SPECS[ai];
+    if (!spec) return null;
+    const length = spec.length ?? rest.length - 2;
+    if (rest.length < 2 + length) return null;
+    elements.push({ ai, value: rest.slice(2, 2 + length) });
+    rest = rest.slice(2 + length);
+  }
+  return elements;
+}
+
+/**
+ * Ordena los elementos con los de largo variable al final. Así ningún dato
+ * variable queda en medio y la cadena no necesita separadores FNC1.
+ */
+const sortElements = (elements: Gs1Element[]): Gs1Element[] =>
+  [...elements].sort((a, b) => Number(!AI_SPECS[a.ai]?.length) - Number(!AI_SPECS[b.ai]?.length));
+
+/** Cadena con los AI entre paréntesis: "(01)07790001000011(17)261231(10)L123". */
+export const gs1ElementString = (elements: Gs1Element[]): string =>
+  sortElements(elements).map(({ ai, value }) => `(${ai})${value}`).join("");
+
+/** Línea legible bajo el código: "(01) 07790001000011 (17) 261231 (10) L123". */
+export const gs1HumanReadable = (elements: Gs1Element[]): string =>
+  sortElements(elements).map(({ ai, value }) => `(${ai}) ${value}`).join(" ");
+
+/** Datos que se envían a la impresora: la cadena continua, sin paréntesis. */
+export const gs1BarcodeData = (text: string): string => {
+  const elements = parseGs1(text);
+  return elements ? sortElements(elements).map(({ ai, value }) => `${ai}${value}`).join("") : text;
+};
+
+// AAMMDD válido; GS1 admite día 00 para indicar el mes completo.
+const isGs1Date = (value: string): boolean => {
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  return month >= 1 && month <= 12 && day <= 31;
+};
+
+/** Motivos por los que una cadena GS1 no se puede codificar en GS1-128. */
+export function gs1Issues(text: string): string[] {
+  const elements = parseGs1(text);
+  if (!elements) return ["GS1-128 requiere AI entre paréntesis, p. ej. (01)07790001000011(10)L123."];
+  const issues: string[] = [];
+  elements.forEach(({ ai, value }) => {
+    const spec = AI_SPECS[ai];
+    if (!spec) {
+      issues.push(`AI (${ai}) no admitido.`);
+      return;
+    }
+    if (spec.length !== undefined && value.length !== spec.length) {
+      issues.push(`(${ai}) ${spec.name} requiere ${spec.length} caracteres; tiene ${value.length}.`);
+    } else if (spec.maxLength !== undefined && (value.length === 0 || value.length > spec.maxLength)) {
+      issues.push(`(${ai}) ${spec.name} admite de 1 a ${spec.maxLength} caracteres; tiene ${value.length}.`);
+    }
+    if (spec.numeric && !/^\d*$/.test(value)) issues.push(`(${ai}) ${spec.name} sólo admite dígitos.`);
+    if (!spec.numeric && !GS1_CHARSET.test(value)) issues.push(`(${ai}) ${spec.name} tiene caracteres no admitidos por GS1.`);
+    if (ai === "01" && /^\d{14}$/.test(value) && gtinCheckDigit(value.slice(0, -1)) !== Number(value[13])) {
+      issues.push(`(01) Dígito de control incorrecto: debería ser ${gtinCheckDigit(value.slice(0, -1))}.`);
+    }
+    if (spec.date && /^\d{6}$/.test(value) && !isGs1Date(value)) issues.push(`(${ai}) ${spec.name}: fecha no válida.`);
+  });
+  if (elements.filter(({ ai }) => AI_SPECS[ai] && !AI_SPECS[ai].length).length > 1) {
+    issues.push("Sólo se admite un AI de largo variable (lote o serie) por código.");
+  }
+  return issues;
+}
+
+/**
+ * GTIN-14 de la etiqueta: el campo GTIN o, si no lo tiene, el código cuando
+ * es un EAN/UPC/GTIN numérico. Se completa con ceros a la izquierda.
+ */
+export function labelGtin(label: Pick<LabelData, "code" | "gtin">): string | undefined {
+  const source = (label.gtin ?? label.code).trim();
+  if (!/^(\d{8}|\d{12,14})$/.test(source)) return undefined;
+  return source.padStart(14, "0");
+}
+
+/** "2026-12-31" → "261231", como lo pide el AI (17). */
+export const gs1Date = (iso: string): string => iso.slice(2).replace(/-/g, "");
+
+/** Elementos (01), (17) y (10) de una etiqueta; vacío si no tiene GTIN. */
+export function labelGs1Elements(label: Pick<LabelData, "code" | "gtin" | "lot" | "expiry">): Gs1Element[] {
+  const gtin = labelGtin(label);
+  if (!gtin) return [];
+  const elements: Gs1Element[] = [{ ai: "01", value: gtin }];
+  if (label.expiry) elements.push({ ai: "17", value: gs1Date(label.expiry) });
+  if (label.lot) elements.push({ ai: "10", value: label.lot });
+  return elements;
+}
+
+/**
+ * Avisos de trazabilidad de una etiqueta: GTIN o lote que no se pueden
+ * codificar y mercadería ya vencida.
+ */
+export function traceWarnings(
+  label: Pick<LabelData, "code" | "gtin" | "lot" | "expiry">,
+  today: string = todayIso()
+): string[] {
+  const warnings: string[] = [];
+  if (label.gtin !== undefined && !labelGtin(label)) {
+    warnings.push("El GTIN debe tener 8, 12, 13 o 14 dígitos.");
+  } else if (label.gtin !== undefined) {
+    warnings.push(...gs1Issues(`(01)${labelGtin(label)}`));
+  }
+  if (label.lot !== undefined) {
+    warnings.push(...gs1Issues(`(10)${label.lot}`).map((issue) => issue.replace("(10) Lote", "Lote")));
+  }
+  if (label.expiry && label.expiry < today) warnings.push(`Producto vencido el ${formatDate(label.expiry)}.`);
+  return warnings;
+}
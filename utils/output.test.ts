@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_OUTPUT_OPTIONS, renderOutput } from "./output";
+import { encodeText, prepareText } from "./encoding";
+
+const text = (bytes: Uint8Array) => new TextDecoder("latin1").decode(bytes);
+
+describe("renderOutput", () => {
+  it("con tokens deja el texto tal cual en CP850 y CRLF", () => {
+    expect(text(renderOutput("<STX>E1<ETX>\r\n", DEFAULT_OUTPUT_OPTIONS))).toBe("<STX>E1<ETX>\r\n");
+  });
+
+  it("reemplaza los tokens por bytes sin tocar el <LF> de los campos", () => {
+    const bytes = renderOutput('<STX><ESC>F"TX3"<LF>Hola<ETX>\r\n', { ...DEFAULT_OUTPUT_OPTIONS, controlChars: "bytes", lineEnding: "lf" });
+    expect(text(bytes)).toBe('\x02\x1BF"TX3"\x0AHola\x03\n');
+  });
+
+  it("codifica los acentos según la página de códigos", () => {
+    expect([...renderOutput("ñÑ", DEFAULT_OUTPUT_OPTIONS)]).toEqual([0xa4, 0xa5]);
+    expect([...renderOutput("ñÑ", { ...DEFAULT_OUTPUT_OPTIONS, encoding: "windows-1252" })]).toEqual([0xf1, 0xd1]);
+    expect([...renderOutput("ñ", { ...DEFAULT_OUTPUT_OPTIONS, encoding: "utf-8" })]).toEqual([0xc3, 0xb1]);
+  });
+});
+
+describe("prepareText", () => {
+  it("translitera lo que la página de códigos no tiene", () => {
+    expect(prepareText("Caño ½ “x”", "ascii")).toEqual({
+      text: 'Cano 1/2 "x"',
+      substitutions: [
+        { original: "ñ", replacement: "n" },
+        { original: "½", replacement: "1/2" },
+        { original: "“", replacement: '"' },
+        { original: "”", replacement: '"' },
+      ],
+    });
+  });
+
+  it("sin transliterar usa ?", () => {
+    expect(prepareText("Caño", "ascii", false).text).toBe("Ca?o");
+  });
+
+  it("quita los caracteres invisibles", () => {
+    expect(prepareText("A\u200BB\uFEFF", "cp850").text).toBe("AB");
+  });
+});
+
+describe("encodeText", () => {
+  it("escribe ? para lo que no se puede representar", () => {
+    expect(text(encodeText("a☃b", "cp850"))).toBe("a?b");
+  });
+});
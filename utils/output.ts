@@ -0,0 +1,42 @@
+import { LineEnding, OutputOptions } from "../types";
+import { encodeText, prepareText } from "./encoding";
+
+/** Bytes reales de cada token de control que usan los generadores. */
+const CONTROL_BYTES: Record<string, string> = {
+  STX: "\x02",
+  ETX: "\x03",
+  ESC: "\x1B",
+  LF: "\x0A",
+  US: "\x1F",
+  ETB: "\x17",
+  CAN: "\x18",
+  SI: "\x0F",
+};
+
+const LINE_ENDINGS: Record<LineEnding, string> = {
+  crlf: "\r\n",
+  lf: "\n",
+  cr: "\r",
+};
+
+export const DEFAULT_OUTPUT_OPTIONS: OutputOptions = {
+  controlChars: "tokens",
+  lineEnding: "crlf",
+  encoding: "cp850",
+  transliterate: true,
+  lintPolicy: "block",
+};
+
+/**
+ * Convierte el programa generado (con tokens "<STX>" y saltos CRLF) en los
+ * bytes del archivo final. El fin de línea se cambia antes de reemplazar los
+ * tokens para no tocar el <LF> que separa el nombre del campo de sus datos, y
+ * el texto se adapta a la página de códigos antes de codificarlo.
+ */
+export function renderOutput(content: string, options: OutputOptions): Uint8Array {
+  let text = content.replace(/\r\n/g, LINE_ENDINGS[options.lineEnding]);
+  if (options.controlChars === "bytes") {
+    text = text.replace(/<(STX|ETX|ESC|LF|US|ETB|CAN|SI)>/g, (_, token: string) => CONTROL_BYTES[token]);
+  }
+  return encodeText(prepareText(text, options.encoding, options.transliterate).text, options.encoding);
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { formatPrice, parsePrice, parseUnit, promoWarnings } from "./price";
+
+describe("formatPrice", () => {
+  it("agrupa los miles y usa la coma decimal por defecto", () => {
+    expect(formatPrice(1234.5)).toBe("$ 1.234,50");
+    expect(formatPrice(-3)).toBe("-$ 3,00");
+  });
+
+  it("respeta el formato de la plantilla", () => {
+    expect(formatPrice(1234567, { symbol: "", thousands: ",", decimal: ".", decimals: 0 })).toBe("1,234,567");
+  });
+});
+
+describe("parsePrice", () => {
+  it.each([
+    ["$ 1.234,50", 1234.5],
+    ["1,234.50", 1234.5],
+    ["1234.50", 1234.5],
+    ["12,5", 12.5],
+    ["1.234", 1234],
+    ["1,234,567", 1234567],
+    ["-10", -10],
+  ])("lee %s", (text, value) => {
+    expect(parsePrice(text)).toBe(value);
+  });
+
+  it("devuelve null si no es un número", () => {
+    expect(parsePrice("consultar")).toBeNull();
+    expect(parsePrice("1.2.3,4,5")).toBeNull();
+  });
+});
+
+describe("parseUnit", () => {
+  it("reconoce nombres y abreviaturas", () => {
+    expect(parseUnit("Kilo")).toBe("kg");
+    expect(parseUnit("lts")).toBe("L");
+    expect(parseUnit("c/u")).toBe("unidad");
+    expect(parseUnit("docena")).toBeNull();
+  });
+});
+
+describe("promoWarnings", () => {
+  it("avisa si la oferta ya terminó", () => {
+    expect(promoWarnings({ promoPrice: 90, promoUntil: "2026-10-18" }, "2026-10-19")).toEqual(["La oferta venció el 18/10/2026."]);
+    expect(promoWarnings({ promoPrice: 90, promoUntil: "2026-10-19" }, "2026-10-19")).toEqual([]);
+  });
+});
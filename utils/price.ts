@@ -0,0 +1,59 @@
+import { CurrencyFormat, LabelData, PriceUnit } from "../types";
+import { formatDate, todayIso } from "./dates";
+import { removeDiacritics } from "./text";
+
+/** Formato por defecto: "$ 1.234,50". */
+export const DEFAULT_CURRENCY: CurrencyFormat = { symbol: "$", thousands: ".", decimal: ",", decimals: 2 };
+
+export const PRICE_UNITS: PriceUnit[] = ["kg", "L", "unidad"];
+
+/** Formatea un importe con el símbolo adelante, p. ej. "$ 1.234,50". */
+export function formatPrice(value: number, currency: CurrencyFormat = DEFAULT_CURRENCY): string {
+  const [integer, fraction] = Math.abs(value).toFixed(currency.decimals).split(".");
+  const grouped = integer.replace(/\B(?=(\d{3})+(?!\d))/g, currency.thousands);
+  const amount = fraction ? `${grouped}${currency.decimal}${fraction}` : grouped;
+  const sign = value < 0 ? "-" : "";
+  return currency.symbol ? `${sign}${currency.symbol} ${amount}` : `${sign}${amount}`;
+}
+
+/**
+ * Lee un importe escrito con cualquier convención ("$ 1.234,50", "1234.50",
+ * "1,234.50"). Con un solo tipo de separador, la coma es decimal y el punto
+ * también salvo que separe grupos de tres ("1.234"). Devuelve null si no es
+ * un número.
+ */
+export function parsePrice(text: string): number | null {
+  const match = text.trim().match(/^[^\d-]*(-?[\d.,]+)[^\d]*$/);
+  if (!match) return null;
+  const number = match[1];
+  const lastComma = number.lastIndexOf(",");
+  const lastDot = number.lastIndexOf(".");
+  let normalized: string;
+  if (lastComma >= 0 && lastDot >= 0) {
+    const [thousands, decimal] = lastComma > lastDot ? [".", ","] : [",", "."];
+    normalized = number.split(thousands).join("").replace(decimal, ".");
+  } else if (lastComma >= 0) {
+    normalized = /^-?\d{1,3}(,\d{3}){2,}$/.test(number) ? number.replace(/,/g, "") : number.replace(",", ".");
+  } else {
+    normalized = /^-?\d{1,3}(\.\d{3})+$/.test(number) ? number.replace(/\./g, "") : number;
+  }
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : null;
+}
+
+const UNIT_ALIASES: Record<PriceUnit, string[]> = {
+  kg: ["kg", "kgs", "k", "kilo", "kilos", "kilogramo", "kilogramos"],
+  L: ["l", "lt", "lts", "litro", "litros"],
+  unidad: ["u", "un", "und", "unid", "unidad", "unidades", "c u"],
+};
+
+/** Unidad de medida a partir de su nombre o abreviatura ("Kilo", "lts", "c/u"). */
+export function parseUnit(text: string): PriceUnit | null {
+  const normalized = removeDiacritics(text).toLowerCase().replace(/[^a-z]+/g, " ").trim();
+  return PRICE_UNITS.find((unit) => UNIT_ALIASES[unit].includes(normalized)) ?? null;
+}
+
+/** Aviso si la oferta de la etiqueta ya terminó. */
+export function promoWarnings(label: Pick<LabelData, "promoPrice" | "promoUntil">, today: string = todayIso()): string[] {
+  if (label.promoPrice === undefined || !label.promoUntil || label.promoUntil >= today) return [];
+  return [`La oferta venció el ${formatDate(label.promoUntil)}.`];
+}
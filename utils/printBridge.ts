@@ -0,0 +1,57 @@
+import { PrintBridgeSettings, PrintJob, PrintJobStatus } from "../types";
+
+export const PRINT_BRIDGE_KEY = "etiquetas.printBridge";
+
+export const DEFAULT_PRINT_BRIDGE: PrintBridgeSettings = {
+  url: "http://localhost:9110",
+  printerId: "",
+};
+
+export const JOB_STATUS_LABELS: Record<PrintJobStatus, string> = {
+  queued: "En cola",
+  sending: "Enviando",
+  done: "Impreso",
+  failed: "Falló",
+  cancelled: "Cancelado",
+};
+
+/** Dirección del WebSocket del puente a partir de su dirección HTTP. */
+export function bridgeSocketUrl(url: string): string {
+  return `${url.replace(/\/+$/, "").replace(/^http/, "ws")}/ws`;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Llama al puente y devuelve el trabajo de la respuesta. Los errores del
+ * puente y la falta de conexión se informan con un mensaje para el usuario.
+ */
+async function request(url: string, path: string, body?: unknown): Promise<PrintJob> {
+  let response: Response;
+  try {
+    response = await fetch(`${url.replace(/\/+$/, "")}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body ?? {}),
+    });
+  } catch {
+    throw new Error(`No se pudo conectar con el puente de impresión en ${url}. Inícielo con "npm run bridge".`);
+  }
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(result.error ?? `El puente respondió con el código ${response.status}.`);
+  return result.job as PrintJob;
+}
+
+/** Envía el archivo generado a la cola de una impresora del puente. */
+export const submitPrintJob = (url: string, printerId: string, name: string, bytes: Uint8Array) =>
+  request(url, "/jobs", { printerId, name, data: toBase64(bytes) });
+
+export const retryPrintJob = (url: string, id: string) => request(url, `/jobs/${encodeURIComponent(id)}/retry`);
+
+export const cancelPrintJob = (url: string, id: string) => request(url, `/jobs/${encodeURIComponent(id)}/cancel`);
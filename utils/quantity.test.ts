@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { clampQuantity, computeQuantity } from "./quantity";
+
+describe("computeQuantity", () => {
+  it("redondea hacia arriba los bultos incompletos", () => {
+    expect(computeQuantity({ kind: "packs" }, { units: 125, packSize: 12 })).toEqual({ quantity: 11, detail: "125 ÷ 12 = 11" });
+  });
+
+  it("cuenta una etiqueta por pallet y por caja", () => {
+    expect(computeQuantity({ kind: "palletsBoxes" }, { pallets: 2, boxes: 3 })?.quantity).toBe(5);
+    expect(computeQuantity({ kind: "palletsBoxes" }, { boxes: 4 })?.quantity).toBe(4);
+  });
+
+  it("devuelve siempre un entero aunque los datos guardados tengan decimales", () => {
+    expect(computeQuantity({ kind: "palletsBoxes" }, { pallets: 1.5, boxes: 2.2 })?.quantity).toBe(5);
+    expect(computeQuantity({ kind: "packs", min: 2.5, max: 9.5 }, { units: 1, packSize: 12 })?.quantity).toBe(3);
+  });
+
+  it("aplica el mínimo y el máximo y lo indica en el detalle", () => {
+    expect(computeQuantity({ kind: "packs", max: 5 }, { units: 120, packSize: 12 })).toEqual({
+      quantity: 5,
+      detail: "120 ÷ 12 = 10 → máximo 5",
+    });
+  });
+
+  it("devuelve null sin datos suficientes o con la regla de la columna", () => {
+    expect(computeQuantity({ kind: "packs" }, { units: 10, packSize: 0 })).toBeNull();
+    expect(computeQuantity({ kind: "palletsBoxes" }, {})).toBeNull();
+    expect(computeQuantity({ kind: "column" }, { units: 10 })).toBeNull();
+  });
+});
+
+describe("clampQuantity", () => {
+  it("redondea los límites hacia adentro", () => {
+    expect(clampQuantity({ kind: "column", min: 1.2 }, 0)).toBe(2);
+    expect(clampQuantity({ kind: "column", max: 3.8 }, 10)).toBe(3);
+  });
+});
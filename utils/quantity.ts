@@ -0,0 +1,81 @@
+import { CountField, LabelData, QuantityRule, QuantityRuleKind } from "../types";
+
+export const QUANTITY_RULE_LABELS: Record<QuantityRuleKind, string> = {
+  column: "Cantidad indicada",
+  packs: "Unidades ÷ unidades por bulto",
+  palletsBoxes: "Una por pallet y una por caja",
+};
+
+/** Datos que necesita cada regla. */
+export const RULE_FIELDS: Record<QuantityRuleKind, CountField[]> = {
+  column: [],
+  packs: ["units", "packSize"],
+  palletsBoxes: ["pallets", "boxes"],
+};
+
+export const DEFAULT_QUANTITY_RULE: QuantityRule = { kind: "column" };
+
+/** Cantidad calculada y cómo se llegó a ella, p. ej. "120 ÷ 12 = 10". */
+export interface QuantityComputation {
+  quantity: number;
+  detail: string;
+}
+
+/**
+ * Aplica el mínimo y el máximo de la regla. Los límites se redondean hacia
+ * adentro para que el resultado siga siendo una cantidad entera.
+ */
+export function clampQuantity(rule: QuantityRule, quantity: number): number {
+  let value = quantity;
+  if (rule.min !== undefined) value = Math.max(Math.ceil(rule.min), value);
+  if (rule.max !== undefined) value = Math.min(Math.floor(rule.max), value);
+  return value;
+}
+
+// Límite aplicado al resultado, para mostrarlo junto al cálculo.
+function limitDetail(raw: number, quantity: number): string {
+  if (quantity === raw) return "";
+  return quantity > raw ? ` → mínimo ${quantity}` : ` → máximo ${quantity}`;
+}
+
+/** Datos de la regla que faltan para calcular la cantidad. */
+export function missingCounts(rule: QuantityRule, counts: LabelData["counts"] = {}): CountField[] {
+  switch (rule.kind) {
+    case "column":
+      return [];
+    case "packs":
+      return RULE_FIELDS.packs.filter((field) => counts[field] === undefined || (field === "packSize" && counts[field] === 0));
+    case "palletsBoxes":
+      return counts.pallets === undefined && counts.boxes === undefined ? RULE_FIELDS.palletsBoxes : [];
+  }
+}
+
+/**
+ * Cantidad de etiquetas según la regla, siempre un entero no negativo: un
+ * bulto o una caja incompleta también lleva etiqueta. Devuelve null con la
+ * regla de la columna Cantidad o si faltan datos.
+ */
+export function computeQuantity(rule: QuantityRule, counts: LabelData["counts"] = {}): QuantityComputation | null {
+  if (rule.kind === "column" || missingCounts(rule, counts).length > 0) return null;
+  let raw: number;
+  let detail: string;
+  if (rule.kind === "packs") {
+    raw = Math.ceil(counts.units! / counts.packSize!);
+    detail = `${counts.units} ÷ ${counts.packSize} = ${raw}`;
+  } else {
+    const pallets = counts.pallets ?? 0;
+    const boxes = counts.boxes ?? 0;
+    raw = Math.ceil(pallets) + Math.ceil(boxes);
+    detail = `${pallets} pallets + ${boxes} cajas = ${raw}`;
+  }
+  const quantity = Math.max(0, clampQuantity(rule, raw));
+  return { quantity, detail: detail + limitDetail(raw, quantity) };
+}
+
+/** Problemas de los límites de una regla. */
+export function quantityRuleIssues(rule: QuantityRule): string[] {
+  if (rule.min !== undefined && rule.max !== undefined && rule.min > rule.max) {
+    return ["El mínimo es mayor que el máximo."];
+  }
+  return [];
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { LabelData, SerialSpec } from "../types";
+import { sliceLabel } from "./chunks";
+import { DEFAULT_SERIAL, advanceSerials, formatSerial, lastSerialValue, nextSerialStart, recordSerials, reusesSerials } from "./serial";
+
+const spec = (changes: Partial<SerialSpec> = {}): SerialSpec => ({ ...DEFAULT_SERIAL, prefix: "ALM-", ...changes });
+const label = (id: string, quantity: number, serial?: SerialSpec): LabelData => ({ id, code: "A1", description: "Tornillos", quantity, serial });
+
+describe("formatSerial", () => {
+  it("rellena con ceros y aplica el paso", () => {
+    expect(formatSerial(spec(), 0)).toBe("ALM-0001");
+    expect(formatSerial(spec({ start: 10, step: 5, suffix: "/B" }), 2)).toBe("ALM-0020/B");
+    expect(formatSerial(spec({ start: 1, step: -1, padding: 2 }), 3)).toBe("ALM--02");
+  });
+
+  it("calcula el último número de la etiqueta", () => {
+    expect(lastSerialValue(spec({ start: 7, step: 2 }), 3)).toBe(11);
+  });
+});
+
+describe("contadores de numeración", () => {
+  it("guarda el último número por prefijo y continúa desde el siguiente", () => {
+    const counters = recordSerials({}, [label("a", 3, spec()), label("b", 2, spec({ start: 10 }))]);
+    expect(counters).toEqual({ "ALM-": 11 });
+    expect(nextSerialStart(counters, spec())).toBe(12);
+    expect(reusesSerials(counters, label("c", 1, spec({ start: 11 })))).toBe(true);
+    expect(reusesSerials(counters, label("c", 1, spec({ start: 12 })))).toBe(false);
+  });
+});
+
+describe("advanceSerials", () => {
+  it("mueve el inicio al número siguiente al último impreso", () => {
+    const labels = [label("a", 3, spec({ start: 5, step: 2 })), label("b", 2)];
+    const advanced = advanceSerials(labels, labels);
+    expect(advanced[0].serial?.start).toBe(11);
+    expect(advanced[1]).toBe(labels[1]);
+  });
+
+  it("no avanza las etiquetas que salieron en porciones", () => {
+    const labels = [label("a", 10, spec())];
+    expect(advanceSerials(labels, [sliceLabel(labels[0], 0, 4)])[0]).toBe(labels[0]);
+    expect(advanceSerials(labels, [sliceLabel(labels[0], 4, 6)])[0]).toBe(labels[0]);
+  });
+});
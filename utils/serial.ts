@@ -0,0 +1,100 @@
+import { LabelData, SerialSpec } from "../types";
+import { loadSetting, saveSetting } from "./settings";
+
+export const DEFAULT_SERIAL: SerialSpec = { prefix: "", start: 1, step: 1, padding: 4, suffix: "", mode: "blocks" };
+
+/** Número de la copia `index` (desde 0), p. ej. "ALM-0001". */
+export function formatSerial(spec: SerialSpec, index: number): string {
+  const value = spec.start + spec.step * index;
+  const digits = String(Math.abs(value)).padStart(spec.padding, "0");
+  return `${spec.prefix}${value < 0 ? "-" : ""}${digits}${spec.suffix}`;
+}
+
+/** Último valor numérico que usa una etiqueta con `quantity` copias. */
+export const lastSerialValue = (spec: SerialSpec, quantity: number): number =>
+  spec.start + spec.step * Math.max(0, quantity - 1);
+
+/**
+ * Indica si la impresora puede incrementar el número: el incremento toma la
+ * última secuencia de dígitos, así que el sufijo no puede tener dígitos.
+ */
+export const printerCanIncrement = (spec: SerialSpec): boolean => !/\d/.test(spec.suffix);
+
+/** Problemas de una numeración para `quantity` copias. */
+export function serialIssues(spec: SerialSpec, quantity: number): string[] {
+  const issues: string[] = [];
+  if (!Number.isInteger(spec.start) || !Number.isInteger(spec.step)) issues.push("El inicio y el paso deben ser enteros.");
+  if (spec.step === 0) issues.push("El paso no puede ser 0: todas las etiquetas tendrían el mismo número.");
+  if (quantity > 0 && Math.min(spec.start, lastSerialValue(spec, quantity)) < 0) {
+    issues.push("La numeración llega a valores negativos.");
+  }
+  if (spec.mode === "printer" && !printerCanIncrement(spec)) {
+    issues.push("Con incremento de la impresora el sufijo no puede tener dígitos; se genera un bloque por copia.");
+  }
+  return issues;
+}
+
+const SERIALS_KEY = "etiquetas.serials";
+
+/** Último número impreso por prefijo. */
+export type SerialCounters = Record<string, number>;
+
+export const loadSerialCounters = (): SerialCounters => loadSetting<SerialCounters>(SERIALS_KEY, {});
+
+export const saveSerialCounters = (counters: SerialCounters): boolean => saveSetting(SERIALS_KEY, counters);
+
+/**
+ * Inicio que continúa la numeración guardada para el prefijo sin repetir
+ * números; sin historial se mantiene `fallback`.
+ */
+export function nextSerialStart(counters: SerialCounters, spec: SerialSpec, fallback: number = spec.start): number {
+  const last = counters[spec.prefix];
+  if (last === undefined) return fallback;
+  return spec.step < 0 ? last + spec.step : last + Math.abs(spec.step);
+}
+
+/**
+ * Indica si el rango de la etiqueta repite números ya impresos con su
+ * prefijo (sólo para numeraciones ascendentes).
+ */
+export function reusesSerials(counters: SerialCounters, label: Pick<LabelData, "serial" | "quantity">): boolean {
+  const spec = label.serial;
+  if (!spec || label.quantity <= 0 || spec.step <= 0) return false;
+  const last = counters[spec.prefix];
+  return last !== undefined && spec.start <= last;
+}
+
+/**
+ * Etiquetas con el inicio de la numeración movido al número siguiente al
+ * último impreso, para que la próxima salida no los repita. Sólo avanza las
+ * etiquetas que salieron completas: una porción de una etiqueta (una parte
+ * del trabajo) no cambia su inicio.
+ */
+export function advanceSerials(labels: LabelData[], printed: LabelData[]): LabelData[] {
+  const whole = new Map(
+    printed
+      .filter((label) => label.serial && label.quantity > 0)
+      .map((label) => [label.id, label])
+  );
+  return labels.map((label) => {
+    const output = whole.get(label.id);
+    if (!label.serial || !output?.serial || output.quantity !== label.quantity || output.serial.start !== label.serial.start) {
+      return label;
+    }
+    return { ...label, serial: { ...label.serial, start: lastSerialValue(label.serial, label.quantity) + label.serial.step } };
+  });
+}
+
+/** Contadores con el último número de cada etiqueta numerada ya impresa. */
+export function recordSerials(counters: SerialCounters, labels: LabelData[]): SerialCounters {
+  const next = { ...counters };
+  labels.forEach((label) => {
+    if (!label.serial || label.quantity <= 0) return;
+    const last = lastSerialValue(label.serial, label.quantity);
+    const previous = next[label.serial.prefix];
+    next[label.serial.prefix] = previous === undefined
+      ? last
+      : label.serial.step < 0 ? Math.min(previous, last) : Math.max(previous, last);
+  });
+  return next;
+}
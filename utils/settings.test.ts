@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { loadSetting, saveSetting, writeStorage } from "./settings";
+
+// Almacenamiento en memoria que puede simular el navegador lleno.
+function stubStorage(full: boolean) {
+  const items = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (full) throw new DOMException("Storage full", "QuotaExceededError");
+      items.set(key, value);
+    },
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("writeStorage", () => {
+  it("guarda y devuelve true", () => {
+    stubStorage(false);
+    expect(saveSetting("prueba", { a: 1 })).toBe(true);
+    expect(loadSetting("prueba", { a: 0, b: 2 })).toEqual({ a: 1, b: 2 });
+  });
+
+  it("devuelve false sin lanzar si el almacenamiento está lleno", () => {
+    stubStorage(true);
+    expect(writeStorage("prueba", "x")).toBe(false);
+    expect(saveSetting("prueba", { a: 1 })).toBe(false);
+  });
+});
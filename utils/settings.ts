@@ -0,0 +1,31 @@
+/**
+ * Lee una preferencia guardada en localStorage. Si no existe o está dañada,
+ * devuelve el valor por defecto; las propiedades faltantes también se
+ * completan con él.
+ */
+export function loadSetting<T extends object>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? { ...fallback, ...(JSON.parse(raw) as Partial<T>) } : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Guarda un texto en localStorage. Si el almacenamiento del navegador está
+ * lleno (QuotaExceededError) o no está disponible devuelve false en lugar de
+ * lanzar la excepción, para que un guardado automático no tire abajo la app.
+ */
+export function writeStorage(key: string, text: string): boolean {
+  try {
+    localStorage.setItem(key, text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function saveSetting<T extends object>(key: string, value: T): boolean {
+  return writeStorage(key, JSON.stringify(value));
+}
@@ -0,0 +1,21 @@
+let context: AudioContext | null = null;
+
+/**
+ * Emite un tono corto por los parlantes. Si el navegador no permite audio
+ * (sin interacción previa o sin Web Audio) no hace nada.
+ */
+export function beep(frequency: number, durationMs: number): void {
+  try {
+    context ??= new AudioContext();
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = "square";
+    oscillator.frequency.value = frequency;
+    gain.gain.value = 0.08;
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start();
+    oscillator.stop(context.currentTime + durationMs / 1000);
+  } catch {
+    // Sin audio: queda sólo la señal visual.
+  }
+}
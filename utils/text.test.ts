@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { splitDescription } from "./text";
+
+describe("splitDescription", () => {
+  it("deja en una línea lo que entra", () => {
+    expect(splitDescription("Clavos", 25)).toEqual(["Clavos", ""]);
+  });
+
+  it("corta en el último espacio antes del límite, como rfind de Python", () => {
+    expect(splitDescription("AAAAAAAAAAAAAAAAAAAA BBBB CCC", 25)).toEqual(["AAAAAAAAAAAAAAAAAAAA", "BBBB CCC"]);
+  });
+
+  it("corta la palabra si no hay espacios", () => {
+    expect(splitDescription("ABCDEFGHIJKLMNOPQRSTUVWXYZ0123", 25)).toEqual(["ABCDEFGHIJKLMNOPQRSTUVWXY", "Z0123"]);
+  });
+
+  it("respeta el corte manual", () => {
+    expect(splitDescription("Pintura látex blanca", 25, 7)).toEqual(["Pintura", "látex blanca"]);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Removes invisible characters (like zero-width spaces) from a string.
+ * This helps clean up data pasted from rich text sources like Word or Google Docs.
+ * @param input The string to sanitize.
+ * @returns The sanitized string.
+ */
+export const sanitizeString = (input: string): string => {
+  if (!input) return "";
+  // This regex targets zero-width space, zero-width non-joiner, zero-width joiner, and byte order mark.
+  return input.replace(/[\u200B-\u200D\uFEFF]/g, "");
+};
+
+/**
+ * Splits a description into two lines for the label printer.
+ * It tries to split at the last space before the maxLength to keep words intact.
+ * The maxLength is set to 25 to align with the printer's label format definition (d0,25).
+ * @param description The full product description.
+ * @param maxLength The maximum length of the first line (default: 25).
+ * @param lineBreak Optional manual break: the number of characters that go on the first line.
+ * @returns An array containing the first and second lines.
+ */
+export const splitDescription = (
+  description: string,
+  maxLength: number = 25,
+  lineBreak?: number
+): [string, string] => {
+  const trimmedDesc = description.trim();
+  if (lineBreak !== undefined && lineBreak > 0) {
+    return [trimmedDesc.substring(0, lineBreak).trim(), trimmedDesc.substring(lineBreak).trim()];
+  }
+  if (trimmedDesc.length <= maxLength) {
+    return [trimmedDesc, ""];
+  }
+
+  // Find the last space before maxLength to avoid splitting words, like
+  // Python's rfind(" ", 0, maxLength), which excludes index maxLength itself.
+  let splitPos = trimmedDesc.lastIndexOf(" ", maxLength - 1);
+
+  // If no space is found, or it's at the very beginning, we have to split the word.
+  if (splitPos <= 0) {
+    splitPos = maxLength;
+  }
+
+  const line1 = trimmedDesc.substring(0, splitPos).trim();
+  const line2 = trimmedDesc.substring(splitPos).trim();
+
+  return [line1, line2];
+};
+
+/** Quita tildes y diéresis: "Ñandú" → "Nandu". */
+export const removeDiacritics = (input: string): string =>
+  input.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { createZip } from "./zip";
+
+// Lee las entradas a partir del directorio central, como lo haría un descompresor.
+function readZip(zip: Uint8Array): { name: string; data: Uint8Array; crc: number }[] {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const name = new TextDecoder().decode(zip.slice(position + 46, position + 46 + nameLength));
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    entries.push({ name, data: zip.slice(dataStart, dataStart + size), crc: view.getUint32(position + 16, true) });
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe("createZip", () => {
+  it("guarda los archivos sin comprimir, con nombres UTF-8 y su CRC", () => {
+    const files = [
+      { name: "etiquetas_parte01.txt", data: new Uint8Array([0x02, 0x41, 0xa4, 0x03]) },
+      { name: "sección.txt", data: new TextEncoder().encode("123456789") },
+    ];
+    const entries = readZip(createZip(files, new Date(2026, 9, 19, 12, 30)));
+    expect(entries.map(entry => entry.name)).toEqual(["etiquetas_parte01.txt", "sección.txt"]);
+    expect(entries.map(entry => [...entry.data])).toEqual(files.map(file => [...file.data]));
+    // CRC-32 de "123456789" según la definición del estándar.
+    expect(entries[1].crc).toBe(0xcbf43926);
+  });
+});